@@ -0,0 +1,307 @@
+import React, { useId, useState } from 'react';
+import { Check, Clock, Pencil, Trash2, UserPen } from 'lucide-react';
+import {
+  VideoEvent, TacticalInsight, PlayerInsight, Provenance, MatchSetup,
+  EVENT_TYPES, TACTICAL_PHASES, PLAYER_ACTION_TYPES, IMPACT_LEVELS
+} from '../types';
+import { parseTimestamp, formatTimestamp } from '../utils/validation';
+import { eventTime, keyMomentTime } from '../utils/analysisEdits';
+import { rosterLabel } from '../utils/roster';
+import { canonicalTeam } from '../utils/matchSetup';
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded px-2.5 py-1.5 text-xs text-white focus:ring-1 focus:ring-emerald-500 outline-none";
+
+// --- Shared pieces ---
+
+export const EditedBadge: React.FC<{ provenance?: Provenance }> = ({ provenance }) => {
+  if (!provenance) return null;
+  return provenance === 'manual' ? (
+    <span title="Added by an analyst" className="text-[9px] font-bold text-blue-300 bg-blue-500/10 border border-blue-500/30 px-1.5 py-0.5 rounded flex items-center gap-1">
+      <UserPen className="w-2.5 h-2.5" /> MANUAL
+    </span>
+  ) : (
+    <span title="AI output corrected by an analyst" className="text-[9px] font-bold text-amber-300 bg-amber-500/10 border border-amber-500/30 px-1.5 py-0.5 rounded flex items-center gap-1">
+      <UserPen className="w-2.5 h-2.5" /> EDITED
+    </span>
+  );
+};
+
+export const ItemActions: React.FC<{ onEdit: () => void; onDelete: () => void }> = ({ onEdit, onDelete }) => (
+  <div className="flex items-center gap-0.5" onClick={(e) => e.stopPropagation()}>
+    <button onClick={onEdit} title="Edit" className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-800">
+      <Pencil className="w-3 h-3" />
+    </button>
+    <button onClick={onDelete} title="Delete" className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-slate-800">
+      <Trash2 className="w-3 h-3" />
+    </button>
+  </div>
+);
+
+// "Assign to player" fix-up for player insights, listing both squads.
+export const PlayerAssign: React.FC<{
+  setup: MatchSetup;
+  rosterId?: string;
+  onAssign: (rosterId: string | null) => void;
+}> = ({ setup, rosterId, onAssign }) => (
+  <select
+    value={rosterId ?? ''}
+    onChange={(e) => onAssign(e.target.value || null)}
+    onClick={(e) => e.stopPropagation()}
+    title="Assign to player"
+    className={`max-w-[10rem] bg-slate-950 border rounded px-1.5 py-0.5 text-[10px] font-mono outline-none ${rosterId ? 'border-slate-700 text-slate-400' : 'border-amber-500/40 text-amber-300'}`}
+  >
+    <option value="">{rosterId ? 'Unassign' : 'Assign to player…'}</option>
+    {(['team_a', 'team_b'] as const).filter(team => setup[team].roster?.length).map(team => (
+      <optgroup key={team} label={setup[team].name}>
+        {setup[team].roster!.map(p => <option key={p.id} value={p.id}>{rosterLabel(p)}{p.position ? ` (${p.position})` : ''}</option>)}
+      </optgroup>
+    ))}
+  </select>
+);
+
+const Field: React.FC<{ label: string; children: React.ReactNode; className?: string }> = ({ label, children, className = '' }) => (
+  <label className={`block ${className}`}>
+    <span className="text-[10px] uppercase font-bold text-slate-500 tracking-wider block mb-1">{label}</span>
+    {children}
+  </label>
+);
+
+const Select: React.FC<{ value: string; options: readonly string[]; onChange: (value: string) => void }> = ({ value, options, onChange }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+    {options.map(option => <option key={option} value={option}>{option}</option>)}
+  </select>
+);
+
+// MM:SS input with a button that takes the current video time
+const TimeField: React.FC<{
+  label: string;
+  value: string;
+  currentVideoTime: number;
+  onChange: (value: string) => void;
+}> = ({ label, value, currentVideoTime, onChange }) => (
+  <Field label={label}>
+    <div className="flex gap-1">
+      <input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="MM:SS"
+        className={`${inputClass} font-mono ${value && parseTimestamp(value) === null ? 'border-red-500/60' : ''}`}
+      />
+      <button
+        type="button"
+        onClick={() => onChange(formatTimestamp(currentVideoTime))}
+        title="Set to current video time"
+        className="px-2 rounded border border-slate-700 text-slate-400 hover:text-emerald-400 hover:border-emerald-500/50 shrink-0"
+      >
+        <Clock className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  </Field>
+);
+
+const EditorShell: React.FC<{
+  isNew: boolean;
+  error: string | null;
+  onSave: () => void;
+  onCancel: () => void;
+  children: React.ReactNode;
+}> = ({ isNew, error, onSave, onCancel, children }) => (
+  <div
+    className="p-3 rounded-lg border border-emerald-500/40 bg-slate-900/80 space-y-2.5"
+    onClick={(e) => e.stopPropagation()}
+    onKeyDown={(e) => { if (e.key === 'Escape') onCancel(); }}
+  >
+    {children}
+    {error && <p className="text-[11px] text-red-400">{error}</p>}
+    <div className="flex gap-2 justify-end">
+      <button onClick={onCancel} className="text-xs text-slate-500 hover:text-slate-300 px-2 py-1">Cancel</button>
+      <button onClick={onSave} className="text-xs font-bold bg-emerald-600 hover:bg-emerald-500 text-white px-3 py-1 rounded flex items-center gap-1">
+        <Check className="w-3 h-3" /> {isNew ? 'Add' : 'Save'}
+      </button>
+    </div>
+  </div>
+);
+
+// Hands back null when nothing changed so untouched items keep their AI marker
+const changed = <T,>(before: T | undefined, after: T): T | null =>
+  before && JSON.stringify(before) === JSON.stringify(after) ? null : after;
+
+// Whether a typed time still means the stored one. Unchanged times keep the
+// stored string and seconds, so saving doesn't turn "1:23" into "01:23".
+const sameTime = (seconds: number | null, stored: string | undefined) =>
+  seconds !== null && stored !== undefined && parseTimestamp(stored) === seconds;
+
+// --- Editors ---
+
+export const EventEditor: React.FC<{
+  event?: VideoEvent;
+  setup?: MatchSetup;
+  currentVideoTime: number;
+  onSave: (event: VideoEvent) => void;
+  onCancel: () => void;
+}> = ({ event, setup, currentVideoTime, onSave, onCancel }) => {
+  const teamListId = useId();
+  const [time, setTime] = useState(event?.timestamp ?? formatTimestamp(currentVideoTime));
+  const [type, setType] = useState<VideoEvent['type']>(event?.type ?? 'Tactical');
+  const [team, setTeam] = useState(event?.team ?? '');
+  const [description, setDescription] = useState(event?.description ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const save = () => {
+    const seconds = parseTimestamp(time);
+    if (seconds === null) return setError("Enter the time as MM:SS.");
+    if (!description.trim()) return setError("Add a description.");
+    const retimed = !(event && sameTime(seconds, event.timestamp));
+    // Retiming a hand-coded event moves its clip window with it
+    const shift = event && retimed ? seconds - event.seconds : 0;
+    const next = changed(event, {
+      ...event,
+      ...(retimed ? eventTime(seconds) : {}),
+      ...(event?.window_start !== undefined && event.window_end !== undefined
+        ? { window_start: Math.max(0, event.window_start + shift), window_end: event.window_end + shift }
+        : {}),
+      type,
+      // "Home" or "Team A" is stored as the setup's team name, like AI events
+      team: canonicalTeam(team.trim() || 'Unknown', setup),
+      description: description.trim(),
+    });
+    if (next) onSave(next); else onCancel();
+  };
+
+  return (
+    <EditorShell isNew={!event} error={error} onSave={save} onCancel={onCancel}>
+      <div className="grid grid-cols-3 gap-2">
+        <TimeField label="Time" value={time} currentVideoTime={currentVideoTime} onChange={setTime} />
+        <Field label="Type"><Select value={type} options={EVENT_TYPES} onChange={(v) => setType(v as VideoEvent['type'])} /></Field>
+        <Field label="Team">
+          <input value={team} onChange={(e) => setTeam(e.target.value)} list={setup ? teamListId : undefined} className={inputClass} />
+          {setup && (
+            <datalist id={teamListId}>
+              {[setup.team_a.name, setup.team_b.name, 'Both'].map(name => <option key={name} value={name} />)}
+            </datalist>
+          )}
+        </Field>
+      </div>
+      <Field label="Description">
+        <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} className={inputClass} autoFocus />
+      </Field>
+    </EditorShell>
+  );
+};
+
+export const InsightEditor: React.FC<{
+  insight?: TacticalInsight;
+  currentVideoTime: number;
+  onSave: (insight: TacticalInsight) => void;
+  onCancel: () => void;
+}> = ({ insight, currentVideoTime, onSave, onCancel }) => {
+  const [title, setTitle] = useState(insight?.title ?? '');
+  const [phase, setPhase] = useState<TacticalInsight['phase']>(insight?.phase ?? 'Attacking');
+  const [time, setTime] = useState(insight?.key_moment_timestamp ?? (insight ? '' : formatTimestamp(currentVideoTime)));
+  const [observation, setObservation] = useState(insight?.observation ?? '');
+  const [breakdown, setBreakdown] = useState((insight?.breakdown ?? []).join('\n'));
+  const [improvement, setImprovement] = useState(insight?.improvement ?? '');
+  const [drillName, setDrillName] = useState(insight?.drill_name ?? '');
+  const [drillSetup, setDrillSetup] = useState(insight?.drill_setup ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const save = () => {
+    if (!title.trim()) return setError("Add a title.");
+    const seconds = time.trim() ? parseTimestamp(time) : null;
+    if (time.trim() && seconds === null) return setError("Enter the key moment as MM:SS, or leave it empty.");
+    const steps = breakdown.split('\n').map(s => s.trim()).filter(Boolean);
+    const next: TacticalInsight = {
+      ...insight,
+      title: title.trim(),
+      phase,
+      observation: observation.trim(),
+      improvement: improvement.trim(),
+      visual_cue: insight?.visual_cue ?? '',
+      breakdown: steps.length > 0 ? steps : undefined,
+      drill_name: drillName.trim() || undefined,
+      drill_setup: drillSetup.trim() || undefined,
+      ...(sameTime(seconds, insight?.key_moment_timestamp) ? {}
+        : seconds !== null ? keyMomentTime(seconds) : { key_moment_seconds: undefined, key_moment_timestamp: undefined }),
+    };
+    // Drop cleared optional fields so the comparison and the saved JSON stay clean
+    (Object.keys(next) as (keyof TacticalInsight)[]).forEach(k => next[k] === undefined && delete next[k]);
+    const result = changed(insight, next);
+    if (result) onSave(result); else onCancel();
+  };
+
+  return (
+    <EditorShell isNew={!insight} error={error} onSave={save} onCancel={onCancel}>
+      <Field label="Title"><input value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} autoFocus /></Field>
+      <div className="grid grid-cols-2 gap-2">
+        <Field label="Phase"><Select value={phase} options={TACTICAL_PHASES} onChange={(v) => setPhase(v as TacticalInsight['phase'])} /></Field>
+        <TimeField label="Key Moment" value={time} currentVideoTime={currentVideoTime} onChange={setTime} />
+      </div>
+      <Field label="Observation">
+        <textarea value={observation} onChange={(e) => setObservation(e.target.value)} rows={3} className={inputClass} />
+      </Field>
+      <Field label="Breakdown (one step per line)">
+        <textarea value={breakdown} onChange={(e) => setBreakdown(e.target.value)} rows={3} className={`${inputClass} font-mono`} />
+      </Field>
+      <Field label="Coaching Correction">
+        <textarea value={improvement} onChange={(e) => setImprovement(e.target.value)} rows={2} className={inputClass} />
+      </Field>
+      <div className="grid grid-cols-2 gap-2">
+        <Field label="Drill Name"><input value={drillName} onChange={(e) => setDrillName(e.target.value)} className={inputClass} /></Field>
+        <Field label="Drill Setup"><input value={drillSetup} onChange={(e) => setDrillSetup(e.target.value)} className={inputClass} /></Field>
+      </div>
+    </EditorShell>
+  );
+};
+
+export const PlayerEditor: React.FC<{
+  player?: PlayerInsight;
+  currentVideoTime: number;
+  onSave: (player: PlayerInsight) => void;
+  onCancel: () => void;
+}> = ({ player, currentVideoTime, onSave, onCancel }) => {
+  const [name, setName] = useState(player?.player ?? '');
+  const [actionType, setActionType] = useState<PlayerInsight['action_type']>(player?.action_type ?? 'Off-Ball Run');
+  const [impact, setImpact] = useState<PlayerInsight['impact']>(player?.impact ?? 'Medium');
+  const [description, setDescription] = useState(player?.description ?? '');
+  const [start, setStart] = useState(player?.time_start ?? (player ? '' : formatTimestamp(currentVideoTime)));
+  const [end, setEnd] = useState(player?.time_end ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const save = () => {
+    if (!name.trim()) return setError("Name the player.");
+    if (!description.trim()) return setError("Add a description.");
+    const startSec = start.trim() ? parseTimestamp(start) : null;
+    const endSec = end.trim() ? parseTimestamp(end) : null;
+    if ((start.trim() && startSec === null) || (end.trim() && endSec === null)) return setError("Enter times as MM:SS, or leave them empty.");
+    if (startSec !== null && endSec !== null && endSec < startSec) return setError("End time is before the start time.");
+    const next: PlayerInsight = {
+      ...player,
+      player: name.trim(),
+      action_type: actionType,
+      impact,
+      description: description.trim(),
+      time_start: sameTime(startSec, player?.time_start) ? player!.time_start : startSec !== null ? formatTimestamp(startSec) : undefined,
+      time_end: sameTime(endSec, player?.time_end) ? player!.time_end : endSec !== null ? formatTimestamp(endSec) : undefined,
+    };
+    (Object.keys(next) as (keyof PlayerInsight)[]).forEach(k => next[k] === undefined && delete next[k]);
+    const result = changed(player, next);
+    if (result) onSave(result); else onCancel();
+  };
+
+  return (
+    <EditorShell isNew={!player} error={error} onSave={save} onCancel={onCancel}>
+      <div className="grid grid-cols-3 gap-2">
+        <Field label="Player"><input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} autoFocus /></Field>
+        <Field label="Action"><Select value={actionType} options={PLAYER_ACTION_TYPES} onChange={(v) => setActionType(v as PlayerInsight['action_type'])} /></Field>
+        <Field label="Impact"><Select value={impact} options={IMPACT_LEVELS} onChange={(v) => setImpact(v as PlayerInsight['impact'])} /></Field>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <TimeField label="Start" value={start} currentVideoTime={currentVideoTime} onChange={setStart} />
+        <TimeField label="End" value={end} currentVideoTime={currentVideoTime} onChange={setEnd} />
+      </div>
+      <Field label="Description">
+        <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} className={inputClass} />
+      </Field>
+    </EditorShell>
+  );
+};
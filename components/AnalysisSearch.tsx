@@ -0,0 +1,223 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, X, Loader2, Activity, BrainCircuit, Users, Library, Film } from 'lucide-react';
+import { AnalysisData, AnalysisSession, EventType } from '../types';
+import {
+  EMPTY_FACETS, facetCounts, indexAnalysis, LibraryHit, searchDocs, searchLibrary, SearchFacets, SearchHit, SearchKind,
+} from '../utils/search';
+import { listSessions } from '../utils/sessionStore';
+import { getEventColor } from '../utils/eventColors';
+import { formatTimestamp, parseTimestamp } from '../utils/validation';
+
+const MAX_RESULTS = 200;
+
+const KIND_LABELS: Record<SearchKind, string> = { event: 'Events', insight: 'Insights', player: 'Players' };
+
+const KIND_ICONS: Record<SearchKind, React.ReactNode> = {
+  event: <Activity className="w-3.5 h-3.5 text-blue-400" />,
+  insight: <BrainCircuit className="w-3.5 h-3.5 text-purple-400" />,
+  player: <Users className="w-3.5 h-3.5 text-emerald-400" />,
+};
+
+type ListFacet = 'kinds' | 'types' | 'phases' | 'teams' | 'impacts';
+
+const FacetGroup: React.FC<{
+  label: string;
+  counts: Map<string, number>;
+  selected: string[];
+  onToggle: (value: string) => void;
+  format?: (value: string) => string;
+  color?: (value: string) => string | undefined;
+}> = ({ label, counts, selected, onToggle, format, color }) => {
+  if (counts.size === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <span className="text-[9px] uppercase font-bold text-slate-600 w-14 shrink-0">{label}</span>
+      {Array.from(counts.entries()).map(([value, count]) => {
+        const on = selected.includes(value);
+        const dot = color?.(value);
+        return (
+          <button
+            key={value}
+            onClick={() => onToggle(value)}
+            className={`text-[10px] px-1.5 py-0.5 rounded border flex items-center gap-1 transition-colors ${on ? 'border-emerald-500/60 bg-emerald-500/10 text-emerald-300' : 'border-slate-800 text-slate-400 hover:text-white hover:border-slate-700'}`}
+          >
+            {dot && <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: dot }} />}
+            <span className="max-w-[8rem] truncate">{format ? format(value) : value}</span>
+            <span className="font-mono text-slate-600">{count}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+const HitRow: React.FC<{ hit: SearchHit; session?: AnalysisSession; onOpen: () => void }> = ({ hit, session, onOpen }) => (
+  <button onClick={onOpen} className="w-full text-left p-3 rounded-lg border border-slate-800 bg-slate-900/30 hover:bg-slate-800/60 hover:border-slate-700 transition-colors">
+    <div className="flex items-center gap-2 mb-1">
+      {KIND_ICONS[hit.doc.kind]}
+      <span className="text-xs font-bold text-slate-200 truncate flex-1">{hit.doc.title}</span>
+      {hit.doc.type && <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: getEventColor(hit.doc.type) }} />}
+      {hit.doc.seconds !== null && (
+        <span className="text-[10px] font-mono text-slate-500 bg-slate-950 px-1.5 py-0.5 rounded border border-slate-800 shrink-0">
+          {formatTimestamp(hit.doc.seconds)}
+        </span>
+      )}
+    </div>
+    {hit.snippet && (
+      <p className="text-[11px] text-slate-400 leading-snug">
+        <span className="text-[9px] uppercase text-slate-600 mr-1">{hit.snippet.field}</span>
+        {hit.snippet.before}<mark className="bg-amber-400/25 text-amber-200 rounded-sm px-0.5">{hit.snippet.match}</mark>{hit.snippet.after}
+      </p>
+    )}
+    {session && (
+      <p className="text-[10px] text-slate-500 mt-1 flex items-center gap-1 truncate">
+        <Film className="w-3 h-3 shrink-0" /> {session.title}
+      </p>
+    )}
+  </button>
+);
+
+// One search box over the open analysis or the whole library, with facets.
+// Picking a result hands it back so the console can open, seek and highlight it.
+export const AnalysisSearch: React.FC<{
+  analysis: AnalysisData | null;
+  onOpen: (hit: SearchHit, session?: AnalysisSession) => void;
+  onClose: () => void;
+}> = ({ analysis, onOpen, onClose }) => {
+  const [query, setQuery] = useState("");
+  const [facets, setFacets] = useState<SearchFacets>(EMPTY_FACETS);
+  const [scope, setScope] = useState<'match' | 'library'>(analysis ? 'match' : 'library');
+  const [sessions, setSessions] = useState<AnalysisSession[] | null>(null);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => inputRef.current?.focus(), []);
+
+  useEffect(() => {
+    if (scope !== 'library' || sessions) return;
+    listSessions()
+      .then(setSessions)
+      .catch(err => {
+        console.error("Library load failed", err);
+        setLibraryError(err.message || "Could not open the local library.");
+        setSessions([]);
+      });
+  }, [scope, sessions]);
+
+  const matchDocs = useMemo(() => analysis ? indexAnalysis(analysis) : [], [analysis]);
+  const libraryDocs = useMemo(() => (sessions || []).map(session => ({ session, docs: indexAnalysis(session.analysis) })), [sessions]);
+
+  const start = from.trim() ? parseTimestamp(from) : undefined;
+  const end = to.trim() ? parseTimestamp(to) : undefined;
+  const active: SearchFacets = { ...facets, start: start ?? undefined, end: end ?? undefined };
+
+  // Facet counts reflect the text query, before facets narrow it further
+  const textHits: SearchHit[] = scope === 'match'
+    ? searchDocs(matchDocs, query)
+    : searchLibrary(libraryDocs, query);
+  const counts = facetCounts(textHits.map(h => h.doc));
+  const hits: (SearchHit | LibraryHit)[] = scope === 'match'
+    ? searchDocs(matchDocs, query, active)
+    : searchLibrary(libraryDocs, query, active);
+
+  const toggle = (facet: ListFacet) => (value: string) => setFacets(prev => {
+    const list = prev[facet] as string[];
+    return { ...prev, [facet]: list.includes(value) ? list.filter(v => v !== value) : [...list, value] };
+  });
+  const hasFacets = (['kinds', 'types', 'phases', 'teams', 'impacts'] as const).some(f => facets[f].length > 0) || !!from || !!to;
+
+  const open = (hit: SearchHit | LibraryHit) => onOpen(hit, 'session' in hit ? hit.session : undefined);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-start justify-center p-4 pt-[8vh]" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[84vh] bg-[#0f1422] border border-slate-800 rounded-xl shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-800 space-y-3 shrink-0">
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 w-4 h-4" />
+              <input
+                ref={inputRef}
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && hits.length > 0) open(hits[0]);
+                  if (e.key === 'Escape') onClose();
+                }}
+                placeholder="Search events, insights and player actions..."
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg py-2 pl-9 pr-3 text-sm text-white placeholder-slate-500 focus:ring-1 focus:ring-emerald-500 outline-none"
+              />
+            </div>
+            <div className="flex rounded-lg border border-slate-700 overflow-hidden text-[10px] font-bold uppercase shrink-0">
+              <button
+                onClick={() => setScope('match')}
+                disabled={!analysis}
+                className={`px-2.5 py-2 flex items-center gap-1 disabled:opacity-30 ${scope === 'match' ? 'bg-slate-800 text-emerald-400' : 'text-slate-500 hover:text-white'}`}
+              >
+                <Film className="w-3 h-3" /> This match
+              </button>
+              <button
+                onClick={() => setScope('library')}
+                className={`px-2.5 py-2 flex items-center gap-1 ${scope === 'library' ? 'bg-slate-800 text-emerald-400' : 'text-slate-500 hover:text-white'}`}
+              >
+                <Library className="w-3 h-3" /> Library
+              </button>
+            </div>
+            <button onClick={onClose} className="p-1.5 rounded text-slate-500 hover:text-white hover:bg-slate-800">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="space-y-1.5">
+            <FacetGroup label="Kind" counts={counts.kinds} selected={facets.kinds} onToggle={toggle('kinds')} format={v => KIND_LABELS[v as SearchKind]} />
+            <FacetGroup label="Type" counts={counts.types} selected={facets.types} onToggle={toggle('types')} color={v => getEventColor(v as EventType)} />
+            <FacetGroup label="Phase" counts={counts.phases} selected={facets.phases} onToggle={toggle('phases')} />
+            <FacetGroup label="Team" counts={counts.teams} selected={facets.teams} onToggle={toggle('teams')} />
+            <FacetGroup label="Impact" counts={counts.impacts} selected={facets.impacts} onToggle={toggle('impacts')} />
+            <div className="flex items-center gap-1 text-[10px]">
+              <span className="text-[9px] uppercase font-bold text-slate-600 w-14 shrink-0">Time</span>
+              {[{ value: from, set: setFrom, placeholder: 'From' }, { value: to, set: setTo, placeholder: 'To' }].map(({ value, set, placeholder }) => (
+                <input
+                  key={placeholder}
+                  value={value}
+                  onChange={(e) => set(e.target.value)}
+                  placeholder={`${placeholder} MM:SS`}
+                  className={`w-24 bg-slate-950 border rounded px-2 py-0.5 font-mono text-white outline-none ${value.trim() && parseTimestamp(value) === null ? 'border-red-500/60' : 'border-slate-800'}`}
+                />
+              ))}
+              {hasFacets && (
+                <button onClick={() => { setFacets(EMPTY_FACETS); setFrom(""); setTo(""); }} className="ml-auto text-slate-500 hover:text-white">
+                  Clear filters
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+          {libraryError && <p className="text-xs text-red-400">{libraryError}</p>}
+          {scope === 'library' && sessions === null && (
+            <div className="flex justify-center py-10 text-slate-500"><Loader2 className="w-5 h-5 animate-spin" /></div>
+          )}
+          {(scope === 'match' || sessions !== null) && (
+            <p className="text-[10px] font-mono text-slate-600">
+              {hits.length} RESULT{hits.length === 1 ? '' : 'S'}{hits.length > MAX_RESULTS && ` · SHOWING ${MAX_RESULTS}`}
+            </p>
+          )}
+          {hits.slice(0, MAX_RESULTS).map(hit => (
+            <HitRow
+              key={`${'session' in hit ? hit.session.id : ''}-${hit.doc.kind}-${hit.doc.index}`}
+              hit={hit}
+              session={'session' in hit ? hit.session : undefined}
+              onOpen={() => open(hit)}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,326 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import {
+  Printer, X, Loader2, BrainCircuit, ListChecks, PenTool, ClipboardList, Camera, Users, Activity
+} from 'lucide-react';
+import { AnalysisData, DiagramTeam, MatchSetup, TacticalInsight, PlayerInsight, VideoEvent, EVENT_TYPES } from '../types';
+import { captureFrames } from '../utils/frameCapture';
+import { getEventColor } from '../utils/eventColors';
+import { shapeChanges } from '../utils/formations';
+import { teamColors, teamName } from '../utils/matchSetup';
+import { playerName } from '../utils/roster';
+import { InsightDiagram } from './PitchDiagram';
+import { FormationPitch } from './FormationBoard';
+
+// Pages are A4 sheets on screen and map 1:1 to printed pages via the
+// print rules in index.html (body.printing-report).
+const Page: React.FC<{ children: React.ReactNode; className?: string }> = ({ children, className = '' }) => (
+  <section className={`report-page bg-white text-slate-800 w-[210mm] min-h-[297mm] mx-auto mb-8 p-[14mm] shadow-2xl print:shadow-none print:mb-0 ${className}`}>
+    {children}
+  </section>
+);
+
+const SectionHeading: React.FC<{ icon: React.ReactNode; children: React.ReactNode }> = ({ icon, children }) => (
+  <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2 border-b-2 border-emerald-500 pb-2 mb-5">
+    {icon} {children}
+  </h2>
+);
+
+// --- Sub-Component: Insight Page (print version of InsightCard) ---
+const InsightPage: React.FC<{ insight: TacticalInsight; index: number; frame?: string | null; colors: Record<DiagramTeam, string> }> = ({ insight, index, frame, colors }) => (
+  <Page>
+    <div className="flex justify-between items-start gap-4 mb-5">
+      <h3 className="font-bold text-xl text-slate-900 flex items-start gap-2">
+        <BrainCircuit className="w-5 h-5 text-purple-600 mt-1 shrink-0" />
+        <span><span className="text-slate-400 font-mono text-sm mr-2">#{index + 1}</span>{insight.title}</span>
+      </h3>
+      <div className="flex items-center gap-2 shrink-0">
+        {insight.key_moment_timestamp && (
+          <span className="text-[10px] font-mono text-slate-600 bg-slate-100 px-2 py-0.5 rounded border border-slate-300">
+            {insight.key_moment_timestamp}
+          </span>
+        )}
+        <span className="text-[10px] uppercase font-bold text-emerald-700 bg-emerald-50 px-2 py-1 rounded border border-emerald-200">
+          {insight.phase}
+        </span>
+      </div>
+    </div>
+
+    <div className="mb-5">
+      <span className="text-[10px] text-slate-500 uppercase font-bold tracking-wider flex items-center gap-1 mb-2">
+        <Camera className="w-3 h-3" /> Key Moment
+      </span>
+      <div className="grid grid-cols-2 gap-3 items-start">
+        <div className="aspect-video bg-slate-900 rounded border border-slate-300 overflow-hidden flex items-center justify-center">
+          {frame ? (
+            <img src={frame} alt={`Frame at ${insight.key_moment_timestamp}`} className="w-full h-full object-contain" />
+          ) : (
+            <p className="text-xs text-slate-400 italic px-8 text-center">No frame available.</p>
+          )}
+        </div>
+        <InsightDiagram diagram={insight.diagram} fallback={insight.visual_cue} teamColors={colors} light />
+      </div>
+    </div>
+
+    <div className="space-y-4">
+      <div>
+        <p className="text-[10px] text-slate-500 uppercase font-bold mb-2 tracking-wider">Deep Analysis</p>
+        <p className="text-sm text-slate-700 leading-relaxed border-l-2 border-emerald-500 pl-3 italic">
+          "{insight.observation}"
+        </p>
+      </div>
+
+      {insight.breakdown && insight.breakdown.length > 0 && (
+        <div className="bg-slate-50 rounded-lg p-4 border border-slate-200">
+          <div className="flex items-center gap-2 mb-3">
+            <ListChecks className="w-4 h-4 text-purple-600" />
+            <span className="text-xs font-bold uppercase tracking-wider text-slate-700">Tactical Sequence Breakdown</span>
+          </div>
+          <div className="space-y-2">
+            {insight.breakdown.map((step, idx) => (
+              <div key={idx} className="flex items-start gap-3 text-xs text-slate-700">
+                <div className="w-6 h-6 rounded-full bg-white border border-slate-300 flex items-center justify-center shrink-0">
+                  <span className="font-mono text-[10px]">{idx + 1}</span>
+                </div>
+                <span className="leading-relaxed py-0.5">{step}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-emerald-50 rounded-lg p-3 border border-emerald-200">
+        <div className="flex items-center gap-2 mb-2 text-emerald-700">
+          <PenTool className="w-3 h-3" />
+          <span className="text-[10px] font-bold uppercase tracking-wider">Coaching Correction</span>
+        </div>
+        <p className="text-xs text-slate-800 leading-relaxed">{insight.improvement}</p>
+      </div>
+
+      {insight.drill_name && (
+        <div className="bg-blue-50 rounded-lg p-3 border border-blue-200 break-inside-avoid">
+          <div className="flex items-center gap-2 mb-2 text-blue-700">
+            <ClipboardList className="w-3 h-3" />
+            <span className="text-[10px] font-bold uppercase tracking-wider">Training Drill: {insight.drill_name}</span>
+          </div>
+          <p className="text-xs text-slate-600 leading-relaxed">{insight.drill_setup}</p>
+        </div>
+      )}
+    </div>
+  </Page>
+);
+
+const groupEventsByType = (events: VideoEvent[]) =>
+  EVENT_TYPES
+    .map(type => ({ type, events: events.filter(e => e.type === type) }))
+    .filter(group => group.events.length > 0);
+
+// Grouped by roster entry where assigned, so "Number 10" and "Saka" land together
+const groupPlayers = (players: PlayerInsight[], setup: MatchSetup | undefined) => {
+  const groups = new Map<string, PlayerInsight[]>();
+  players.forEach(p => {
+    const name = playerName(p, setup);
+    groups.set(name, [...(groups.get(name) || []), p]);
+  });
+  return Array.from(groups.entries());
+};
+
+export const CoachingReport: React.FC<{
+  analysis: AnalysisData;
+  title: string;
+  videoUrl: string | null;
+  onClose: () => void;
+}> = ({ analysis, title, videoUrl, onClose }) => {
+  const [frames, setFrames] = useState<Map<number, string | null>>(new Map());
+  // An insight's attached drawing sets its frame; otherwise use the key moment
+  const frameTime = (index: number) =>
+    analysis.telestrations?.find(t => t.insight_index === index)?.seconds ?? analysis.tactical_insights[index].key_moment_seconds;
+  const keyMoments = analysis.tactical_insights
+    .map((_, idx) => frameTime(idx))
+    .filter((s): s is number => s !== undefined);
+  const [isCapturing, setIsCapturing] = useState(!!videoUrl && keyMoments.length > 0);
+
+  // Print rules hide the app while the report is mounted
+  useEffect(() => {
+    document.body.classList.add('printing-report');
+    return () => document.body.classList.remove('printing-report');
+  }, []);
+
+  useEffect(() => {
+    if (!videoUrl || keyMoments.length === 0) return;
+    let cancelled = false;
+    captureFrames(videoUrl, keyMoments, {
+      maxWidth: 1024,
+      telestrations: analysis.telestrations,
+      onFrame: (seconds, frame) => {
+        if (!cancelled) setFrames(prev => new Map(prev).set(seconds, frame));
+      },
+    })
+      .catch(err => console.error("Report frame capture failed", err))
+      .finally(() => { if (!cancelled) setIsCapturing(false); });
+    return () => { cancelled = true; };
+  }, [videoUrl, analysis]);
+
+  const eventGroups = groupEventsByType(analysis.events);
+  const changes = shapeChanges(analysis.formation_timeline);
+  const playerGroups = groupPlayers(analysis.player_analysis, analysis.setup);
+
+  return createPortal(
+    <div id="report-root" className="fixed inset-0 z-[70] bg-slate-950/95 overflow-y-auto print:static print:bg-white print:overflow-visible">
+      {/* Toolbar (screen only) */}
+      <div className="sticky top-0 z-10 bg-[#0f1422] border-b border-slate-800 px-6 h-14 flex items-center justify-between print:hidden">
+        <div className="flex items-center gap-3 text-sm">
+          <span className="font-bold text-white">Coaching Report</span>
+          {isCapturing && (
+            <span className="text-xs text-slate-400 flex items-center gap-2 font-mono">
+              <Loader2 className="w-3 h-3 animate-spin" /> CAPTURING FRAMES {frames.size}/{new Set(keyMoments).size}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => window.print()}
+            disabled={isCapturing}
+            className="px-4 py-2 rounded-lg font-bold text-sm flex items-center gap-2 bg-emerald-600 text-white hover:bg-emerald-500 disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed"
+          >
+            <Printer className="w-4 h-4" /> Print / Save PDF
+          </button>
+          <button onClick={onClose} className="p-2 rounded text-slate-400 hover:text-white hover:bg-slate-800">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="py-8 print:py-0">
+        {/* Cover: match context and formations */}
+        <Page>
+          <p className="text-[10px] uppercase tracking-widest text-emerald-600 font-bold">PitchSide PRO · Coaching Report</p>
+          <h1 className="text-3xl font-bold text-slate-900 mt-2 mb-1">{title}</h1>
+          {analysis.setup && (
+            <p className="text-sm font-bold text-slate-700 flex items-center gap-2">
+              <span className="w-3 h-3 rounded-full border border-slate-300" style={{ backgroundColor: analysis.setup.team_a.color }} />
+              {analysis.setup.team_a.name} vs {analysis.setup.team_b.name}
+              <span className="w-3 h-3 rounded-full border border-slate-300" style={{ backgroundColor: analysis.setup.team_b.color }} />
+              {analysis.setup.competition && <span className="font-normal text-slate-500">· {analysis.setup.competition}</span>}
+            </p>
+          )}
+          <p className="text-xs text-slate-500 font-mono mb-8">{analysis.setup?.date || new Date().toLocaleDateString()}</p>
+
+          <SectionHeading icon={<Activity className="w-5 h-5 text-emerald-600" />}>Match Context</SectionHeading>
+          <p className="text-sm text-slate-700 leading-relaxed mb-8">{analysis.match_context || "No match context provided."}</p>
+
+          <div className="grid grid-cols-2 gap-4 mb-8">
+            {(['team_a', 'team_b'] as const).map(team => (
+              <div key={team} className="rounded-lg border border-slate-200 p-4">
+                <span className="text-[10px] uppercase text-slate-500 font-bold block mb-1">{teamName(analysis.setup, team)} Formation</span>
+                <span className="text-emerald-700 font-mono text-2xl font-bold">{analysis.formations[team] || "Unknown"}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="mb-8">
+            <FormationPitch formations={analysis.formations} setup={analysis.setup} light />
+          </div>
+
+          {changes.length > 1 && (
+            <table className="w-full text-xs mb-8">
+              <thead>
+                <tr className="text-left text-slate-500 uppercase text-[10px]">
+                  <th className="py-1">Window</th><th>{teamName(analysis.setup, 'team_a')}</th><th>{teamName(analysis.setup, 'team_b')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map((w, idx) => (
+                  <tr key={idx} className="border-t border-slate-100 font-mono">
+                    <td className="py-1">{Math.floor(w.start_seconds / 60)}'–{Math.floor(w.end_seconds / 60)}'</td>
+                    <td>{w.team_a}</td><td>{w.team_b}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="grid grid-cols-3 gap-4 text-center">
+            {[
+              ['Events', analysis.events.length],
+              ['Tactical Insights', analysis.tactical_insights.length],
+              ['Player Actions', analysis.player_analysis.length],
+            ].map(([label, count]) => (
+              <div key={label} className="rounded-lg bg-slate-50 border border-slate-200 py-4">
+                <div className="text-2xl font-bold text-slate-900">{count}</div>
+                <div className="text-[10px] uppercase tracking-wider text-slate-500 font-bold">{label}</div>
+              </div>
+            ))}
+          </div>
+        </Page>
+
+        {/* Timeline summary grouped by event type */}
+        {eventGroups.length > 0 && (
+          <Page>
+            <SectionHeading icon={<Activity className="w-5 h-5 text-emerald-600" />}>Timeline Summary</SectionHeading>
+            <div className="space-y-6">
+              {eventGroups.map(group => (
+                <div key={group.type} className="break-inside-avoid-page">
+                  <h3 className="text-xs font-bold uppercase tracking-wider mb-2 flex items-center gap-2">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: getEventColor(group.type) }} />
+                    {group.type} <span className="text-slate-400 font-mono">({group.events.length})</span>
+                  </h3>
+                  <table className="w-full text-xs">
+                    <tbody>
+                      {group.events.map((evt, idx) => (
+                        <tr key={idx} className="border-t border-slate-100 align-top">
+                          <td className="py-1 pr-3 font-mono text-slate-500 w-14">{evt.timestamp}</td>
+                          <td className="py-1 pr-3 font-semibold text-slate-700 w-28">{evt.team}</td>
+                          <td className="py-1 text-slate-700">{evt.description}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          </Page>
+        )}
+
+        {/* One page per tactical insight */}
+        {analysis.tactical_insights.map((insight, idx) => (
+          <InsightPage
+            key={idx}
+            index={idx}
+            insight={insight}
+            frame={frameTime(idx) !== undefined ? frames.get(frameTime(idx)!) : null}
+            colors={teamColors(analysis.setup)}
+          />
+        ))}
+
+        {/* Player section */}
+        {playerGroups.length > 0 && (
+          <Page>
+            <SectionHeading icon={<Users className="w-5 h-5 text-emerald-600" />}>Player Analysis</SectionHeading>
+            <div className="space-y-5">
+              {playerGroups.map(([player, actions]) => (
+                <div key={player} className="break-inside-avoid">
+                  <h3 className="font-bold text-sm text-slate-900 mb-2">{player}</h3>
+                  <div className="space-y-2">
+                    {actions.map((action, idx) => (
+                      <div key={idx} className="rounded-lg border border-slate-200 p-3">
+                        <div className="flex justify-between items-center mb-1">
+                          <span className="text-[10px] text-slate-500 uppercase tracking-wider font-semibold">{action.action_type}</span>
+                          <span className="text-[10px] font-mono text-slate-500">
+                            {action.time_start}{action.time_end ? `–${action.time_end}` : ''} · {action.impact.toUpperCase()} IMPACT
+                          </span>
+                        </div>
+                        <p className="text-xs text-slate-700 leading-relaxed">{action.description}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Page>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,257 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Keyboard, X, Settings2, Plus, Trash2, Save, Copy, Circle } from 'lucide-react';
+import { CodeButton, CodeTemplate, VideoEvent, EVENT_TYPES } from '../types';
+import {
+  loadTemplates, saveTemplates, loadActiveTemplateId, saveActiveTemplateId,
+  checkTemplate, codeEvent, newButtonId
+} from '../utils/codeTemplates';
+import { formatTimestamp } from '../utils/validation';
+import { getEventColor } from '../utils/eventColors';
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:ring-1 focus:ring-emerald-500 outline-none";
+
+// Key that closes the most recently opened duration instance
+const CLOSE_KEY = 'Enter';
+
+// --- Sub-Component: Button Row (layout editor) ---
+const ButtonRow: React.FC<{
+  button: CodeButton;
+  onChange: (patch: Partial<CodeButton>) => void;
+  onRemove: () => void;
+}> = ({ button, onChange, onRemove }) => (
+  <div className="grid grid-cols-[1fr_2.5rem_6rem_1fr_5.5rem_3rem_3rem_1.5rem] gap-1.5 items-center">
+    <input value={button.label} onChange={(e) => onChange({ label: e.target.value })} placeholder="Label" className={inputClass} />
+    <input
+      value={button.hotkey.toUpperCase()}
+      onChange={(e) => onChange({ hotkey: e.target.value.slice(-1).toLowerCase() })}
+      maxLength={2}
+      className={`${inputClass} text-center font-mono`}
+    />
+    <select value={button.type} onChange={(e) => onChange({ type: e.target.value as CodeButton['type'] })} className={inputClass}>
+      {EVENT_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+    </select>
+    <input value={button.team} onChange={(e) => onChange({ team: e.target.value })} placeholder="Team" className={inputClass} />
+    <select value={button.mode} onChange={(e) => onChange({ mode: e.target.value as CodeButton['mode'] })} className={inputClass}>
+      <option value="instant">Instant</option>
+      <option value="duration">Duration</option>
+    </select>
+    <input type="number" min={0} value={button.lead} onChange={(e) => onChange({ lead: Math.max(0, Number(e.target.value) || 0) })} title="Lead (s)" className={`${inputClass} font-mono`} />
+    <input type="number" min={0} value={button.lag} onChange={(e) => onChange({ lag: Math.max(0, Number(e.target.value) || 0) })} title="Lag (s)" className={`${inputClass} font-mono`} />
+    <button onClick={onRemove} title="Remove" className="text-slate-500 hover:text-red-400">
+      <Trash2 className="w-3.5 h-3.5" />
+    </button>
+  </div>
+);
+
+export const CodeWindow: React.FC<{
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  currentVideoTime: number;
+  duration?: number;
+  disabled?: boolean;
+  onCode: (event: VideoEvent, label: string) => void;
+  onClose: () => void;
+}> = ({ videoRef, currentVideoTime, duration, disabled, onCode, onClose }) => {
+  const [templates, setTemplates] = useState<CodeTemplate[]>(loadTemplates);
+  const [activeId, setActiveId] = useState<string>(() => loadActiveTemplateId() ?? templates[0].id);
+  // Duration instances waiting for their closing press: button id -> start time
+  const [open, setOpen] = useState<Map<string, number>>(new Map());
+  const [flash, setFlash] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CodeTemplate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const flashTimer = useRef<number>();
+
+  const template = templates.find(t => t.id === activeId) ?? templates[0];
+  // Read the element directly: currentVideoTime only updates a few times a second
+  const now = () => videoRef.current?.currentTime ?? currentVideoTime;
+
+  const persist = (next: CodeTemplate[], nextActiveId: string) => {
+    setTemplates(next);
+    setActiveId(nextActiveId);
+    saveTemplates(next);
+    saveActiveTemplateId(nextActiveId);
+  };
+
+  const press = (b: CodeButton) => {
+    if (disabled) return;
+    window.clearTimeout(flashTimer.current);
+    setFlash(b.id);
+    flashTimer.current = window.setTimeout(() => setFlash(null), 250);
+
+    if (b.mode === 'instant') {
+      const t = now();
+      onCode(codeEvent(b, t, t, duration), b.label);
+      return;
+    }
+    const start = open.get(b.id);
+    if (start === undefined) {
+      setOpen(prev => new Map(prev).set(b.id, now()));
+      return;
+    }
+    closeInstance(b, start);
+  };
+
+  const closeInstance = (b: CodeButton, start: number) => {
+    setOpen(prev => {
+      const next = new Map(prev);
+      next.delete(b.id);
+      return next;
+    });
+    onCode(codeEvent(b, start, Math.max(start, now()), duration), b.label);
+  };
+
+  // Hotkeys are live while the window is shown and the layout is not being edited
+  useEffect(() => {
+    if (draft) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.repeat) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (e.key === CLOSE_KEY) {
+        const last = Array.from(open.entries()).pop();
+        const b = last && template.buttons.find(x => x.id === last[0]);
+        if (b && last) {
+          e.preventDefault();
+          closeInstance(b, last[1]);
+        }
+        return;
+      }
+      const b = template.buttons.find(x => x.hotkey === e.key.toLowerCase());
+      if (b) {
+        e.preventDefault();
+        press(b);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const saveDraft = (asNew: boolean) => {
+    if (!draft) return;
+    const problem = checkTemplate(draft);
+    if (problem) return setError(problem);
+    const saved = asNew ? { ...draft, id: crypto.randomUUID() } : draft;
+    persist(asNew ? [...templates, saved] : templates.map(t => t.id === saved.id ? saved : t), saved.id);
+    setDraft(null);
+    setError(null);
+    setOpen(new Map());
+  };
+
+  const deleteTemplate = () => {
+    if (templates.length <= 1) return;
+    const next = templates.filter(t => t.id !== template.id);
+    persist(next, next[0].id);
+    setDraft(null);
+    setOpen(new Map());
+  };
+
+  const updateDraftButton = (id: string, patch: Partial<CodeButton>) =>
+    setDraft(d => d && { ...d, buttons: d.buttons.map(b => b.id === id ? { ...b, ...patch } : b) });
+
+  return (
+    <div className="bg-[#0f1422] rounded-xl border border-slate-800 shrink-0">
+      <div className="px-4 py-2.5 border-b border-slate-800 flex items-center gap-3">
+        <h3 className="text-xs font-bold text-slate-300 uppercase tracking-wider flex items-center gap-2">
+          <Keyboard className="w-3.5 h-3.5 text-emerald-500" /> Code Window
+        </h3>
+        {!draft && (
+          <select
+            value={template.id}
+            onChange={(e) => { persist(templates, e.target.value); setOpen(new Map()); }}
+            className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 outline-none"
+          >
+            {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+        )}
+        <span className="text-[10px] font-mono text-slate-500 ml-auto">{formatTimestamp(currentVideoTime)}</span>
+        {!draft && (
+          <button onClick={() => { setDraft(structuredClone(template)); setError(null); }} title="Edit layout" className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-800">
+            <Settings2 className="w-3.5 h-3.5" />
+          </button>
+        )}
+        <button onClick={onClose} className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-800">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {draft ? (
+        <div className="p-4 space-y-2">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className={`${inputClass} font-bold`}
+            placeholder="Template name"
+          />
+          <div className="grid grid-cols-[1fr_2.5rem_6rem_1fr_5.5rem_3rem_3rem_1.5rem] gap-1.5 text-[9px] uppercase font-bold text-slate-500 tracking-wider">
+            <span>Label</span><span>Key</span><span>Type</span><span>Team</span><span>Mode</span><span>Lead</span><span>Lag</span><span />
+          </div>
+          {draft.buttons.map(b => (
+            <ButtonRow
+              key={b.id}
+              button={b}
+              onChange={(patch) => updateDraftButton(b.id, patch)}
+              onRemove={() => setDraft({ ...draft, buttons: draft.buttons.filter(x => x.id !== b.id) })}
+            />
+          ))}
+          <button
+            onClick={() => setDraft({
+              ...draft,
+              buttons: [...draft.buttons, { id: newButtonId(), label: '', hotkey: '', type: 'Tactical', team: 'Team A', mode: 'instant', lead: 5, lag: 3 }],
+            })}
+            className="text-xs text-emerald-400 hover:text-emerald-300 flex items-center gap-1"
+          >
+            <Plus className="w-3 h-3" /> Add button
+          </button>
+          {error && <p className="text-[11px] text-red-400">{error}</p>}
+          <div className="flex gap-2 justify-end pt-1">
+            {templates.length > 1 && (
+              <button onClick={deleteTemplate} className="text-xs text-red-400/80 hover:text-red-400 px-2 py-1 mr-auto">Delete template</button>
+            )}
+            <button onClick={() => { setDraft(null); setError(null); }} className="text-xs text-slate-500 hover:text-slate-300 px-2 py-1">Cancel</button>
+            <button onClick={() => saveDraft(true)} className="text-xs font-bold border border-slate-700 text-slate-300 hover:text-white px-3 py-1 rounded flex items-center gap-1">
+              <Copy className="w-3 h-3" /> Save as new
+            </button>
+            <button onClick={() => saveDraft(false)} className="text-xs font-bold bg-emerald-600 hover:bg-emerald-500 text-white px-3 py-1 rounded flex items-center gap-1">
+              <Save className="w-3 h-3" /> Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="p-3">
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+            {template.buttons.map(b => {
+              const start = open.get(b.id);
+              return (
+                <button
+                  key={b.id}
+                  onClick={() => press(b)}
+                  disabled={disabled}
+                  className={`relative text-left rounded-lg border px-2.5 py-2 transition-all disabled:opacity-40
+                    ${start !== undefined ? 'bg-red-500/10 border-red-500/50' : flash === b.id ? 'bg-emerald-500/20 border-emerald-400' : 'bg-slate-900/60 border-slate-800 hover:border-slate-600'}
+                  `}
+                  style={{ borderLeftColor: getEventColor(b.type), borderLeftWidth: 3 }}
+                >
+                  <span className="absolute top-1.5 right-1.5 text-[9px] font-mono font-bold text-slate-400 bg-slate-950 border border-slate-700 rounded px-1">
+                    {b.hotkey.toUpperCase()}
+                  </span>
+                  <span className="block text-xs font-bold text-white truncate pr-5">{b.label}</span>
+                  <span className="block text-[10px] text-slate-500 truncate">
+                    {start !== undefined ? (
+                      <span className="text-red-400 font-mono flex items-center gap-1">
+                        <Circle className="w-2 h-2 fill-current animate-pulse" /> {formatTimestamp(Math.max(0, currentVideoTime - start))}
+                      </span>
+                    ) : `${b.team}${b.mode === 'duration' ? ' · duration' : ''}`}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-[10px] text-slate-600 mt-2">
+            {disabled
+              ? "Coding is paused while an analysis runs."
+              : `Press a hotkey to code at the playhead. Duration buttons close on a second press or ${CLOSE_KEY}.`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
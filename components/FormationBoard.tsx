@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Pencil, Check, X, Radio } from 'lucide-react';
+import { AnalysisData, MatchSetup } from '../types';
+import { Formations, formationsAt, lineupActors, parseFormation, shapeChanges } from '../utils/formations';
+import { teamColors, teamName } from '../utils/matchSetup';
+import { formatTimestamp } from '../utils/validation';
+import { InsightDiagram } from './PitchDiagram';
+
+// Both lineups facing each other. Teams whose formation can't be parsed are
+// left off the pitch and named underneath instead.
+export const FormationPitch: React.FC<{ formations: Formations; setup?: MatchSetup; light?: boolean }> = ({ formations, setup, light }) => {
+  const teams = [
+    { key: 'A' as const, name: teamName(setup, 'team_a'), text: formations.team_a, lines: parseFormation(formations.team_a) },
+    { key: 'B' as const, name: teamName(setup, 'team_b'), text: formations.team_b, lines: parseFormation(formations.team_b) },
+  ];
+  const actors = teams.flatMap(t => t.lines ? lineupActors(t.lines, t.key) : []);
+  const unparsed = teams.filter(t => !t.lines);
+
+  return (
+    <div>
+      <InsightDiagram
+        diagram={actors.length ? { actors, movements: [] } : undefined}
+        fallback={actors.length ? `${teams[0].name} ${formations.team_a} vs ${teams[1].name} ${formations.team_b}` : 'Formations not recognised; shapes are shown as reported.'}
+        teamColors={teamColors(setup)}
+        light={light}
+      />
+      {unparsed.length > 0 && actors.length > 0 && (
+        <p className="text-[10px] mt-1 italic text-slate-500">
+          {unparsed.map(t => `${t.name}: "${t.text || 'Unknown'}"`).join(' · ')} (shape not recognised)
+        </p>
+      )}
+    </div>
+  );
+};
+
+const FormationLabel: React.FC<{ name: string; color: string; text: string }> = ({ name, color, text }) => (
+  <div className="bg-slate-900/50 p-3 rounded border border-slate-800 min-w-0">
+    <span className="text-[10px] uppercase text-slate-500 font-bold mb-1 flex items-center gap-1.5">
+      <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: color }} />
+      <span className="truncate">{name} Formation</span>
+    </span>
+    <span className={`font-mono text-sm ${parseFormation(text) ? 'text-emerald-400' : 'text-slate-400 italic'}`}>{text || "Unknown"}</span>
+  </div>
+);
+
+// Formation view for the console: lineups at the current video time, a strip
+// of shape changes when the timeline has any, and a manual "change shape" form.
+export const FormationBoard: React.FC<{
+  analysis: AnalysisData;
+  currentVideoTime: number;
+  duration: number;
+  canEdit: boolean;
+  onSeek: (seconds: number) => void;
+  onRecordChange: (formations: Formations, seconds: number) => void;
+}> = ({ analysis, currentVideoTime, duration, canEdit, onSeek, onRecordChange }) => {
+  // null follows the video; a number pins one change
+  const [pinned, setPinned] = useState<number | null>(null);
+  const [draft, setDraft] = useState<Formations | null>(null);
+
+  const changes = shapeChanges(analysis.formation_timeline);
+  const following = changes.map(c => c.start_seconds <= currentVideoTime).lastIndexOf(true);
+  const activeIndex = pinned !== null && changes[pinned] ? pinned : following;
+  const shown = changes[activeIndex] ?? formationsAt(analysis, currentVideoTime);
+  const total = Math.max(duration, ...changes.map(c => c.end_seconds), 1);
+  const colors = teamColors(analysis.setup);
+
+  const submit = () => {
+    if (!draft) return;
+    onRecordChange({ team_a: draft.team_a.trim() || 'Unknown', team_b: draft.team_b.trim() || 'Unknown' }, Math.floor(currentVideoTime));
+    setDraft(null);
+    setPinned(null);
+  };
+
+  return (
+    <div className="mt-2 space-y-3">
+      <div className="grid grid-cols-2 gap-4">
+        <FormationLabel name={teamName(analysis.setup, 'team_a')} color={colors.A} text={shown.team_a} />
+        <FormationLabel name={teamName(analysis.setup, 'team_b')} color={colors.B} text={shown.team_b} />
+      </div>
+
+      <FormationPitch formations={shown} setup={analysis.setup} />
+
+      {changes.length > 1 && (
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-[10px] uppercase text-slate-500 font-bold">Shape Changes</span>
+            <button
+              onClick={() => setPinned(null)}
+              className={`text-[10px] font-mono flex items-center gap-1 ${pinned === null ? 'text-emerald-400' : 'text-slate-500 hover:text-white'}`}
+              title="Show the shapes at the current video time"
+            >
+              <Radio className="w-3 h-3" /> FOLLOW VIDEO
+            </button>
+          </div>
+          <div className="relative h-7 bg-slate-950 rounded border border-slate-800 overflow-hidden">
+            {changes.map((change, idx) => {
+              const active = idx === activeIndex;
+              return (
+                <button
+                  key={idx}
+                  onClick={() => { setPinned(idx); onSeek(change.start_seconds); }}
+                  title={`${formatTimestamp(change.start_seconds)}–${formatTimestamp(change.end_seconds)}: ${change.team_a} vs ${change.team_b}`}
+                  className={`absolute top-0 bottom-0 border-r border-slate-900 text-[9px] font-mono truncate px-1 transition-colors ${active ? 'bg-emerald-600/40 text-white' : idx % 2 ? 'bg-slate-800/70 text-slate-400 hover:bg-slate-700' : 'bg-slate-800/40 text-slate-400 hover:bg-slate-700'}`}
+                  style={{ left: `${(change.start_seconds / total) * 100}%`, width: `${((change.end_seconds - change.start_seconds) / total) * 100}%` }}
+                >
+                  {change.team_a} / {change.team_b}
+                </button>
+              );
+            })}
+            <div className="absolute top-0 bottom-0 w-0.5 bg-white/70 pointer-events-none" style={{ left: `${(currentVideoTime / total) * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      {canEdit && (
+        draft ? (
+          <div className="flex items-center gap-2 text-xs">
+            {(['team_a', 'team_b'] as const).map(team => (
+              <input
+                key={team}
+                value={draft[team]}
+                onChange={(e) => setDraft({ ...draft, [team]: e.target.value })}
+                placeholder={`${teamName(analysis.setup, team)}, e.g. ${team === 'team_a' ? '4-2-3-1' : '3-4-2-1'}`}
+                className={`flex-1 min-w-0 bg-slate-900 border rounded px-2 py-1 font-mono text-white outline-none ${parseFormation(draft[team]) ? 'border-slate-700' : 'border-amber-500/60'}`}
+              />
+            ))}
+            <button onClick={submit} title={`Apply from ${formatTimestamp(currentVideoTime)}`} className="p-1.5 rounded bg-emerald-600 hover:bg-emerald-500 text-white">
+              <Check className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => setDraft(null)} title="Cancel" className="p-1.5 rounded text-slate-400 hover:text-white">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setDraft({ team_a: shown.team_a, team_b: shown.team_b })}
+            className="text-[10px] font-mono text-slate-500 hover:text-emerald-400 flex items-center gap-1"
+          >
+            <Pencil className="w-3 h-3" /> RECORD SHAPE CHANGE AT {formatTimestamp(currentVideoTime)}
+          </button>
+        )
+      )}
+    </div>
+  );
+};
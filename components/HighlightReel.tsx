@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Film, Loader2, Download, XCircle, Scissors, AlertTriangle } from 'lucide-react';
+import { AnalysisData } from '../types';
+import { buildInstances, CodedInstance } from '../utils/timelineExport';
+import { renderHighlightReel, isReelExportSupported, ReelClip, ReelResult } from '../utils/highlightReel';
+import { formatTimestamp } from '../utils/validation';
+import { isAbortError } from '../utils/abort';
+import { getEventColor } from '../utils/eventColors';
+
+const instanceKey = (instance: CodedInstance) => `${instance.source}:${instance.sourceIndex}`;
+
+const toReelClip = (instance: CodedInstance): ReelClip => instance.source === 'tactical_insights'
+  ? { start: instance.start, end: instance.end, title: instance.labels[0]?.text, subtitle: instance.code.replace('Tactical: ', '') }
+  : { start: instance.start, end: instance.end, title: `${instance.code} · ${instance.labels[0]?.text ?? ''}`, subtitle: instance.description };
+
+export const HighlightReel: React.FC<{
+  analysis: AnalysisData;
+  title: string;
+  videoUrl: string;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  duration?: number;
+  onClose: () => void;
+}> = ({ analysis, title, videoUrl, videoRef, duration, onClose }) => {
+  const [preRoll, setPreRoll] = useState(5);
+  const [postRoll, setPostRoll] = useState(5);
+  const [titleCards, setTitleCards] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [progress, setProgress] = useState<{ clipIndex: number; clipCount: number; fraction: number } | null>(null);
+  const [result, setResult] = useState<(ReelResult & { url: string }) | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const instances = buildInstances(analysis, {
+    preRoll,
+    postRoll,
+    include: ['events', 'tactical_insights'],
+    duration: duration || undefined,
+  });
+  const chosen = instances.filter(i => selected.has(instanceKey(i)));
+  const reelSeconds = chosen.reduce((sum, i) => sum + (i.end - i.start) + (titleCards ? 2.5 : 0), 0);
+  const isRendering = progress !== null;
+  const supported = isReelExportSupported();
+
+  // Stop rendering and release the reel blob when the dialog closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+  useEffect(() => () => { if (result) URL.revokeObjectURL(result.url); }, [result]);
+
+  const toggle = (key: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    return next;
+  });
+
+  const preview = (instance: CodedInstance) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = instance.start;
+    videoRef.current.play();
+  };
+
+  const render = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    videoRef.current?.pause();
+    setError(null);
+    setResult(null);
+    setProgress({ clipIndex: 0, clipCount: chosen.length, fraction: 0 });
+    try {
+      const reel = await renderHighlightReel(videoUrl, chosen.map(toReelClip), {
+        titleCards,
+        telestrations: analysis.telestrations,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      setResult({ ...reel, url: URL.createObjectURL(reel.blob) });
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        console.error("Highlight reel failed", err);
+        setError(err.message || "Reel rendering failed.");
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const overall = progress ? (progress.clipIndex + progress.fraction) / progress.clipCount : 0;
+  const extension = result?.mimeType.startsWith('video/mp4') ? '.mp4' : '.webm';
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex justify-end" onClick={isRendering ? undefined : onClose}>
+      <div
+        className="w-full max-w-lg h-full bg-[#0f1422] border-l border-slate-800 shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 h-16 border-b border-slate-800 flex items-center justify-between shrink-0">
+          <h2 className="font-bold text-white flex items-center gap-2">
+            <Scissors className="w-4 h-4 text-emerald-500" /> Highlight Reel
+          </h2>
+          <button onClick={onClose} disabled={isRendering} className="p-1.5 rounded text-slate-500 hover:text-white hover:bg-slate-800 disabled:opacity-40">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-slate-800 shrink-0 space-y-3">
+          <div className="flex gap-3 items-end">
+            {([['Pre-roll', preRoll, setPreRoll], ['Post-roll', postRoll, setPostRoll]] as const).map(([label, value, setValue]) => (
+              <label key={label} className="flex-1">
+                <span className="text-[10px] uppercase font-bold text-slate-500 tracking-wider block mb-1">{label} (s)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={60}
+                  value={value}
+                  disabled={isRendering}
+                  onChange={(e) => setValue(Math.max(0, Number(e.target.value) || 0))}
+                  className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm text-white font-mono focus:ring-1 focus:ring-emerald-500 outline-none"
+                />
+              </label>
+            ))}
+            <label className="flex items-center gap-2 text-xs text-slate-300 pb-2 cursor-pointer whitespace-nowrap">
+              <input type="checkbox" checked={titleCards} disabled={isRendering} onChange={(e) => setTitleCards(e.target.checked)} className="accent-emerald-500" />
+              Title cards
+            </label>
+          </div>
+          <div className="flex justify-between items-center text-[10px] font-mono text-slate-500">
+            <span>{chosen.length} CLIPS · {formatTimestamp(reelSeconds)} REEL</span>
+            <span className="flex gap-3">
+              <button onClick={() => setSelected(new Set(instances.map(instanceKey)))} disabled={isRendering} className="hover:text-emerald-400">ALL</button>
+              <button onClick={() => setSelected(new Set())} disabled={isRendering} className="hover:text-emerald-400">NONE</button>
+            </span>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+          {instances.length === 0 && (
+            <p className="text-sm text-slate-500 text-center py-10">No events or key moments with timestamps.</p>
+          )}
+          {instances.map(instance => {
+            const key = instanceKey(instance);
+            const isInsight = instance.source === 'tactical_insights';
+            return (
+              <div
+                key={key}
+                className={`p-3 rounded-lg border flex items-start gap-3 transition-colors ${selected.has(key) ? 'bg-emerald-900/10 border-emerald-500/30' : 'bg-slate-900/40 border-slate-800'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(key)}
+                  disabled={isRendering}
+                  onChange={() => toggle(key)}
+                  className="accent-emerald-500 mt-1"
+                />
+                <div className="min-w-0 flex-1 cursor-pointer" onClick={() => preview(instance)}>
+                  <div className="flex items-center gap-2 mb-0.5">
+                    <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: isInsight ? '#a855f7' : getEventColor(instance.code) }} />
+                    <span className="text-xs font-bold text-white truncate">
+                      {isInsight ? instance.labels[0]?.text : `${instance.code} · ${instance.labels[0]?.text}`}
+                    </span>
+                  </div>
+                  <p className="text-[11px] text-slate-400 line-clamp-2">{isInsight ? instance.code : instance.description}</p>
+                </div>
+                <span className="text-[10px] font-mono text-slate-500 whitespace-nowrap">
+                  {formatTimestamp(instance.start)}–{formatTimestamp(instance.end)}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 shrink-0 space-y-3">
+          {!supported && (
+            <p className="text-xs text-amber-400 flex items-center gap-2">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0" /> This browser cannot record video. Use a recent Chrome, Edge or Firefox.
+            </p>
+          )}
+          {error && <p className="text-xs text-red-400 break-words">{error}</p>}
+
+          {result && (
+            <div className="space-y-2">
+              <video src={result.url} controls className="w-full rounded border border-slate-800 bg-black" />
+              <a
+                href={result.url}
+                download={`${title.replace(/[^\w.-]+/g, '_') || 'highlights'}_reel${extension}`}
+                className="w-full text-xs font-bold uppercase tracking-wider py-2 rounded border border-emerald-500/50 text-emerald-400 hover:bg-emerald-500/10 flex items-center justify-center gap-2"
+              >
+                <Download className="w-3.5 h-3.5" /> Download Reel ({(result.blob.size / 1024 / 1024).toFixed(1)}MB)
+              </a>
+            </div>
+          )}
+
+          {progress ? (
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs font-mono text-slate-400">
+                <span className="flex items-center gap-2">
+                  <Loader2 className="w-3 h-3 animate-spin" /> RENDERING CLIP {progress.clipIndex + 1}/{progress.clipCount}
+                </span>
+                <span>{Math.round(overall * 100)}%</span>
+              </div>
+              <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-emerald-500 transition-all" style={{ width: `${overall * 100}%` }} />
+              </div>
+              <p className="text-[10px] text-slate-500">Clips are recorded in real time. Keep this tab in the foreground.</p>
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="w-full py-2 rounded-lg font-bold text-sm flex items-center justify-center gap-2 bg-red-500/10 text-red-400 hover:bg-red-500/20 border border-red-500/50"
+              >
+                <XCircle className="w-4 h-4" /> Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={render}
+              disabled={!supported || chosen.length === 0}
+              className="w-full py-3 rounded-lg font-bold text-sm flex items-center justify-center gap-2 bg-emerald-600 text-white hover:bg-emerald-500 disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed"
+            >
+              <Film className="w-4 h-4" /> RENDER REEL
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,6 @@
 import React, { useState } from 'react';
-import { GoogleGenAI } from "@google/genai";
 import { Image as ImageIcon, Wand2, Download, ArrowRight, Loader2 } from 'lucide-react';
-
-const MODEL_NAME = "gemini-2.5-flash-image";
+import { editImage } from '../utils/geminiProxy';
 
 export const ImageEditor: React.FC = () => {
   const [originalImage, setOriginalImage] = useState<string | null>(null);
@@ -42,43 +40,17 @@ export const ImageEditor: React.FC = () => {
     setError(null);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       const base64Data = await fileToBase64(originalFile);
 
-      const response = await ai.models.generateContent({
-        model: MODEL_NAME,
-        contents: {
-          parts: [
-            {
-              inlineData: {
-                mimeType: originalFile.type,
-                data: base64Data
-              }
-            },
-            {
-              text: prompt
-            }
-          ]
-        }
+      const { image } = await editImage({
+        image: { mimeType: originalFile.type, data: base64Data },
+        prompt,
       });
 
-      // Find the image part in the response
-      let foundImage = false;
-      const parts = response.candidates?.[0]?.content?.parts;
-      if (parts) {
-        for (const part of parts) {
-          if (part.inlineData && part.inlineData.data) {
-            const imgUrl = `data:image/png;base64,${part.inlineData.data}`;
-            setGeneratedImage(imgUrl);
-            foundImage = true;
-            break;
-          }
-        }
-      }
-
-      if (!foundImage) {
+      if (!image) {
         throw new Error("No image generated. The model might have refused the request or returned only text.");
       }
+      setGeneratedImage(`data:${image.mimeType || 'image/png'};base64,${image.data}`);
 
     } catch (err: any) {
       console.error("Generation Error", err);
@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Library, X, Trash2, Pencil, Check, Tag, FolderOpen, Loader2, Search, Film,
+  Download, FileUp
+} from 'lucide-react';
+import { AnalysisSession } from '../types';
+import { listSessions, updateSession, deleteSession, saveSession } from '../utils/sessionStore';
+import { parseAnalysisFile, analysisFileToSession, downloadAnalysisFile, ANALYSIS_FILE_EXTENSION } from '../utils/analysisFile';
+
+const parseTags = (text: string) =>
+  Array.from(new Set(text.split(',').map(t => t.trim()).filter(Boolean)));
+
+// --- Sub-Component: Session Row ---
+const SessionRow: React.FC<{
+  session: AnalysisSession;
+  isActive: boolean;
+  onOpen: () => void;
+  onChange: (session: AnalysisSession) => void;
+  onDelete: () => void;
+  onError: (message: string) => void;
+}> = ({ session, isActive, onOpen, onChange, onDelete, onError }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState(session.title);
+  const [tags, setTags] = useState(session.tags.join(', '));
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const save = async () => {
+    try {
+      const updated = await updateSession(session.id, { title: title.trim() || session.title, tags: parseTags(tags) });
+      onChange(updated);
+      setIsEditing(false);
+    } catch (err: any) {
+      console.error("Rename failed", err);
+      onError(`Rename failed: ${err.message}`);
+    }
+  };
+
+  return (
+    <div className={`p-4 rounded-lg border transition-colors ${isActive ? 'bg-emerald-900/10 border-emerald-500/30' : 'bg-slate-900/40 border-slate-800 hover:border-slate-700'}`}>
+      {isEditing ? (
+        <div className="space-y-2">
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm text-white focus:ring-1 focus:ring-emerald-500 outline-none"
+            placeholder="Match title"
+            autoFocus
+          />
+          <input
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && save()}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-emerald-500 outline-none"
+            placeholder="Tags, comma separated (e.g. U23, Away, Pressing)"
+          />
+          <div className="flex gap-2 justify-end">
+            <button onClick={() => setIsEditing(false)} className="text-xs text-slate-500 hover:text-slate-300 px-2 py-1">Cancel</button>
+            <button onClick={save} className="text-xs font-bold bg-emerald-600 hover:bg-emerald-500 text-white px-3 py-1 rounded flex items-center gap-1">
+              <Check className="w-3 h-3" /> Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="flex justify-between items-start gap-3">
+            <div className="min-w-0">
+              <h4 className="font-bold text-sm text-white truncate">{session.title}</h4>
+              <p className="text-[10px] font-mono text-slate-500 truncate flex items-center gap-1 mt-0.5">
+                <Film className="w-3 h-3 shrink-0" />
+                {session.fileName} · {(session.fileSize / 1024 / 1024).toFixed(1)}MB · {new Date(session.createdAt).toLocaleDateString()}
+              </p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <button onClick={() => downloadAnalysisFile(session)} title={`Export ${ANALYSIS_FILE_EXTENSION}`} className="p-1.5 rounded text-slate-500 hover:text-white hover:bg-slate-800">
+                <Download className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => setIsEditing(true)} title="Rename / tag" className="p-1.5 rounded text-slate-500 hover:text-white hover:bg-slate-800">
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+              {confirmDelete ? (
+                <button onClick={onDelete} className="text-[10px] font-bold text-red-400 bg-red-500/10 border border-red-500/30 px-2 py-1 rounded">
+                  DELETE?
+                </button>
+              ) : (
+                <button onClick={() => setConfirmDelete(true)} title="Delete" className="p-1.5 rounded text-slate-500 hover:text-red-400 hover:bg-slate-800">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-1.5 mt-3">
+            {session.tags.map(tag => (
+              <span key={tag} className="text-[10px] text-blue-300 bg-blue-500/10 border border-blue-500/20 px-2 py-0.5 rounded flex items-center gap-1">
+                <Tag className="w-2.5 h-2.5" /> {tag}
+              </span>
+            ))}
+            <span className="text-[10px] font-mono text-slate-500 bg-slate-950 px-2 py-0.5 rounded border border-slate-800">
+              {session.analysis.events.length} EVT / {session.analysis.tactical_insights.length} TAC / {session.analysis.player_analysis.length} PLR
+            </span>
+            <span className="text-[10px] font-mono text-slate-600 px-1 py-0.5">{session.model}</span>
+          </div>
+
+          <button
+            onClick={onOpen}
+            className="mt-3 w-full text-xs font-bold uppercase tracking-wider py-2 rounded border border-slate-700 text-slate-300 hover:border-emerald-500/50 hover:text-emerald-400 flex items-center justify-center gap-2 transition-colors"
+          >
+            <FolderOpen className="w-3.5 h-3.5" /> {isActive ? 'Reopen' : 'Open'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export const MatchLibrary: React.FC<{
+  activeSessionId: string | null;
+  onOpen: (session: AnalysisSession) => void;
+  onClose: () => void;
+  onDeleted?: (id: string) => void;
+  onRenamed?: (session: AnalysisSession) => void;
+}> = ({ activeSessionId, onOpen, onClose, onDeleted, onRenamed }) => {
+  const [sessions, setSessions] = useState<AnalysisSession[] | null>(null);
+  const [filter, setFilter] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(err => {
+        console.error("Library load failed", err);
+        setError(err.message || "Could not open the local library.");
+        setSessions([]);
+      });
+  }, []);
+
+  const query = filter.trim().toLowerCase();
+  const visible = (sessions || []).filter(s =>
+    !query ||
+    s.title.toLowerCase().includes(query) ||
+    s.fileName.toLowerCase().includes(query) ||
+    s.tags.some(t => t.toLowerCase().includes(query))
+  );
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const importFile = e.target.files?.[0];
+    e.target.value = "";
+    if (!importFile) return;
+    setError(null);
+    setImportNotice(null);
+    try {
+      const { file, migratedFrom, warnings } = parseAnalysisFile(await importFile.text());
+      const session = analysisFileToSession(file, warnings);
+      await saveSession(session);
+      setSessions(prev => [session, ...(prev || [])]);
+      const notes = [
+        migratedFrom < file.schema_version ? `migrated from schema v${migratedFrom}` : '',
+        warnings.length > 0 ? `${warnings.length} field${warnings.length === 1 ? '' : 's'} normalized` : '',
+      ].filter(Boolean).join(', ');
+      setImportNotice(`Imported "${session.title}"${notes ? ` (${notes})` : ''}.`);
+    } catch (err: any) {
+      console.error("Import failed", err);
+      setError(`Import failed: ${err.message}`);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setError(null);
+    try {
+      await deleteSession(id);
+      setSessions(prev => (prev || []).filter(s => s.id !== id));
+      onDeleted?.(id);
+    } catch (err: any) {
+      console.error("Delete failed", err);
+      setError(`Delete failed: ${err.message}`);
+    }
+  };
+
+  const handleRenamed = (updated: AnalysisSession) => {
+    setError(null);
+    setSessions(prev => (prev || []).map(s => s.id === updated.id ? updated : s));
+    onRenamed?.(updated);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex justify-end" onClick={onClose}>
+      <div
+        className="w-full max-w-md h-full bg-[#0f1422] border-l border-slate-800 shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 h-16 border-b border-slate-800 flex items-center justify-between shrink-0">
+          <h2 className="font-bold text-white flex items-center gap-2">
+            <Library className="w-4 h-4 text-emerald-500" /> Match Library
+          </h2>
+          <div className="flex items-center gap-2">
+            <label className="cursor-pointer text-xs font-bold text-slate-400 hover:text-emerald-400 border border-slate-700 hover:border-emerald-500/50 rounded px-2.5 py-1.5 flex items-center gap-1.5 transition-colors">
+              <FileUp className="w-3.5 h-3.5" /> Import
+              <input type="file" accept={`${ANALYSIS_FILE_EXTENSION},.json,application/json`} onChange={handleImport} className="hidden" />
+            </label>
+            <button onClick={onClose} className="p-1.5 rounded text-slate-500 hover:text-white hover:bg-slate-800">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 border-b border-slate-800 shrink-0">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 w-4 h-4" />
+            <input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter by title, file or tag..."
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg py-2 pl-9 pr-3 text-sm text-white placeholder-slate-500 focus:ring-1 focus:ring-emerald-500 outline-none"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-3">
+          {error && <p className="text-xs text-red-400 break-words">{error}</p>}
+          {importNotice && <p className="text-xs text-emerald-400">{importNotice}</p>}
+          {sessions === null && (
+            <div className="flex justify-center py-10 text-slate-500"><Loader2 className="w-5 h-5 animate-spin" /></div>
+          )}
+          {sessions !== null && visible.length === 0 && !error && (
+            <div className="text-center py-10 opacity-50">
+              <Library className="w-10 h-10 mx-auto mb-3 text-slate-600" />
+              <p className="text-sm text-slate-500">{sessions.length === 0 ? "No saved analyses yet." : "No matches for this filter."}</p>
+            </div>
+          )}
+          {visible.map(session => (
+            <SessionRow
+              key={session.id}
+              session={session}
+              isActive={session.id === activeSessionId}
+              onOpen={() => onOpen(session)}
+              onChange={handleRenamed}
+              onDelete={() => handleDelete(session.id)}
+              onError={setError}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useRef, useState } from 'react';
+import { X, Flag, ArrowRight, ArrowLeft, BrainCircuit, Check, Users, FileUp } from 'lucide-react';
+import { MatchSetup, TeamSetup } from '../types';
+import { checkSetup, KIT_COLORS, SetupTeam } from '../utils/matchSetup';
+import { formatRoster, parseRoster } from '../utils/roster';
+import { formatTimestamp, parseTimestamp } from '../utils/validation';
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm text-white focus:ring-1 focus:ring-emerald-500 outline-none";
+
+const Label: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <span className="text-[10px] uppercase font-bold text-slate-500 tracking-wider block mb-1">{children}</span>
+);
+
+const TeamFields: React.FC<{ label: string; team: TeamSetup; onChange: (team: TeamSetup) => void }> = ({ label, team, onChange }) => (
+  <div className="space-y-2">
+    <label className="block">
+      <Label>{label}</Label>
+      <input
+        value={team.name}
+        onChange={(e) => onChange({ ...team, name: e.target.value })}
+        placeholder="Club name"
+        className={inputClass}
+      />
+    </label>
+    <div className="flex flex-wrap gap-1.5">
+      {KIT_COLORS.map(c => (
+        <button
+          key={c.hex}
+          type="button"
+          onClick={() => onChange({ ...team, color: c.hex })}
+          title={c.name}
+          className={`w-5 h-5 rounded-full border-2 ${team.color === c.hex ? 'border-emerald-400' : 'border-slate-700'}`}
+          style={{ backgroundColor: c.hex }}
+        />
+      ))}
+    </div>
+  </div>
+);
+
+// Squad list as editable text, with a CSV import that replaces it.
+const SquadField: React.FC<{ team: SetupTeam; label: string; text: string; onChange: (text: string) => void }> = ({ team, label, text, onChange }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const { players, skipped } = parseRoster(text, team);
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <Label>{label} squad</Label>
+        <button type="button" onClick={() => fileRef.current?.click()} className="text-[10px] text-slate-400 hover:text-emerald-400 flex items-center gap-1">
+          <FileUp className="w-3 h-3" /> CSV
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".csv,.txt,text/csv,text/plain"
+          className="hidden"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            if (file) onChange(await file.text());
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        rows={5}
+        placeholder={"10, Bukayo Saka, RW\n4, Ben White, RB"}
+        className={`${inputClass} font-mono text-xs resize-y`}
+      />
+      <p className="text-[10px] text-slate-500 font-mono mt-0.5">
+        {players.length} PLAYERS{skipped.length > 0 && <span className="text-amber-400"> · LINE {skipped.join(', ')} SKIPPED</span>}
+      </p>
+    </div>
+  );
+};
+
+// Team names, kits, squads and attacking direction entered before a run (or
+// edited afterwards, which re-keys events and player links to the new setup).
+export const MatchSetupForm: React.FC<{
+  initial: MatchSetup;
+  mode: 'analyze' | 'edit';
+  onSubmit: (setup: MatchSetup) => void;
+  onSkip?: () => void;
+  onClose: () => void;
+}> = ({ initial, mode, onSubmit, onSkip, onClose }) => {
+  const [setup, setSetup] = useState<MatchSetup>(initial);
+  const [squads, setSquads] = useState<Record<SetupTeam, string>>({
+    team_a: formatRoster(initial.team_a.roster),
+    team_b: formatRoster(initial.team_b.roster),
+  });
+  const [showSquads, setShowSquads] = useState(!!(initial.team_a.roster?.length || initial.team_b.roster?.length));
+  const [secondHalf, setSecondHalf] = useState(initial.second_half_start !== undefined ? formatTimestamp(initial.second_half_start) : '');
+  const problem = checkSetup(setup);
+  const secondHalfSeconds = secondHalf.trim() ? parseTimestamp(secondHalf) : undefined;
+  const a = setup.team_a.name.trim() || 'Team A';
+  const b = setup.team_b.name.trim() || 'Team B';
+
+  const team = (key: SetupTeam): TeamSetup => {
+    const { roster, ...rest } = setup[key];
+    const players = parseRoster(squads[key], key).players;
+    return { ...rest, name: rest.name.trim(), ...(players.length ? { roster: players } : {}) };
+  };
+
+  const submit = () => {
+    if (problem || secondHalfSeconds === null) return;
+    onSubmit({
+      team_a: team('team_a'),
+      team_b: team('team_b'),
+      team_a_first_half: setup.team_a_first_half,
+      ...(secondHalfSeconds !== undefined ? { second_half_start: secondHalfSeconds } : {}),
+      ...(setup.competition?.trim() ? { competition: setup.competition.trim() } : {}),
+      ...(setup.date ? { date: setup.date } : {}),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-[#0f1422] border border-slate-800 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 h-14 border-b border-slate-800 flex items-center justify-between">
+          <h2 className="font-bold text-white flex items-center gap-2">
+            <Flag className="w-4 h-4 text-emerald-500" /> Match Setup
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded text-slate-500 hover:text-white hover:bg-slate-800">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-5 max-h-[calc(100vh-8rem)] overflow-y-auto custom-scrollbar">
+          <div className="grid grid-cols-2 gap-4">
+            <TeamFields label="Team A" team={setup.team_a} onChange={(team_a) => setSetup({ ...setup, team_a })} />
+            <TeamFields label="Team B" team={setup.team_b} onChange={(team_b) => setSetup({ ...setup, team_b })} />
+          </div>
+
+          <div>
+            <Label>First half direction (as filmed)</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {(['right', 'left'] as const).map(side => (
+                <button
+                  key={side}
+                  type="button"
+                  onClick={() => setSetup({ ...setup, team_a_first_half: side })}
+                  className={`text-xs py-2 px-3 rounded border flex items-center justify-center gap-1.5 truncate ${setup.team_a_first_half === side ? 'border-emerald-500/60 bg-emerald-500/10 text-emerald-400' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+                >
+                  {side === 'left' && <ArrowLeft className="w-3.5 h-3.5 shrink-0" />}
+                  <span className="truncate">{a} attacks {side}</span>
+                  {side === 'right' && <ArrowRight className="w-3.5 h-3.5 shrink-0" />}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-500 mt-1">{b} attacks the other way; the teams swap ends after half time.</p>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block">
+              <Label>2nd half at</Label>
+              <input
+                value={secondHalf}
+                onChange={(e) => setSecondHalf(e.target.value)}
+                placeholder="MM:SS"
+                className={`${inputClass} font-mono ${secondHalfSeconds === null ? 'border-red-500/60' : ''}`}
+              />
+            </label>
+            <label className="block">
+              <Label>Competition</Label>
+              <input
+                value={setup.competition ?? ''}
+                onChange={(e) => setSetup({ ...setup, competition: e.target.value })}
+                placeholder="League, cup..."
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <Label>Date</Label>
+              <input
+                type="date"
+                value={setup.date ?? ''}
+                onChange={(e) => setSetup({ ...setup, date: e.target.value })}
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+          </div>
+
+          {showSquads ? (
+            <div className="grid grid-cols-2 gap-4">
+              <SquadField team="team_a" label={a} text={squads.team_a} onChange={(text) => setSquads({ ...squads, team_a: text })} />
+              <SquadField team="team_b" label={b} text={squads.team_b} onChange={(text) => setSquads({ ...squads, team_b: text })} />
+            </div>
+          ) : (
+            <button type="button" onClick={() => setShowSquads(true)} className="text-xs text-slate-400 hover:text-emerald-400 flex items-center gap-1.5">
+              <Users className="w-3.5 h-3.5" /> Add squad lists (shirt numbers, names, positions)
+            </button>
+          )}
+
+          {problem && <p className="text-xs text-amber-400">{problem}</p>}
+
+          <div className="flex items-center justify-end gap-2">
+            {onSkip && (
+              <button onClick={onSkip} className="text-xs text-slate-400 hover:text-white px-3 py-2">
+                Skip setup
+              </button>
+            )}
+            <button
+              onClick={submit}
+              disabled={!!problem || secondHalfSeconds === null}
+              className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-white text-xs font-bold flex items-center gap-2 disabled:bg-slate-800 disabled:text-slate-500"
+            >
+              {mode === 'analyze' ? <><BrainCircuit className="w-4 h-4" /> START ANALYSIS</> : <><Check className="w-4 h-4" /> APPLY</>}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
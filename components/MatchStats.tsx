@@ -0,0 +1,257 @@
+import React from 'react';
+import { BarChart2 } from 'lucide-react';
+import { AnalysisData, EventType, EVENT_TYPES } from '../types';
+import {
+  countByTypeAndTeam, EventFilter, matchPeriods, matchesFilter, momentum, OTHER_TEAM, playerStats, statTeams, teamKey, TeamSummary, teamSummaries,
+} from '../utils/matchStats';
+import { DEFAULT_TEAM_COLORS, teamColors } from '../utils/matchSetup';
+import { getEventColor } from '../utils/eventColors';
+import { formatTimestamp } from '../utils/validation';
+
+const OTHER_COLOR = '#475569'; // slate-600
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{children}</h4>
+);
+
+// Stats tab: aggregates over events and player actions. Every bar, cell and
+// momentum bin narrows the timeline (or player list) to what it counts.
+export const MatchStats: React.FC<{
+  analysis: AnalysisData;
+  duration: number;
+  currentVideoTime: number;
+  onFilterEvents: (filter: EventFilter) => void;
+  onFilterPlayer: (name: string) => void;
+}> = ({ analysis, duration, currentVideoTime, onFilterEvents, onFilterPlayer }) => {
+  const teams = statTeams(analysis);
+  const kit = analysis.setup ? teamColors(analysis.setup) : DEFAULT_TEAM_COLORS;
+  const colorOf = (team: string) => team === teams[0] ? kit.A : team === teams[1] ? kit.B : OTHER_COLOR;
+  const events = analysis.events;
+  const counts = countByTypeAndTeam(events, teams);
+  const summaries = teamSummaries(events, teams);
+  const periods = matchPeriods(analysis, duration);
+  const bins = momentum(events, teams, duration);
+  const players = playerStats(analysis);
+  const total = bins.length ? bins[bins.length - 1].end : 1;
+  const columns = [...teams, ...(events.some(e => !teams.includes(e.team)) ? [OTHER_TEAM] : [])];
+  const maxTypeCount = Math.max(1, ...EVENT_TYPES.map(type => Object.values(counts[type]).reduce((sum, n) => sum + n, 0)));
+
+  const filter = (f: EventFilter) => {
+    if (events.some(e => matchesFilter(e, f, teams))) onFilterEvents(f);
+  };
+  const range = (start: number, end: number) => `${formatTimestamp(start)}–${formatTimestamp(end)}`;
+
+  if (events.length === 0 && players.length === 0) {
+    return (
+      <div className="text-center py-10 opacity-50">
+        <BarChart2 className="w-10 h-10 mx-auto mb-3 text-slate-600" />
+        <p className="text-sm text-slate-500">No events or player actions to count yet.</p>
+      </div>
+    );
+  }
+
+  const summaryRows: { label: string; types: EventType[]; value: (s: TeamSummary) => React.ReactNode }[] = [
+    { label: 'Shots (goals)', types: ['Shot', 'Goal'], value: s => <>{s.shots} <span className="text-slate-500">({s.goals})</span></> },
+    { label: 'Defensive actions', types: ['Defense'], value: s => s.defensive },
+    { label: 'Transitions', types: ['Transition'], value: s => s.transitions },
+    { label: 'Mistakes', types: ['Mistake'], value: s => s.mistakes },
+  ];
+
+  return (
+    <div className="p-5 space-y-6">
+      {teams.length > 0 && (
+        <div>
+          <SectionTitle>Summary</SectionTitle>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase text-slate-500">
+                <th className="text-left font-semibold pb-1" />
+                {summaries.map(s => (
+                  <th key={s.team} className="text-right font-semibold pb-1 pl-2 max-w-[6rem] truncate">
+                    <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: colorOf(s.team) }} />
+                    {s.team}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {summaryRows.map(row => (
+                <tr key={row.label} className="border-t border-slate-800/60">
+                  <td className="py-1.5 text-slate-400">{row.label}</td>
+                  {summaries.map(s => (
+                    <td key={s.team} className="py-1.5 text-right pl-2">
+                      <button
+                        onClick={() => filter({ label: `${s.team} · ${row.label}`, types: row.types, team: s.team })}
+                        className="font-mono text-white hover:text-emerald-400"
+                      >
+                        {row.value(s)}
+                      </button>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {events.length > 0 && (
+        <div>
+          <SectionTitle>Events by type</SectionTitle>
+          <div className="space-y-1.5">
+            {EVENT_TYPES.map(type => {
+              const typeTotal = columns.reduce((sum, team) => sum + (counts[type][team] || 0), 0);
+              return (
+                <div key={type} className="flex items-center gap-2 text-[10px]">
+                  <button
+                    onClick={() => filter({ label: type, types: [type] })}
+                    className="w-20 shrink-0 text-left uppercase font-semibold text-slate-400 hover:text-white flex items-center gap-1.5"
+                  >
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: getEventColor(type) }} />
+                    {type}
+                  </button>
+                  <div className="flex-1 h-4 flex">
+                    {columns.map(team => {
+                      const n = counts[type][team] || 0;
+                      return n > 0 && (
+                        <button
+                          key={team}
+                          onClick={() => filter({ label: `${team} · ${type}`, types: [type], team })}
+                          title={`${team}: ${n} ${type}`}
+                          className="h-full first:rounded-l last:rounded-r hover:brightness-125 border-r border-[#0f1422] last:border-r-0"
+                          style={{ width: `${(n / maxTypeCount) * 100}%`, backgroundColor: colorOf(team) }}
+                        />
+                      );
+                    })}
+                  </div>
+                  <span className="w-6 text-right font-mono text-slate-500">{typeTotal}</span>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex flex-wrap gap-3 mt-2 text-[10px] text-slate-500">
+            {columns.map(team => (
+              <span key={team} className="flex items-center gap-1">
+                <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: colorOf(team) }} /> {team}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {teams.length === 2 && events.length > 0 && (
+        <div>
+          <div className="flex justify-between items-end mb-2">
+            <SectionTitle>Momentum</SectionTitle>
+            <span className="text-[10px] font-mono text-slate-600 mb-2">
+              <span style={{ color: kit.A }}>▲ {teams[0]}</span> · <span style={{ color: kit.B }}>▼ {teams[1]}</span>
+            </span>
+          </div>
+          <svg viewBox={`0 0 ${bins.length} 40`} preserveAspectRatio="none" className="w-full h-24 bg-slate-900 rounded border border-slate-800/50">
+            <line x1={0} y1={20} x2={bins.length} y2={20} stroke="#1e293b" strokeWidth={0.3} />
+            {bins.map((bin, i) => {
+              const height = Math.abs(bin.value) * 18;
+              // The whole column is the click target so quiet spells stay clickable
+              return (
+                <g
+                  key={i}
+                  className="cursor-pointer hover:opacity-70"
+                  onClick={() => filter({ label: `Momentum ${range(bin.start, bin.end)}`, start: bin.start, end: bin.end })}
+                >
+                  <title>{range(bin.start, bin.end)}</title>
+                  <rect x={i} width={1} y={0} height={40} fill="transparent" />
+                  <rect
+                    x={i + 0.1}
+                    width={0.8}
+                    y={bin.value >= 0 ? 20 - height : 20}
+                    height={Math.max(height, 0.3)}
+                    fill={bin.value >= 0 ? kit.A : kit.B}
+                  />
+                </g>
+              );
+            })}
+            {periods.slice(1).map(p => (
+              <line key={p.start} x1={(p.start / total) * bins.length} y1={0} x2={(p.start / total) * bins.length} y2={40} stroke="#334155" strokeWidth={0.15} strokeDasharray="1 1" pointerEvents="none" />
+            ))}
+            <line
+              x1={(currentVideoTime / total) * bins.length} y1={0}
+              x2={(currentVideoTime / total) * bins.length} y2={40}
+              stroke="white" strokeWidth={0.2} pointerEvents="none"
+            />
+          </svg>
+        </div>
+      )}
+
+      {events.length > 0 && (
+        <div>
+          <SectionTitle>By period</SectionTitle>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase text-slate-500">
+                <th className="text-left font-semibold pb-1">Period</th>
+                {columns.map(team => <th key={team} className="text-right font-semibold pb-1 pl-2 max-w-[6rem] truncate">{team}</th>)}
+                <th className="text-right font-semibold pb-1 pl-2">Shots</th>
+              </tr>
+            </thead>
+            <tbody>
+              {periods.map(p => {
+                const inPeriod = events.filter(e => e.seconds >= p.start && e.seconds < p.end);
+                const shots = inPeriod.filter(e => e.type === 'Shot' || e.type === 'Goal').length;
+                return (
+                  <tr key={p.start} className="border-t border-slate-800/60">
+                    <td className="py-1.5">
+                      <button onClick={() => filter({ label: p.label, start: p.start, end: p.end })} className="text-slate-400 hover:text-white">
+                        {p.label}
+                      </button>
+                    </td>
+                    {columns.map(team => (
+                      <td key={team} className="py-1.5 text-right pl-2">
+                        <button
+                          onClick={() => filter({ label: `${team} · ${p.label}`, team, start: p.start, end: p.end })}
+                          className="font-mono text-white hover:text-emerald-400"
+                        >
+                          {inPeriod.filter(e => teamKey(e.team, teams) === team).length}
+                        </button>
+                      </td>
+                    ))}
+                    <td className="py-1.5 text-right pl-2">
+                      <button
+                        onClick={() => filter({ label: `Shots · ${p.label}`, types: ['Shot', 'Goal'], start: p.start, end: p.end })}
+                        className="font-mono text-white hover:text-emerald-400"
+                      >
+                        {shots}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {players.length > 0 && (
+        <div>
+          <SectionTitle>Player involvement</SectionTitle>
+          <div className="space-y-1">
+            {players.slice(0, 10).map(p => (
+              <button
+                key={p.name}
+                onClick={() => onFilterPlayer(p.name)}
+                className="w-full flex items-center gap-2 text-[11px] text-left hover:bg-slate-800/60 rounded px-1 py-0.5"
+              >
+                <span className="w-28 shrink-0 truncate text-slate-300">{p.name}</span>
+                <span className="flex-1 h-2 bg-slate-900 rounded overflow-hidden">
+                  <span className="block h-full bg-emerald-600" style={{ width: `${(p.actions / players[0].actions) * 100}%` }} />
+                </span>
+                <span className="w-14 text-right font-mono text-slate-500">
+                  {p.actions}{p.highImpact > 0 && <span className="text-emerald-400"> ★{p.highImpact}</span>}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
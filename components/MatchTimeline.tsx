@@ -0,0 +1,326 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize2, Scan, Loader2 } from 'lucide-react';
+import { AnalysisData, EventType, EVENT_TYPES, VideoEvent } from '../types';
+import { OTHER_TEAM, statTeams, teamKey } from '../utils/matchStats';
+import { DEFAULT_TEAM_COLORS, teamColors } from '../utils/matchSetup';
+import { getEventColor } from '../utils/eventColors';
+import { SpriteSheet, spriteTile } from '../utils/frameCapture';
+import { formatTimestamp } from '../utils/validation';
+
+const MIN_SPAN_SEC = 10;
+const ZOOM_STEP = 1.6;
+const TICK_STEPS = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800];
+const THUMB_WIDTH = 160;
+
+interface View { start: number; end: number }
+export interface TimeRange { start: number; end: number }
+
+const clampView = (start: number, span: number, total: number): View => {
+  const s = Math.min(Math.max(0, start), Math.max(0, total - span));
+  return { start: s, end: s + span };
+};
+
+// Scales the view by `factor` keeping `anchor` (seconds) under the cursor.
+const zoomView = (view: View, factor: number, anchor: number, total: number): View => {
+  const span = view.end - view.start;
+  const next = Math.min(total, Math.max(Math.min(MIN_SPAN_SEC, total), span * factor));
+  return clampView(anchor - (anchor - view.start) * (next / span), next, total);
+};
+
+const tickStep = (span: number) => TICK_STEPS.find(step => span / step <= 8) ?? 3600;
+
+interface Lane { key: string; label: string; color?: string; matches: (e: VideoEvent) => boolean }
+
+interface Hover { event: VideoEvent; left: number }
+
+// Match Rhythm: events on lanes (per team or per type) with zoom, pan, lane
+// toggles, range selection on the ruler and thumbnail previews on hover.
+export const MatchTimeline: React.FC<{
+  analysis: AnalysisData;
+  duration: number;
+  currentVideoTime: number;
+  sprites: SpriteSheet | null;
+  spriteProgress: number | null;
+  isHighlighted: (event: VideoEvent) => boolean;
+  selection: TimeRange | null;
+  onSelectRange: (range: TimeRange) => void;
+  onSeek: (seconds: number) => void;
+}> = ({ analysis, duration, currentVideoTime, sprites, spriteProgress, isHighlighted, selection, onSelectRange, onSeek }) => {
+  const events = analysis.events;
+  const total = Math.max(duration, ...events.map(e => e.seconds + 1), 1);
+  const [view, setView] = useState<View>({ start: 0, end: total });
+  const [laneMode, setLaneMode] = useState<'team' | 'type'>('team');
+  const [hiddenTypes, setHiddenTypes] = useState<EventType[]>([]);
+  const [hiddenTeams, setHiddenTeams] = useState<string[]>([]);
+  const [hover, setHover] = useState<Hover | null>(null);
+  const [draftRange, setDraftRange] = useState<TimeRange | null>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: 'pan' | 'select'; x: number; view: View; anchor: number } | null>(null);
+
+  // A newly loaded video (or longer coding) resets the zoom
+  useEffect(() => setView({ start: 0, end: total }), [total]);
+
+  const span = view.end - view.start;
+  const zoomed = span < total - 0.5;
+  const pct = (seconds: number) => ((seconds - view.start) / span) * 100;
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    return view.start + ((clientX - rect.left) / rect.width) * span;
+  };
+
+  // Ctrl/Cmd+wheel (and trackpad pinch) zooms at the cursor; Shift+wheel pans.
+  // Registered natively so the panel doesn't scroll at the same time.
+  useEffect(() => {
+    const el = trackRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault();
+        const anchor = timeAt(e.clientX);
+        setView(v => zoomView(v, e.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP, anchor, total));
+      } else if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+        e.preventDefault();
+        const delta = ((e.shiftKey ? e.deltaY : e.deltaX) / el.clientWidth) * span;
+        setView(v => clampView(v.start + delta, v.end - v.start, total));
+      }
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  });
+
+  const teams = statTeams(analysis);
+  const kit = analysis.setup ? teamColors(analysis.setup) : DEFAULT_TEAM_COLORS;
+  const teamKeys = [...teams, ...(events.some(e => !teams.includes(e.team)) ? [OTHER_TEAM] : [])];
+  const teamColor = (team: string) => team === teams[0] ? kit.A : team === teams[1] ? kit.B : undefined;
+  const presentTypes = EVENT_TYPES.filter(type => events.some(e => e.type === type));
+  const visible = (e: VideoEvent) => !hiddenTypes.includes(e.type) && !hiddenTeams.includes(teamKey(e.team, teams));
+
+  const lanes: Lane[] = laneMode === 'team'
+    ? (teamKeys.length ? teamKeys : ['Events']).filter(t => !hiddenTeams.includes(t)).map(team => ({
+        key: team, label: team, color: teamColor(team), matches: e => !teamKeys.length || teamKey(e.team, teams) === team,
+      }))
+    : presentTypes.filter(t => !hiddenTypes.includes(t)).map(type => ({
+        key: type, label: type, color: getEventColor(type), matches: e => e.type === type,
+      }));
+
+  const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(x => x !== item) : [...list, item];
+
+  const onPointerDown = (mode: 'pan' | 'select') => (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, x: e.clientX, view, anchor: timeAt(e.clientX) };
+    setHover(null);
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.mode === 'pan') {
+      const width = trackRef.current!.clientWidth || 1;
+      const delta = ((drag.x - e.clientX) / width) * (drag.view.end - drag.view.start);
+      setView(clampView(drag.view.start + delta, drag.view.end - drag.view.start, total));
+    } else {
+      const t = Math.min(total, Math.max(0, timeAt(e.clientX)));
+      setDraftRange({ start: Math.min(drag.anchor, t), end: Math.max(drag.anchor, t) });
+    }
+  };
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+    const moved = Math.abs(e.clientX - drag.x) > 4;
+    if (drag.mode === 'select') {
+      // A click on the ruler seeks; a drag selects
+      if (moved && draftRange && draftRange.end - draftRange.start >= 1) onSelectRange(draftRange);
+      else if (!moved) onSeek(Math.max(0, drag.anchor));
+      setDraftRange(null);
+    } else if (!moved) {
+      onSeek(Math.min(total, Math.max(0, drag.anchor)));
+    }
+  };
+
+  const shownRange = draftRange ?? selection;
+  const step = tickStep(span);
+  const ticks: number[] = [];
+  for (let t = Math.ceil(view.start / step) * step; t <= view.end; t += step) ticks.push(t);
+
+  const button = "p-1 rounded text-slate-500 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent";
+  const chip = (on: boolean) => `px-1.5 py-0.5 rounded border flex items-center gap-1 transition-colors ${on ? 'border-slate-700 text-slate-300' : 'border-slate-800 text-slate-600 line-through'}`;
+
+  return (
+    <div className="relative select-none">
+      <div className="flex justify-between items-center mb-2 gap-2">
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-3">
+          Match Rhythm
+          <span className="flex items-center gap-2 text-[9px] font-mono font-normal text-slate-600 normal-case">
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-slate-500" /> AI</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-[1px] rotate-45 bg-slate-500 border border-white/80" /> Manual</span>
+          </span>
+        </h4>
+        <div className="flex items-center gap-1 text-[10px] font-mono">
+          <div className="flex rounded border border-slate-800 overflow-hidden mr-1">
+            {(['team', 'type'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setLaneMode(mode)}
+                className={`px-1.5 py-0.5 uppercase ${laneMode === mode ? 'bg-slate-800 text-emerald-400' : 'text-slate-500 hover:text-white'}`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+          <button onClick={() => setView(v => zoomView(v, 1 / ZOOM_STEP, (v.start + v.end) / 2, total))} disabled={span <= MIN_SPAN_SEC} title="Zoom in (Ctrl+wheel)" className={button}>
+            <ZoomIn className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => setView(v => zoomView(v, ZOOM_STEP, (v.start + v.end) / 2, total))} disabled={!zoomed} title="Zoom out" className={button}>
+            <ZoomOut className="w-3.5 h-3.5" />
+          </button>
+          {selection && (
+            <button onClick={() => setView(clampView(selection.start, Math.max(MIN_SPAN_SEC, selection.end - selection.start), total))} title="Zoom to selection" className={button}>
+              <Scan className="w-3.5 h-3.5" />
+            </button>
+          )}
+          <button onClick={() => setView({ start: 0, end: total })} disabled={!zoomed} title="Show whole match" className={button}>
+            <Maximize2 className="w-3.5 h-3.5" />
+          </button>
+          <span className="text-slate-600 ml-1">{formatTimestamp(view.start)}–{formatTimestamp(view.end)}</span>
+        </div>
+      </div>
+
+      {/* Filter toggles */}
+      <div className="flex flex-wrap gap-1 mb-2 text-[9px] font-mono uppercase">
+        {presentTypes.map(type => (
+          <button key={type} onClick={() => setHiddenTypes(toggle(hiddenTypes, type))} className={chip(!hiddenTypes.includes(type))}>
+            <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: getEventColor(type) }} /> {type}
+          </button>
+        ))}
+        {teamKeys.length > 1 && <span className="w-px bg-slate-800 mx-1" />}
+        {teamKeys.length > 1 && teamKeys.map(team => (
+          <button key={team} onClick={() => setHiddenTeams(toggle(hiddenTeams, team))} className={chip(!hiddenTeams.includes(team))}>
+            <span className="w-1.5 h-1.5 rounded-sm" style={{ backgroundColor: teamColor(team) ?? '#475569' }} /> <span className="max-w-[6rem] truncate">{team}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex bg-slate-900 rounded border border-slate-800/50">
+        {/* Lane labels */}
+        <div className="w-16 shrink-0 border-r border-slate-800/60 text-[9px] font-mono uppercase text-slate-500">
+          <div className="h-5" />
+          {lanes.map(lane => (
+            <div key={lane.key} className="h-6 px-1.5 flex items-center gap-1 border-t border-slate-800/40" title={lane.label}>
+              {lane.color && <span className="w-1.5 h-1.5 rounded-full shrink-0" style={{ backgroundColor: lane.color }} />}
+              <span className="truncate">{lane.label}</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Tracks */}
+        <div ref={trackRef} className="flex-1 relative overflow-hidden" onPointerMove={onPointerMove} onPointerUp={onPointerUp} onPointerCancel={() => { dragRef.current = null; setDraftRange(null); }}>
+          {/* Ruler: click to seek, drag to select a range */}
+          <div className="h-5 relative cursor-text bg-slate-950/40" onPointerDown={onPointerDown('select')} title="Drag to select a range">
+            {ticks.map(t => (
+              <div key={t} className="absolute top-0 bottom-0 border-l border-slate-700/60 pl-0.5 text-[8px] font-mono text-slate-500 pointer-events-none" style={{ left: `${pct(t)}%` }}>
+                {formatTimestamp(t)}
+              </div>
+            ))}
+          </div>
+
+          <div className={zoomed ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'} onPointerDown={onPointerDown('pan')}>
+            {lanes.map(lane => {
+              const laneEvents = events.filter(e => visible(e) && lane.matches(e));
+              return (
+                <div key={lane.key} className="h-6 relative border-t border-slate-800/40">
+                  <div className="absolute left-0 right-0 top-1/2 h-px bg-slate-800" />
+                  {/* Coded windows of hand-tagged events */}
+                  {laneEvents.map((evt, i) => evt.window_start !== undefined && evt.window_end !== undefined && (
+                    <div
+                      key={`w${i}`}
+                      className="absolute top-1/2 h-1.5 -translate-y-1/2 rounded-full opacity-40 pointer-events-none"
+                      style={{ left: `${pct(evt.window_start)}%`, width: `${((evt.window_end - evt.window_start) / span) * 100}%`, backgroundColor: getEventColor(evt.type) }}
+                    />
+                  ))}
+                  {laneEvents.map((evt, i) => {
+                    if (evt.seconds < view.start || evt.seconds > view.end) return null;
+                    const isManual = evt.provenance === 'manual';
+                    return (
+                      <div
+                        key={i}
+                        onPointerDown={(e) => e.stopPropagation()}
+                        onClick={() => onSeek(evt.seconds)}
+                        onMouseEnter={() => setHover({ event: evt, left: pct(evt.seconds) })}
+                        onMouseLeave={() => setHover(null)}
+                        className={`absolute top-1/2 w-3 h-3 border-2 cursor-pointer hover:scale-150 transition-transform z-10 ${isManual ? 'rounded-[2px] border-white/80' : 'rounded-full border-[#0f1422]'} ${isHighlighted(evt) ? '' : 'opacity-20'}`}
+                        style={{
+                          left: `${pct(evt.seconds)}%`,
+                          backgroundColor: getEventColor(evt.type),
+                          transform: isManual ? 'translate(-50%, -50%) rotate(45deg)' : 'translate(-50%, -50%)',
+                        }}
+                      />
+                    );
+                  })}
+                </div>
+              );
+            })}
+            {lanes.length === 0 && <div className="h-6 border-t border-slate-800/40 text-[9px] font-mono text-slate-600 px-2 flex items-center">ALL LANES HIDDEN</div>}
+          </div>
+
+          {shownRange && (
+            <div
+              className="absolute top-0 bottom-0 bg-emerald-500/10 border-x border-emerald-500/50 pointer-events-none"
+              style={{ left: `${pct(shownRange.start)}%`, width: `${((shownRange.end - shownRange.start) / span) * 100}%` }}
+            />
+          )}
+          <div className="absolute top-0 bottom-0 w-0.5 bg-white z-20 pointer-events-none" style={{ left: `${pct(currentVideoTime)}%` }} />
+        </div>
+      </div>
+
+      {/* Where the zoomed view sits in the match */}
+      {zoomed && (
+        <div
+          className="relative h-1.5 mt-1 ml-16 bg-slate-900 rounded cursor-pointer"
+          onClick={(e) => {
+            const rect = e.currentTarget.getBoundingClientRect();
+            setView(clampView(((e.clientX - rect.left) / rect.width) * total - span / 2, span, total));
+          }}
+        >
+          <div className="absolute top-0 bottom-0 bg-slate-600 rounded" style={{ left: `${(view.start / total) * 100}%`, width: `${(span / total) * 100}%` }} />
+        </div>
+      )}
+
+      {hover && (
+        <div
+          className="absolute z-30 pointer-events-none bg-slate-950 border border-slate-700 rounded-lg shadow-2xl p-2 text-[10px]"
+          style={{ top: '100%', marginTop: 4, width: THUMB_WIDTH + 16, left: `clamp(0px, calc(4rem + (100% - 4rem) * ${hover.left / 100} - ${(THUMB_WIDTH + 16) / 2}px), calc(100% - ${THUMB_WIDTH + 16}px))` }}
+        >
+          {sprites ? (
+            <div
+              className="rounded mb-1.5 bg-slate-900"
+              style={(() => {
+                const tile = spriteTile(sprites, hover.event.seconds);
+                const scale = THUMB_WIDTH / sprites.tileWidth;
+                return {
+                  width: THUMB_WIDTH,
+                  height: sprites.tileHeight * scale,
+                  backgroundImage: `url(${sprites.url})`,
+                  backgroundPosition: `-${tile.x * scale}px -${tile.y * scale}px`,
+                  backgroundSize: `${Math.min(sprites.columns, sprites.count) * sprites.tileWidth * scale}px auto`,
+                };
+              })()}
+            />
+          ) : spriteProgress !== null && (
+            <div className="rounded mb-1.5 bg-slate-900 flex items-center justify-center gap-1.5 text-slate-500 font-mono" style={{ width: THUMB_WIDTH, height: THUMB_WIDTH * 9 / 16 }}>
+              <Loader2 className="w-3 h-3 animate-spin" /> {Math.round(spriteProgress * 100)}%
+            </div>
+          )}
+          <div className="flex items-center justify-between gap-2 mb-0.5">
+            <span className="font-bold uppercase" style={{ color: getEventColor(hover.event.type) }}>{hover.event.type}</span>
+            <span className="font-mono text-slate-500">{hover.event.timestamp || formatTimestamp(hover.event.seconds)}</span>
+          </div>
+          <div className="text-slate-500 truncate mb-0.5">{hover.event.team}</div>
+          <p className="text-slate-300 leading-snug line-clamp-3">{hover.event.description}</p>
+        </div>
+      )}
+    </div>
+  );
+};
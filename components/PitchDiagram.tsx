@@ -0,0 +1,173 @@
+import React from 'react';
+import { Eye } from 'lucide-react';
+import { DiagramTeam, PitchDiagram as PitchDiagramData, PitchMovement } from '../types';
+import { DEFAULT_TEAM_COLORS } from '../utils/matchSetup';
+
+// Pitch drawn in metres (105 x 68) with Team A defending the left goal.
+// Everything is computed from the props alone, so the same data always
+// renders the same SVG (on screen, in the report and in exports).
+export const PITCH_LENGTH = 105;
+export const PITCH_WIDTH = 68;
+const MARGIN = 3;
+
+const LINE = 'rgba(255, 255, 255, 0.55)';
+const ACTOR_RADIUS = 2.4;
+
+// Normalized (0-1) pitch coordinates to SVG units
+export const toPitch = (x: number, y: number) => ({ x: x * PITCH_LENGTH, y: y * PITCH_WIDTH });
+
+const PenaltyBox: React.FC<{ mirrored?: boolean }> = ({ mirrored }) => {
+  const side = (x: number) => mirrored ? PITCH_LENGTH - x : x;
+  const boxTop = (PITCH_WIDTH - 40.32) / 2;
+  const sixTop = (PITCH_WIDTH - 18.32) / 2;
+  const goalTop = (PITCH_WIDTH - 7.32) / 2;
+  const arcX = side(16.5);
+  // The "D" is the part of the 9.15m circle round the spot outside the box
+  const arcDy = Math.sqrt(9.15 ** 2 - 5.5 ** 2);
+  return (
+    <g>
+      <rect x={mirrored ? PITCH_LENGTH - 16.5 : 0} y={boxTop} width={16.5} height={40.32} />
+      <rect x={mirrored ? PITCH_LENGTH - 5.5 : 0} y={sixTop} width={5.5} height={18.32} />
+      <rect x={mirrored ? PITCH_LENGTH : -1.5} y={goalTop} width={1.5} height={7.32} />
+      <circle cx={side(11)} cy={PITCH_WIDTH / 2} r={0.35} fill={LINE} />
+      <path d={`M ${arcX} ${PITCH_WIDTH / 2 - arcDy} A 9.15 9.15 0 0 ${mirrored ? 0 : 1} ${arcX} ${PITCH_WIDTH / 2 + arcDy}`} />
+    </g>
+  );
+};
+
+// Reusable pitch with markings; children are drawn in pitch units (use toPitch).
+export const Pitch: React.FC<{ children?: React.ReactNode; className?: string; title?: string }> = ({ children, className = '', title }) => (
+  <svg
+    viewBox={`${-MARGIN} ${-MARGIN} ${PITCH_LENGTH + MARGIN * 2} ${PITCH_WIDTH + MARGIN * 2}`}
+    className={`w-full h-auto block ${className}`}
+    role="img"
+    aria-label={title}
+  >
+    {title && <title>{title}</title>}
+    <rect x={-MARGIN} y={-MARGIN} width={PITCH_LENGTH + MARGIN * 2} height={PITCH_WIDTH + MARGIN * 2} fill="#14532d" />
+    {Array.from({ length: 10 }, (_, i) => (
+      <rect key={i} x={i * PITCH_LENGTH / 10} y={0} width={PITCH_LENGTH / 10} height={PITCH_WIDTH} fill={i % 2 ? '#166534' : '#15803d'} opacity={0.35} />
+    ))}
+    <g fill="none" stroke={LINE} strokeWidth={0.35}>
+      <rect x={0} y={0} width={PITCH_LENGTH} height={PITCH_WIDTH} />
+      <line x1={PITCH_LENGTH / 2} y1={0} x2={PITCH_LENGTH / 2} y2={PITCH_WIDTH} />
+      <circle cx={PITCH_LENGTH / 2} cy={PITCH_WIDTH / 2} r={9.15} />
+      <circle cx={PITCH_LENGTH / 2} cy={PITCH_WIDTH / 2} r={0.35} fill={LINE} />
+      <PenaltyBox />
+      <PenaltyBox mirrored />
+    </g>
+    {children}
+  </svg>
+);
+
+const arrowHead = (x: number, y: number, angle: number, size: number) => {
+  const left = angle + Math.PI * 0.85;
+  const right = angle - Math.PI * 0.85;
+  return `${x},${y} ${x + size * Math.cos(left)},${y + size * Math.sin(left)} ${x + size * Math.cos(right)},${y + size * Math.sin(right)}`;
+};
+
+// Sine wave along the segment for dribbles
+const wavyPath = (x1: number, y1: number, x2: number, y2: number) => {
+  const length = Math.hypot(x2 - x1, y2 - y1);
+  const steps = Math.max(8, Math.round(length * 2));
+  const nx = -(y2 - y1) / (length || 1);
+  const ny = (x2 - x1) / (length || 1);
+  const points = Array.from({ length: steps + 1 }, (_, i) => {
+    const t = i / steps;
+    // Taper the wave out at the end so the arrowhead lines up
+    const offset = Math.sin(t * length * 1.2) * 0.9 * Math.min(1, (1 - t) * 4);
+    return `${(x1 + (x2 - x1) * t + nx * offset).toFixed(2)},${(y1 + (y2 - y1) * t + ny * offset).toFixed(2)}`;
+  });
+  return `M ${points.join(' L ')}`;
+};
+
+const MOVEMENT_STYLES: Record<PitchMovement['kind'], { dash?: string; color: (team: string) => string }> = {
+  run: { dash: '1.6 1.2', color: team => team },
+  pass: { color: () => '#f8fafc' },
+  dribble: { color: team => team },
+};
+
+const Movement: React.FC<{ from: { x: number; y: number }; movement: PitchMovement; teamColor: string }> = ({ from, movement, teamColor }) => {
+  const to = toPitch(movement.to_x, movement.to_y);
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  if (length < ACTOR_RADIUS * 1.5) return null;
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  // Start at the marker's edge and stop short of the tip so the head stays sharp
+  const startX = from.x + Math.cos(angle) * ACTOR_RADIUS;
+  const startY = from.y + Math.sin(angle) * ACTOR_RADIUS;
+  const endX = to.x - Math.cos(angle) * 1.2;
+  const endY = to.y - Math.sin(angle) * 1.2;
+  const style = MOVEMENT_STYLES[movement.kind];
+  const color = style.color(teamColor);
+  return (
+    <g>
+      {movement.kind === 'dribble' ? (
+        <path d={wavyPath(startX, startY, endX, endY)} fill="none" stroke={color} strokeWidth={0.5} strokeLinecap="round" />
+      ) : (
+        <line x1={startX} y1={startY} x2={endX} y2={endY} stroke={color} strokeWidth={movement.kind === 'pass' ? 0.45 : 0.55} strokeDasharray={style.dash} strokeLinecap="round" />
+      )}
+      <polygon points={arrowHead(to.x, to.y, angle, 2)} fill={color} />
+    </g>
+  );
+};
+
+// Insight diagram: players, runs, passing lanes and the ball. Falls back to
+// the insight's visual cue text when the analysis has no coordinates.
+export const InsightDiagram: React.FC<{
+  diagram?: PitchDiagramData;
+  fallback?: string;
+  teamColors?: Record<DiagramTeam, string>;
+  className?: string;
+  light?: boolean;
+}> = ({ diagram, fallback, teamColors = DEFAULT_TEAM_COLORS, className = '', light }) => {
+  if (!diagram || diagram.actors.length === 0) {
+    return (
+      <div className={`aspect-[111/74] rounded border flex flex-col items-center justify-center gap-2 px-6 text-center ${light ? 'bg-slate-50 border-slate-300 text-slate-500' : 'bg-slate-950/50 border-slate-800 text-slate-500'} ${className}`}>
+        <Eye className="w-4 h-4 shrink-0" />
+        <p className="text-xs italic leading-relaxed">{fallback || 'No positional data for this moment.'}</p>
+      </div>
+    );
+  }
+
+  const positions = new Map<string, { x: number; y: number }>(diagram.actors.map(actor => [actor.id, toPitch(actor.x, actor.y)]));
+  const teamOf = new Map<string, DiagramTeam>(diagram.actors.map(actor => [actor.id, actor.team]));
+
+  return (
+    <div className={`rounded border overflow-hidden ${light ? 'border-slate-300' : 'border-slate-800'} ${className}`}>
+      <Pitch title={fallback}>
+        {/* Passes under runs under players, so markers stay readable */}
+        {[...diagram.movements]
+          .sort((a, b) => (a.kind === 'pass' ? 0 : 1) - (b.kind === 'pass' ? 0 : 1))
+          .map((movement, i) => {
+            const from = positions.get(movement.actor);
+            if (!from) return null;
+            return <Movement key={i} from={from} movement={movement} teamColor={teamColors[teamOf.get(movement.actor) ?? 'A']} />;
+          })}
+        {diagram.actors.map(actor => {
+          const { x, y } = positions.get(actor.id)!;
+          return (
+            <g key={actor.id}>
+              <circle cx={x} cy={y} r={ACTOR_RADIUS} fill={teamColors[actor.team]} stroke="#0f172a" strokeWidth={0.4} />
+              <text
+                x={x}
+                y={y}
+                textAnchor="middle"
+                dominantBaseline="central"
+                fontSize={actor.label.length > 2 ? 1.7 : 2.2}
+                fontWeight={700}
+                fontFamily="Inter, sans-serif"
+                fill="#ffffff"
+              >
+                {actor.label}
+              </text>
+            </g>
+          );
+        })}
+        {diagram.ball && (() => {
+          const ball = toPitch(diagram.ball.x, diagram.ball.y);
+          return <circle cx={ball.x} cy={ball.y} r={1} fill="#ffffff" stroke="#0f172a" strokeWidth={0.3} />;
+        })()}
+      </Pitch>
+    </div>
+  );
+};
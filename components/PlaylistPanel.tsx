@@ -0,0 +1,306 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ListVideo, X, Plus, Trash2, Pencil, Check, Presentation, ChevronUp, ChevronDown, GripVertical, Search,
+  Activity, BrainCircuit, Users
+} from 'lucide-react';
+import { AnalysisData, Playlist, PlaylistItem } from '../types';
+import { savePlaylist, removePlaylist } from '../utils/analysisEdits';
+import { moveItem, playlistItem, playlistSeconds } from '../utils/playlists';
+import { indexAnalysis, searchDocs, SEARCH_LISTS } from '../utils/search';
+import { formatTimestamp } from '../utils/validation';
+
+const MAX_PICKS = 40;
+
+const SOURCE_ICONS: Record<PlaylistItem['source'], React.ReactNode> = {
+  events: <Activity className="w-3.5 h-3.5 text-blue-400 shrink-0" />,
+  tactical_insights: <BrainCircuit className="w-3.5 h-3.5 text-purple-400 shrink-0" />,
+  player_analysis: <Users className="w-3.5 h-3.5 text-emerald-400 shrink-0" />,
+};
+
+// --- Sub-Component: Playlist Item ---
+const ItemRow: React.FC<{
+  item: PlaylistItem;
+  index: number;
+  count: number;
+  dragging: boolean;
+  onPreview: () => void;
+  onMove: (to: number) => void;
+  onNote: (note: string) => void;
+  onRemove: () => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onDrop: () => void;
+}> = ({ item, index, count, dragging, onPreview, onMove, onNote, onRemove, onDragStart, onDragEnd, onDrop }) => {
+  // Committed on blur so a talking point is one undo step, not one per key
+  const [note, setNote] = useState(item.note || "");
+  useEffect(() => setNote(item.note || ""), [item.note]);
+
+  return (
+    <div
+      draggable
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => { e.preventDefault(); onDrop(); }}
+      className={`p-3 rounded-lg border bg-slate-900/40 border-slate-800 hover:border-slate-700 transition-opacity ${dragging ? 'opacity-40' : ''}`}
+    >
+      <div className="flex items-center gap-2">
+        <GripVertical className="w-3.5 h-3.5 text-slate-600 cursor-grab shrink-0" />
+        <span className="text-[10px] font-mono text-slate-600 w-4 shrink-0">{index + 1}</span>
+        {SOURCE_ICONS[item.source]}
+        <button onClick={onPreview} title="Play clip" className="text-xs font-bold text-slate-200 hover:text-emerald-400 truncate flex-1 text-left">
+          {item.title}
+        </button>
+        <span className="text-[10px] font-mono text-slate-500 shrink-0">
+          {formatTimestamp(item.start)}–{formatTimestamp(item.end)}
+        </span>
+        <div className="flex items-center shrink-0">
+          <button onClick={() => onMove(index - 1)} disabled={index === 0} title="Move up" className="p-0.5 rounded text-slate-500 hover:text-white disabled:opacity-20">
+            <ChevronUp className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => onMove(index + 1)} disabled={index === count - 1} title="Move down" className="p-0.5 rounded text-slate-500 hover:text-white disabled:opacity-20">
+            <ChevronDown className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={onRemove} title="Remove" className="p-0.5 rounded text-slate-500 hover:text-red-400">
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        onBlur={() => { if (note.trim() !== (item.note || "")) onNote(note.trim()); }}
+        rows={note ? 2 : 1}
+        placeholder="Talking point..."
+        className="mt-2 w-full bg-slate-950 border border-slate-800 rounded px-2 py-1 text-[11px] text-slate-300 placeholder-slate-600 focus:ring-1 focus:ring-emerald-500 outline-none resize-none"
+      />
+    </div>
+  );
+};
+
+// Named playlists of moments for a team meeting. Every change goes through
+// `onEdit` so it is undoable and saved with the analysis.
+export const PlaylistPanel: React.FC<{
+  analysis: AnalysisData;
+  duration: number;
+  onEdit: (label: string, update: (analysis: AnalysisData) => AnalysisData) => void;
+  onPreview: (item: PlaylistItem) => void;
+  onPresent: (playlist: Playlist) => void;
+  onClose: () => void;
+}> = ({ analysis, duration, onEdit, onPreview, onPresent, onClose }) => {
+  const playlists = analysis.playlists || [];
+  const [selectedId, setSelectedId] = useState<string | null>(playlists[0]?.id ?? null);
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [picking, setPicking] = useState(false);
+  const [query, setQuery] = useState("");
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+
+  const playlist = playlists.find(p => p.id === selectedId) ?? null;
+  const docs = useMemo(() => indexAnalysis(analysis), [analysis]);
+  const picks = picking ? searchDocs(docs, query).filter(h => h.doc.seconds !== null) : [];
+
+  const select = (id: string | null) => {
+    setSelectedId(id);
+    setRenaming(null);
+    setConfirmDelete(false);
+  };
+
+  const create = () => {
+    const playlist: Playlist = { id: crypto.randomUUID(), name: newName.trim() || `Playlist ${playlists.length + 1}`, items: [] };
+    onEdit('create playlist', a => savePlaylist(a, playlist));
+    setNewName("");
+    select(playlist.id);
+    setPicking(true);
+  };
+
+  const update = (label: string, patch: Partial<Playlist>) => {
+    if (playlist) onEdit(label, a => savePlaylist(a, { ...playlist, ...patch }));
+  };
+  const setItems = (label: string, items: PlaylistItem[]) => update(label, { items });
+
+  const rename = () => {
+    if (playlist && renaming !== null) update('rename playlist', { name: renaming.trim() || playlist.name });
+    setRenaming(null);
+  };
+
+  const add = (source: PlaylistItem['source'], index: number) => {
+    const item = playlistItem(analysis, source, index, duration || undefined);
+    if (playlist && item) setItems('add to playlist', [...playlist.items, item]);
+  };
+
+  const remove = () => {
+    if (!playlist) return;
+    onEdit('delete playlist', a => removePlaylist(a, playlist.id));
+    select(playlists.find(p => p.id !== playlist.id)?.id ?? null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex justify-end" onClick={onClose}>
+      <div
+        className="w-full max-w-md h-full bg-[#0f1422] border-l border-slate-800 shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 h-16 border-b border-slate-800 flex items-center justify-between shrink-0">
+          <h2 className="font-bold text-white flex items-center gap-2">
+            <ListVideo className="w-4 h-4 text-emerald-500" /> Playlists
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded text-slate-500 hover:text-white hover:bg-slate-800">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-slate-800 space-y-3 shrink-0">
+          <div className="flex gap-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && create()}
+              placeholder="New playlist, e.g. Pressing triggers"
+              className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white placeholder-slate-500 focus:ring-1 focus:ring-emerald-500 outline-none"
+            />
+            <button onClick={create} className="text-xs font-bold bg-emerald-600 hover:bg-emerald-500 text-white px-3 rounded-lg flex items-center gap-1">
+              <Plus className="w-3.5 h-3.5" /> Create
+            </button>
+          </div>
+          {playlists.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {playlists.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => select(p.id)}
+                  className={`text-[11px] px-2 py-1 rounded border transition-colors ${p.id === selectedId ? 'border-emerald-500/60 bg-emerald-500/10 text-emerald-300' : 'border-slate-800 text-slate-400 hover:text-white hover:border-slate-700'}`}
+                >
+                  {p.name} <span className="font-mono text-slate-600">{p.items.length}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {!playlist ? (
+          <div className="text-center py-10 opacity-50">
+            <ListVideo className="w-10 h-10 mx-auto mb-3 text-slate-600" />
+            <p className="text-sm text-slate-500">{playlists.length === 0 ? "No playlists yet." : "Pick a playlist."}</p>
+          </div>
+        ) : (
+          <>
+            <div className="px-4 py-3 border-b border-slate-800 flex items-center gap-2 shrink-0">
+              {renaming !== null ? (
+                <>
+                  <input
+                    value={renaming}
+                    onChange={(e) => setRenaming(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && rename()}
+                    className="flex-1 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm text-white focus:ring-1 focus:ring-emerald-500 outline-none"
+                    autoFocus
+                  />
+                  <button
+                    onClick={rename}
+                    className="p-1.5 rounded text-emerald-400 hover:bg-slate-800"
+                  >
+                    <Check className="w-3.5 h-3.5" />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-bold text-sm text-white truncate">{playlist.name}</h3>
+                    <p className="text-[10px] font-mono text-slate-500">
+                      {playlist.items.length} CLIP{playlist.items.length === 1 ? '' : 'S'} · {formatTimestamp(playlistSeconds(playlist.items))}
+                    </p>
+                  </div>
+                  <button onClick={() => setRenaming(playlist.name)} title="Rename" className="p-1.5 rounded text-slate-500 hover:text-white hover:bg-slate-800">
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  {confirmDelete ? (
+                    <button onClick={remove} className="text-[10px] font-bold text-red-400 bg-red-500/10 border border-red-500/30 px-2 py-1 rounded">
+                      DELETE?
+                    </button>
+                  ) : (
+                    <button onClick={() => setConfirmDelete(true)} title="Delete playlist" className="p-1.5 rounded text-slate-500 hover:text-red-400 hover:bg-slate-800">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onPresent(playlist)}
+                    disabled={playlist.items.length === 0}
+                    className="text-xs font-bold bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-800 disabled:text-slate-500 text-white px-3 py-1.5 rounded flex items-center gap-1.5"
+                  >
+                    <Presentation className="w-3.5 h-3.5" /> Present
+                  </button>
+                </>
+              )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+              {playlist.items.length === 0 && !picking && (
+                <p className="text-xs text-slate-500 text-center py-6">Add moments from the events, insights and player actions.</p>
+              )}
+              {playlist.items.map((item, i) => (
+                <ItemRow
+                  key={item.id}
+                  item={item}
+                  index={i}
+                  count={playlist.items.length}
+                  dragging={dragFrom === i}
+                  onPreview={() => onPreview(item)}
+                  onMove={(to) => setItems('reorder playlist', moveItem(playlist.items, i, to))}
+                  onNote={(note) => setItems('edit talking point', playlist.items.map(x => x.id === item.id ? { ...x, note: note || undefined } : x))}
+                  onRemove={() => setItems('remove from playlist', playlist.items.filter(x => x.id !== item.id))}
+                  onDragStart={() => setDragFrom(i)}
+                  onDragEnd={() => setDragFrom(null)}
+                  onDrop={() => { if (dragFrom !== null) setItems('reorder playlist', moveItem(playlist.items, dragFrom, i)); setDragFrom(null); }}
+                />
+              ))}
+
+              <div className="pt-2">
+                {picking ? (
+                  <div className="space-y-2 border-t border-slate-800 pt-3">
+                    <div className="flex items-center gap-2">
+                      <div className="relative flex-1">
+                        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-500 w-3.5 h-3.5" />
+                        <input
+                          value={query}
+                          onChange={(e) => setQuery(e.target.value)}
+                          placeholder="Find moments to add..."
+                          className="w-full bg-slate-950 border border-slate-700 rounded py-1.5 pl-8 pr-2 text-xs text-white placeholder-slate-500 focus:ring-1 focus:ring-emerald-500 outline-none"
+                          autoFocus
+                        />
+                      </div>
+                      <button onClick={() => { setPicking(false); setQuery(""); }} className="text-xs text-slate-500 hover:text-slate-300 px-2 py-1">Done</button>
+                    </div>
+                    {picks.slice(0, MAX_PICKS).map(hit => {
+                      const source = SEARCH_LISTS[hit.doc.kind];
+                      return (
+                        <button
+                          key={`${hit.doc.kind}-${hit.doc.index}`}
+                          onClick={() => add(source, hit.doc.index)}
+                          className="w-full text-left px-2 py-1.5 rounded border border-slate-800 hover:border-emerald-500/40 hover:bg-slate-800/50 flex items-center gap-2 text-[11px]"
+                        >
+                          {SOURCE_ICONS[source]}
+                          <span className="truncate flex-1 text-slate-300">{hit.doc.title}</span>
+                          <span className="font-mono text-slate-500">{formatTimestamp(hit.doc.seconds!)}</span>
+                          <Plus className="w-3 h-3 text-emerald-400 shrink-0" />
+                        </button>
+                      );
+                    })}
+                    {picks.length === 0 && <p className="text-[11px] text-slate-500">Nothing with a timestamp matches.</p>}
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setPicking(true)}
+                    className="w-full text-xs font-bold uppercase tracking-wider py-2 rounded border border-dashed border-slate-700 text-slate-400 hover:border-emerald-500/50 hover:text-emerald-400 flex items-center justify-center gap-2 transition-colors"
+                  >
+                    <Plus className="w-3.5 h-3.5" /> Add moments
+                  </button>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Maximize, Minimize, X, MessageSquare } from 'lucide-react';
+import { Playlist } from '../types';
+import { ClipStage } from '../utils/playlists';
+import { SpriteSheet, spriteTile } from '../utils/frameCapture';
+import { formatTimestamp } from '../utils/validation';
+
+const NEXT_KEYS = ['ArrowRight', 'PageDown', ' '];
+const PREVIOUS_KEYS = ['ArrowLeft', 'PageUp'];
+
+const PREVIEW_WIDTH = 132;
+
+const STAGE_HINTS: Record<ClipStage, string> = {
+  'lead-in': 'Next: jump to key frame',
+  key: 'Next: play on',
+  follow: 'Next: next clip',
+  end: 'Next: next clip',
+};
+
+// Plays a playlist on the main player: each clip runs to its key frame and
+// pauses on the coaching point, then plays out. Arrow keys, Page Up/Down
+// (what presentation clickers send) and Space step through it.
+export const Presentation: React.FC<{
+  playlist: Playlist;
+  videoRef: React.RefObject<HTMLVideoElement>;
+  stageRef: React.RefObject<HTMLDivElement>;
+  sprites?: SpriteSheet | null;
+  onProgress?: (index: number, stage: ClipStage) => void;
+  onExit: () => void;
+}> = ({ playlist, videoRef, stageRef, sprites, onProgress, onExit }) => {
+  const [index, setIndex] = useState(0);
+  const [stage, setStage] = useState<ClipStage>('lead-in');
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const items = playlist.items;
+  const item = items[index];
+  const isLast = index === items.length - 1;
+  const isDone = isLast && (stage === 'follow' || stage === 'end');
+  const upNext = items[index + 1];
+  const keySeconds = item ? Math.min(Math.max(item.key_seconds, item.start), item.end) : 0;
+
+  const pauseAt = useCallback((seconds: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    video.currentTime = seconds;
+  }, [videoRef]);
+
+  // Each clip starts from its lead-in
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !item) return;
+    video.currentTime = item.start;
+    if (keySeconds <= item.start) {
+      video.pause();
+      setStage('key');
+    } else {
+      setStage('lead-in');
+      void video.play().catch(() => {});
+    }
+  }, [item, keySeconds, videoRef]);
+
+  useEffect(() => onProgress?.(index, stage), [index, stage]);
+
+  // Automatic stops at the key frame and at the end of the clip
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !item) return;
+    const onTimeUpdate = () => {
+      if (stage === 'lead-in' && video.currentTime >= keySeconds) {
+        pauseAt(keySeconds);
+        setStage('key');
+      } else if (stage === 'follow' && video.currentTime >= item.end) {
+        pauseAt(item.end);
+        setStage('end');
+      }
+    };
+    video.addEventListener('timeupdate', onTimeUpdate);
+    return () => video.removeEventListener('timeupdate', onTimeUpdate);
+  }, [stage, item, keySeconds, pauseAt, videoRef]);
+
+  const next = () => {
+    if (!item) return;
+    if (stage === 'lead-in') {
+      pauseAt(keySeconds);
+      setStage('key');
+    } else if (stage === 'key') {
+      setStage('follow');
+      void videoRef.current?.play().catch(() => {});
+    } else if (!isLast) {
+      setIndex(i => i + 1);
+    }
+  };
+
+  const previous = () => {
+    if (index > 0) setIndex(i => i - 1);
+    else if (videoRef.current && item) {
+      // Restart the first clip
+      videoRef.current.currentTime = item.start;
+      setStage('lead-in');
+      void videoRef.current.play().catch(() => {});
+    }
+  };
+
+  const exit = () => {
+    videoRef.current?.pause();
+    if (document.fullscreenElement) void document.exitFullscreen();
+    onExit();
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (NEXT_KEYS.includes(e.key)) {
+        e.preventDefault();
+        if (!e.repeat) next();
+      } else if (PREVIOUS_KEYS.includes(e.key)) {
+        e.preventDefault();
+        if (!e.repeat) previous();
+      } else if (e.key === 'Escape' && !document.fullscreenElement) {
+        exit();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  useEffect(() => {
+    const onChange = () => setIsFullscreen(document.fullscreenElement === stageRef.current);
+    document.addEventListener('fullscreenchange', onChange);
+    return () => document.removeEventListener('fullscreenchange', onChange);
+  }, [stageRef]);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) void document.exitFullscreen();
+    else void stageRef.current?.requestFullscreen().catch(err => console.warn("Fullscreen unavailable", err));
+  };
+
+  if (!item) return null;
+
+  return (
+    <div className="absolute inset-0 z-30 pointer-events-none flex flex-col justify-between">
+      <div className="p-3 flex items-start gap-3 bg-gradient-to-b from-black/80 to-transparent pointer-events-auto">
+        <div className="min-w-0 flex-1">
+          <p className="text-[10px] font-mono text-emerald-400">
+            {playlist.name.toUpperCase()} · {index + 1}/{items.length} · {formatTimestamp(item.start)}–{formatTimestamp(item.end)}
+          </p>
+          <h3 className="text-sm font-bold text-white truncate">{item.title}</h3>
+          {item.note && (
+            <p className="mt-1 text-xs text-amber-200 flex items-start gap-1.5">
+              <MessageSquare className="w-3 h-3 mt-0.5 shrink-0" /> {item.note}
+            </p>
+          )}
+        </div>
+        <button onClick={toggleFullscreen} title={isFullscreen ? "Exit fullscreen" : "Fullscreen"} className="p-1.5 rounded bg-slate-950/70 text-slate-300 hover:text-white">
+          {isFullscreen ? <Minimize className="w-4 h-4" /> : <Maximize className="w-4 h-4" />}
+        </button>
+        <button onClick={exit} title="End presentation (Esc)" className="p-1.5 rounded bg-slate-950/70 text-slate-300 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 pb-14 space-y-3">
+        {stage === 'key' && item.overlay && (
+          <div className="max-w-2xl mx-auto bg-slate-950/85 border-l-4 border-emerald-500 rounded-r-lg px-4 py-3 shadow-2xl">
+            <p className="text-[10px] font-bold uppercase tracking-wider text-emerald-400 mb-1">Coaching point</p>
+            <p className="text-sm md:text-base text-white leading-snug">{item.overlay}</p>
+          </div>
+        )}
+        {upNext && (
+          <div className="absolute right-3 bottom-14 w-36 bg-slate-950/80 border border-slate-700 rounded-lg p-1.5 pointer-events-auto">
+            <p className="text-[9px] font-bold uppercase text-slate-500 mb-1">Up next</p>
+            {sprites && (
+              <div
+                className="rounded mb-1 bg-slate-900"
+                style={(() => {
+                  const tile = spriteTile(sprites, upNext.key_seconds);
+                  const scale = PREVIEW_WIDTH / sprites.tileWidth;
+                  return {
+                    width: PREVIEW_WIDTH,
+                    height: sprites.tileHeight * scale,
+                    backgroundImage: `url(${sprites.url})`,
+                    backgroundPosition: `-${tile.x * scale}px -${tile.y * scale}px`,
+                    backgroundSize: `${Math.min(sprites.columns, sprites.count) * sprites.tileWidth * scale}px auto`,
+                  };
+                })()}
+              />
+            )}
+            <p className="text-[10px] font-bold text-slate-200 truncate">{upNext.title}</p>
+            {upNext.note && <p className="text-[10px] text-amber-200/80 truncate">{upNext.note}</p>}
+          </div>
+        )}
+        <div className="flex items-center justify-center gap-2 pointer-events-auto">
+          <button onClick={previous} title="Previous (←)" className="p-2 rounded-full bg-slate-950/70 text-slate-300 hover:text-white">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-[10px] font-mono text-slate-300 bg-slate-950/70 px-2 py-1 rounded">
+            {isDone ? 'End of playlist' : STAGE_HINTS[stage]}
+          </span>
+          <button onClick={next} disabled={isDone} title="Next (→)" className="p-2 rounded-full bg-slate-950/70 text-slate-300 hover:text-white disabled:opacity-30">
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
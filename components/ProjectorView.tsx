@@ -0,0 +1,136 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MonitorPlay, Volume2, VolumeX } from 'lucide-react';
+import { DrawingShape } from '../types';
+import { activeTelestrations, contentRect, renderShapes } from '../utils/telestration';
+import { followPlayback, openProjectorChannel, ProjectorScene } from '../utils/projectorSync';
+
+// The projector window: only the video, drawings and the coaching overlay,
+// mirroring the analyst's console. Nothing here is interactive except sound.
+export const ProjectorView: React.FC = () => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [scene, setScene] = useState<ProjectorScene | null>(null);
+  const [draft, setDraft] = useState<DrawingShape[] | null>(null);
+  const [consoleClosed, setConsoleClosed] = useState(false);
+  // Starts muted: browsers block sound in a window nobody has clicked yet
+  const [muted, setMuted] = useState(true);
+  const [time, setTime] = useState(0);
+  const [paused, setPaused] = useState(true);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    document.title = "PitchSide Projector";
+    const channel = openProjectorChannel(message => {
+      switch (message.type) {
+        case 'scene':
+          setScene(message.scene);
+          setConsoleClosed(false);
+          break;
+        case 'playback':
+          if (videoRef.current) followPlayback(videoRef.current, message.playback);
+          break;
+        case 'draft':
+          setDraft(message.shapes);
+          break;
+        case 'goodbye':
+          if (message.from === 'console') setConsoleClosed(true);
+          break;
+      }
+    });
+    channel.post({ type: 'hello' });
+    const onUnload = () => channel.post({ type: 'goodbye', from: 'projector' });
+    window.addEventListener('beforeunload', onUnload);
+    return () => {
+      onUnload();
+      window.removeEventListener('beforeunload', onUnload);
+      channel.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas) return;
+    const sync = () => {
+      setTime(video.currentTime);
+      setPaused(video.paused);
+    };
+    const events = ['timeupdate', 'seeked', 'play', 'pause'];
+    events.forEach(e => video.addEventListener(e, sync));
+    const observer = new ResizeObserver(() => setSize({ width: canvas.clientWidth, height: canvas.clientHeight }));
+    observer.observe(canvas);
+    return () => {
+      events.forEach(e => video.removeEventListener(e, sync));
+      observer.disconnect();
+    };
+  }, [scene?.videoUrl]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const video = videoRef.current;
+    if (!canvas || !video) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = size.width * dpr;
+    canvas.height = size.height * dpr;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+    const shapes = draft ?? activeTelestrations(scene?.telestrations, time, paused).flatMap(t => t.shapes);
+    renderShapes(ctx, shapes, contentRect(video.videoWidth, video.videoHeight, size.width, size.height));
+  });
+
+  const overlay = scene?.overlay;
+
+  return (
+    <div className="fixed inset-0 bg-black text-white font-sans">
+      {scene?.videoUrl ? (
+        <>
+          <video
+            ref={videoRef}
+            src={scene.videoUrl}
+            muted={muted}
+            playsInline
+            className="absolute inset-0 w-full h-full object-contain"
+          />
+          <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+        </>
+      ) : (
+        <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-500">
+          <MonitorPlay className="w-16 h-16 mb-4 opacity-30" />
+          <p className="font-mono text-sm">
+            {consoleClosed ? "THE ANALYST'S CONSOLE WAS CLOSED" : scene ? "NO VIDEO LOADED ON THE CONSOLE" : "WAITING FOR THE ANALYST'S CONSOLE..."}
+          </p>
+        </div>
+      )}
+
+      {overlay && (
+        <div className="absolute top-0 inset-x-0 p-6 bg-gradient-to-b from-black/80 to-transparent pointer-events-none">
+          {overlay.position && <p className="text-sm font-mono text-emerald-400">{overlay.position}</p>}
+          <h2 className="text-2xl font-bold">{overlay.title}</h2>
+        </div>
+      )}
+      {overlay?.text && (
+        <div className="absolute bottom-10 inset-x-0 px-10 pointer-events-none">
+          <div className="max-w-4xl mx-auto bg-slate-950/85 border-l-8 border-emerald-500 rounded-r-xl px-8 py-5 shadow-2xl">
+            <p className="text-xs font-bold uppercase tracking-widest text-emerald-400 mb-2">Coaching point</p>
+            <p className="text-2xl leading-snug">{overlay.text}</p>
+          </div>
+        </div>
+      )}
+
+      {scene?.videoUrl && (
+        <button
+          onClick={() => setMuted(m => !m)}
+          title={muted ? "Unmute" : "Mute"}
+          className="absolute bottom-3 right-3 p-2 rounded-full bg-slate-950/60 text-slate-400 hover:text-white opacity-40 hover:opacity-100 transition-opacity"
+        >
+          {muted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+        </button>
+      )}
+      {consoleClosed && scene?.videoUrl && (
+        <p className="absolute top-3 right-3 text-[10px] font-mono text-red-400 bg-slate-950/70 px-2 py-1 rounded">CONSOLE DISCONNECTED</p>
+      )}
+    </div>
+  );
+};
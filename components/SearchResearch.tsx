@@ -1,15 +1,6 @@
 import React, { useState } from 'react';
-import { GoogleGenAI } from "@google/genai";
 import { Search, Globe, ExternalLink, Loader2, BookOpen } from 'lucide-react';
-
-const MODEL_NAME = "gemini-2.5-flash";
-
-interface GroundingChunk {
-  web?: {
-    uri?: string;
-    title?: string;
-  };
-}
+import { GroundingChunk, searchWeb } from '../utils/geminiProxy';
 
 export const SearchResearch: React.FC = () => {
   const [query, setQuery] = useState("");
@@ -26,19 +17,9 @@ export const SearchResearch: React.FC = () => {
     setSources([]);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: MODEL_NAME,
-        contents: query,
-        config: {
-          tools: [{ googleSearch: {} }],
-        },
-      });
-
+      const response = await searchWeb(query);
       setResult(response.text || "No response generated.");
-      
-      const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-      setSources(chunks as GroundingChunk[]);
+      setSources(response.sources);
 
     } catch (error: any) {
       console.error(error);
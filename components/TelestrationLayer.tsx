@@ -0,0 +1,258 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  MoveUpRight, PenLine, Circle, Hexagon, Flashlight, Type, Undo2, Trash2, Check, X
+} from 'lucide-react';
+import { DrawingPoint, DrawingShape, DrawingTool, TacticalInsight, Telestration } from '../types';
+import { activeTelestrations, contentRect, renderShapes, TELESTRATION_COLORS } from '../utils/telestration';
+import { formatTimestamp } from '../utils/validation';
+
+const TOOLS: { tool: DrawingTool; icon: React.ReactNode; label: string }[] = [
+  { tool: 'arrow', icon: <MoveUpRight className="w-3.5 h-3.5" />, label: 'Arrow' },
+  { tool: 'freehand', icon: <PenLine className="w-3.5 h-3.5" />, label: 'Freehand' },
+  { tool: 'circle', icon: <Circle className="w-3.5 h-3.5" />, label: 'Circle' },
+  { tool: 'zone', icon: <Hexagon className="w-3.5 h-3.5" />, label: 'Zone (click corners, double-click to close)' },
+  { tool: 'spotlight', icon: <Flashlight className="w-3.5 h-3.5" />, label: 'Player spotlight' },
+  { tool: 'text', icon: <Type className="w-3.5 h-3.5" />, label: 'Text label' },
+];
+
+// Shapes smaller than this (normalized) are treated as accidental clicks
+const MIN_SHAPE_SIZE = 0.01;
+
+const shapeSize = (shape: DrawingShape) => {
+  const xs = shape.points.map(p => p.x);
+  const ys = shape.points.map(p => p.y);
+  return Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+};
+
+export const TelestrationLayer: React.FC<{
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  telestrations: Telestration[];
+  currentVideoTime: number;
+  isDrawing: boolean;
+  insights: TacticalInsight[];
+  onSave: (telestration: Telestration) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+  // Shapes on screen while drawing (null when not), for mirroring elsewhere
+  onDraft?: (shapes: DrawingShape[] | null) => void;
+}> = ({ videoRef, telestrations, currentVideoTime, isDrawing, insights, onSave, onDelete, onClose, onDraft }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [paused, setPaused] = useState(true);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Draw mode state
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [anchor, setAnchor] = useState(0);
+  const [shapes, setShapes] = useState<DrawingShape[]>([]);
+  const [pending, setPending] = useState<DrawingShape | null>(null);
+  const [tool, setTool] = useState<DrawingTool>('arrow');
+  const [color, setColor] = useState(TELESTRATION_COLORS[0]);
+  const [text, setText] = useState('');
+  const [hold, setHold] = useState(3);
+  const [insightIndex, setInsightIndex] = useState<number | undefined>(undefined);
+
+  // Track play state and element size to know what to draw and where
+  useEffect(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas) return;
+    const sync = () => setPaused(video.paused);
+    sync();
+    video.addEventListener('play', sync);
+    video.addEventListener('pause', sync);
+    const observer = new ResizeObserver(() => setSize({ width: canvas.clientWidth, height: canvas.clientHeight }));
+    observer.observe(canvas);
+    return () => {
+      video.removeEventListener('play', sync);
+      video.removeEventListener('pause', sync);
+      observer.disconnect();
+    };
+  }, [videoRef]);
+
+  // Entering draw mode pauses and picks up any drawing already on this frame
+  useEffect(() => {
+    if (!isDrawing) return;
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    const existing = activeTelestrations(telestrations, video.currentTime, true)[0];
+    setEditingId(existing?.id ?? null);
+    setAnchor(existing?.seconds ?? video.currentTime);
+    setShapes(existing?.shapes ?? []);
+    setHold(existing?.hold ?? 3);
+    setInsightIndex(existing?.insight_index);
+    setPending(null);
+  }, [isDrawing]);
+
+  useEffect(() => {
+    onDraft?.(isDrawing ? [...shapes, ...(pending ? [pending] : [])] : null);
+  }, [isDrawing, shapes, pending]);
+
+  const rect = () => {
+    const video = videoRef.current;
+    return contentRect(video?.videoWidth ?? 0, video?.videoHeight ?? 0, size.width, size.height);
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = size.width * dpr;
+    canvas.height = size.height * dpr;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+    const visible = isDrawing
+      ? [...shapes, ...(pending ? [pending] : [])]
+      : activeTelestrations(telestrations, currentVideoTime, paused).flatMap(t => t.shapes);
+    renderShapes(ctx, visible, rect());
+  });
+
+  const toPoint = (e: React.PointerEvent | React.MouseEvent): DrawingPoint => {
+    const bounds = canvasRef.current!.getBoundingClientRect();
+    const r = rect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - bounds.left - r.x) / r.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - bounds.top - r.y) / r.height)),
+    };
+  };
+
+  const newShape = (points: DrawingPoint[], extra: Partial<DrawingShape> = {}): DrawingShape =>
+    ({ id: crypto.randomUUID(), tool, points, color, ...extra });
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const p = toPoint(e);
+    if (tool === 'spotlight') return setShapes(prev => [...prev, newShape([p])]);
+    if (tool === 'text') {
+      if (text.trim()) setShapes(prev => [...prev, newShape([p], { text: text.trim() })]);
+      return;
+    }
+    if (tool === 'zone') {
+      setPending(prev => prev ? { ...prev, points: [...prev.points, p] } : newShape([p]));
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setPending(newShape([p, p]));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!pending || tool === 'zone') return;
+    const p = toPoint(e);
+    setPending(prev => {
+      if (!prev) return prev;
+      if (prev.tool === 'freehand') return { ...prev, points: [...prev.points, p] };
+      return { ...prev, points: [prev.points[0], p] };
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!pending || tool === 'zone') return;
+    if (shapeSize(pending) >= MIN_SHAPE_SIZE) setShapes(prev => [...prev, pending]);
+    setPending(null);
+  };
+
+  const finishZone = () => {
+    if (pending?.tool !== 'zone') return;
+    // The double-click also landed a duplicate corner
+    const points = pending.points.slice(0, -1);
+    if (points.length >= 3) setShapes(prev => [...prev, { ...pending, points }]);
+    setPending(null);
+  };
+
+  const save = () => {
+    onSave({
+      id: editingId ?? crypto.randomUUID(),
+      seconds: anchor,
+      hold,
+      shapes,
+      ...(insightIndex !== undefined ? { insight_index: insightIndex } : {}),
+    });
+  };
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        className={`absolute inset-0 w-full h-full ${isDrawing ? 'cursor-crosshair z-20' : 'pointer-events-none z-10'}`}
+        onPointerDown={isDrawing ? handlePointerDown : undefined}
+        onPointerMove={isDrawing ? handlePointerMove : undefined}
+        onPointerUp={isDrawing ? handlePointerUp : undefined}
+        onDoubleClick={isDrawing ? finishZone : undefined}
+      />
+
+      {isDrawing && (
+        <div className="absolute top-2 left-2 right-2 z-30 flex flex-wrap items-center gap-1.5 bg-slate-950/90 border border-slate-700 rounded-lg px-2 py-1.5 text-xs backdrop-blur">
+          {TOOLS.map(t => (
+            <button
+              key={t.tool}
+              onClick={() => { setTool(t.tool); setPending(null); }}
+              title={t.label}
+              className={`p-1.5 rounded ${tool === t.tool ? 'bg-emerald-500/20 text-emerald-400' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+            >
+              {t.icon}
+            </button>
+          ))}
+          {tool === 'text' && (
+            <input
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Label, then click"
+              className="w-28 bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-xs text-white outline-none"
+            />
+          )}
+          <div className="flex items-center gap-1 mx-1">
+            {TELESTRATION_COLORS.map(c => (
+              <button
+                key={c}
+                onClick={() => setColor(c)}
+                className={`w-4 h-4 rounded-full border-2 ${color === c ? 'border-white' : 'border-transparent'}`}
+                style={{ backgroundColor: c }}
+              />
+            ))}
+          </div>
+          <button onClick={() => setShapes(prev => prev.slice(0, -1))} disabled={shapes.length === 0} title="Remove last shape" className="p-1.5 rounded text-slate-400 hover:text-white disabled:opacity-30">
+            <Undo2 className="w-3.5 h-3.5" />
+          </button>
+
+          <label className="flex items-center gap-1 text-[10px] text-slate-400 font-mono ml-auto" title="Seconds to keep showing during playback">
+            HOLD
+            <input
+              type="number"
+              min={0}
+              max={30}
+              value={hold}
+              onChange={(e) => setHold(Math.max(0, Number(e.target.value) || 0))}
+              className="w-10 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-white"
+            />
+          </label>
+          <select
+            value={insightIndex ?? ''}
+            onChange={(e) => setInsightIndex(e.target.value === '' ? undefined : Number(e.target.value))}
+            className="max-w-[9rem] bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-300 outline-none"
+            title="Attach to insight"
+          >
+            <option value="">No insight</option>
+            {insights.map((insight, idx) => <option key={idx} value={idx}>{insight.title}</option>)}
+          </select>
+          <span className="text-[10px] font-mono text-slate-500">@{formatTimestamp(anchor)}</span>
+          {editingId && (
+            <button onClick={() => onDelete(editingId)} title="Delete drawing" className="p-1.5 rounded text-slate-400 hover:text-red-400">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          )}
+          <button onClick={onClose} title="Discard" className="p-1.5 rounded text-slate-400 hover:text-white">
+            <X className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={save}
+            disabled={shapes.length === 0}
+            className="px-2 py-1 rounded bg-emerald-600 hover:bg-emerald-500 text-white font-bold flex items-center gap-1 disabled:bg-slate-800 disabled:text-slate-500"
+          >
+            <Check className="w-3 h-3" /> Save
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { X, Share2, Download } from 'lucide-react';
+import { AnalysisData } from '../types';
+import {
+  buildInstances, downloadTimeline, DEFAULT_INSTANCE_OPTIONS, TIMELINE_FORMATS,
+  InstanceSource, TimelineFormat
+} from '../utils/timelineExport';
+
+const SOURCES: { key: InstanceSource; label: string }[] = [
+  { key: 'events', label: 'Timeline events' },
+  { key: 'tactical_insights', label: 'Tactical insights' },
+  { key: 'player_analysis', label: 'Player actions' },
+];
+
+const RollInput: React.FC<{ label: string; value: number; onChange: (value: number) => void }> = ({ label, value, onChange }) => (
+  <label className="flex-1">
+    <span className="text-[10px] uppercase font-bold text-slate-500 tracking-wider block mb-1">{label} (s)</span>
+    <input
+      type="number"
+      min={0}
+      max={120}
+      step={1}
+      value={value}
+      onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm text-white font-mono focus:ring-1 focus:ring-emerald-500 outline-none"
+    />
+  </label>
+);
+
+export const TimelineExport: React.FC<{
+  analysis: AnalysisData;
+  title: string;
+  duration?: number;
+  onClose: () => void;
+}> = ({ analysis, title, duration, onClose }) => {
+  const [preRoll, setPreRoll] = useState(DEFAULT_INSTANCE_OPTIONS.preRoll);
+  const [postRoll, setPostRoll] = useState(DEFAULT_INSTANCE_OPTIONS.postRoll);
+  const [include, setInclude] = useState<InstanceSource[]>(DEFAULT_INSTANCE_OPTIONS.include);
+
+  const instances = buildInstances(analysis, { preRoll, postRoll, include, duration: duration || undefined });
+  const countFor = (source: InstanceSource) => instances.filter(i => i.source === source).length;
+
+  const toggle = (source: InstanceSource) =>
+    setInclude(prev => prev.includes(source) ? prev.filter(s => s !== source) : [...prev, source]);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-[#0f1422] border border-slate-800 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 h-14 border-b border-slate-800 flex items-center justify-between">
+          <h2 className="font-bold text-white flex items-center gap-2">
+            <Share2 className="w-4 h-4 text-emerald-500" /> Export Timeline
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded text-slate-500 hover:text-white hover:bg-slate-800">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-5">
+          <div className="space-y-2">
+            {SOURCES.map(({ key, label }) => (
+              <label key={key} className="flex items-center justify-between text-sm text-slate-300 cursor-pointer">
+                <span className="flex items-center gap-2">
+                  <input type="checkbox" checked={include.includes(key)} onChange={() => toggle(key)} className="accent-emerald-500" />
+                  {label}
+                </span>
+                <span className="text-[10px] font-mono text-slate-500">{include.includes(key) ? countFor(key) : '—'}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex gap-3">
+            <RollInput label="Pre-roll" value={preRoll} onChange={setPreRoll} />
+            <RollInput label="Post-roll" value={postRoll} onChange={setPostRoll} />
+          </div>
+
+          <p className="text-[10px] text-slate-500 leading-relaxed">
+            Insights are coded at their key moment; player actions use their start and end times. Items without a time are skipped.
+          </p>
+
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(TIMELINE_FORMATS) as TimelineFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => downloadTimeline(instances, format, title)}
+                disabled={instances.length === 0}
+                className="text-xs font-bold py-2 rounded border border-slate-700 text-slate-300 hover:border-emerald-500/50 hover:text-emerald-400 disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center gap-1.5 transition-colors"
+              >
+                <Download className="w-3.5 h-3.5" /> {TIMELINE_FORMATS[format].label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] font-mono text-slate-500 text-center">{instances.length} INSTANCES</p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,89 +1,109 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI } from "@google/genai";
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { 
   Activity, CheckCircle, AlertCircle, 
   ChevronRight, BarChart2, Loader2, Upload, 
   Video as VideoIcon, BrainCircuit, TrendingUp, Shield, Target,
   PenTool, RefreshCw, Wifi, WifiOff, CloudUpload, Play, Clock,
   Users, Move, Eye, Footprints, ClipboardList, Camera, 
-  ListChecks, Info
+  ListChecks, Info, AlertTriangle, XCircle, Library, FileText, Share2, Scissors,
+  Undo2, Redo2, Plus, RotateCcw, Keyboard, Brush, Flag, X, Search, ListVideo,
+  MonitorPlay
 } from 'lucide-react';
-import { AnalysisData, VideoEvent, TacticalInsight } from '../types';
+import { AnalysisData, AnalysisSession, Playlist, VideoEvent, TacticalInsight, PlayerInsight, ValidationWarning, Telestration, MatchSetup, DiagramTeam } from '../types';
+import { validateAnalysis, validateStreamedItem, parseTimestamp, formatTimestamp, AnalysisListKey } from '../utils/validation';
+import { JsonStreamExtractor, StreamedValueHandler } from '../utils/jsonStream';
+import { planSegments, runWithConcurrency, mergeSegmentResults, SegmentStatus } from '../utils/segments';
+import { uploadFileToGemini, getFileState, deleteFile } from '../utils/geminiFiles';
+import { AnalysisVideo, getProxyStatus, PROXY_MODELS, ProxyStatus, streamAnalysis } from '../utils/geminiProxy';
+import { ANALYSIS_PROMPT_VERSION, AnalysisWindow } from '../utils/analysisPrompt';
+import { isAbortError, sleep } from '../utils/abort';
+import { fingerprintFile } from '../utils/fingerprint';
+import { captureSpriteSheet, FrameExtractor, frameKey, SpriteSheet } from '../utils/frameCapture';
+import { saveSession, updateSession, findSessionsByHash, loadThumbnails, saveThumbnail } from '../utils/sessionStore';
+import { playerName } from '../utils/roster';
+import { EventFilter, matchesFilter, statTeams } from '../utils/matchStats';
+import { SEARCH_LISTS, SearchHit } from '../utils/search';
+import { ClipStage } from '../utils/playlists';
+import { openProjectorChannel, openProjectorWindow, playbackOf, ProjectorChannel, ProjectorScene } from '../utils/projectorSync';
+import { applySetup, canonicalTeam, DEFAULT_SETUP, loadLastSetup, saveLastSetup, teamColors } from '../utils/matchSetup';
+import {
+  updateItem, addItem, removeItem, countEdited, saveTelestration, removeTelestration, recordFormationChange, assignPlayer, revertToOriginal,
+  EditHistory, emptyHistory, recordEdit, undoEdit, redoEdit
+} from '../utils/analysisEdits';
+import { MatchLibrary } from './MatchLibrary';
+import { CoachingReport } from './CoachingReport';
+import { TimelineExport } from './TimelineExport';
+import { HighlightReel } from './HighlightReel';
+import { EventEditor, InsightEditor, PlayerEditor, EditedBadge, ItemActions, PlayerAssign } from './AnalysisEditors';
+import { CodeWindow } from './CodeWindow';
+import { TelestrationLayer } from './TelestrationLayer';
+import { InsightDiagram } from './PitchDiagram';
+import { FormationBoard } from './FormationBoard';
+import { MatchSetupForm } from './MatchSetupForm';
+import { MatchStats } from './MatchStats';
+import { MatchTimeline } from './MatchTimeline';
+import { AnalysisSearch } from './AnalysisSearch';
+import { PlaylistPanel } from './PlaylistPanel';
+import { Presentation } from './Presentation';
 
 // Limit set to 2GB. 
 // Note: Browser stability for >500MB depends on available RAM.
 const MAX_FILE_SIZE_MB = 2000; 
-const ANALYSIS_MODEL_NAME = "gemini-3-pro-preview";
+const ANALYSIS_MODEL_NAME: string = PROXY_MODELS.analysis;
+// Stored as the model of library entries that were only coded by hand
+const MANUAL_MODEL_NAME = "manual";
 
-// Helper for exponential backoff
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Segmented analysis: videos longer than the threshold are analyzed in
+// overlapping windows, a few at a time.
+const SEGMENT_THRESHOLD_SEC = 20 * 60;
+const SEGMENT_WINDOW_SEC = 15 * 60;
+const SEGMENT_OVERLAP_SEC = 30;
+const SEGMENT_CONCURRENCY = 2;
 
-// Helper for Manual REST Upload (Resumable Protocol)
-const uploadFileToGemini = async (file: File, apiKey: string, onProgress?: (percent: number) => void): Promise<{name: string, uri: string}> => {
-  const metadata = { file: { display_name: file.name } };
-  
-  // 1. Start Resumable Upload Session
-  const startUpload = await fetch(
-    `https://generativelanguage.googleapis.com/upload/v1beta/files?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: {
-        'X-Goog-Upload-Protocol': 'resumable',
-        'X-Goog-Upload-Command': 'start',
-        'X-Goog-Upload-Header-Content-Length': file.size.toString(),
-        'X-Goog-Upload-Header-Content-Type': file.type,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(metadata),
-    }
-  );
+const formatMegabytes = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
 
-  if (!startUpload.ok) {
-    const errText = await startUpload.text();
-    throw new Error(`Upload init failed (${startUpload.status}): ${errText}`);
-  }
-  
-  const uploadUrl = startUpload.headers.get('x-goog-upload-url');
-  if (!uploadUrl) throw new Error("No upload URL returned from Google.");
-
-  // 2. Upload Bytes (Using PUT is often more robust for large binary payloads in Google APIs)
-  const uploadBytes = await fetch(uploadUrl, {
-    method: 'PUT', 
-    headers: {
-      'Content-Length': file.size.toString(),
-      'X-Goog-Upload-Offset': '0',
-      'X-Goog-Upload-Command': 'upload, finalize',
-    },
-    body: file, // Fetch handles streaming the File object automatically in modern browsers
-  });
+const STREAMED_LIST_KEYS: AnalysisListKey[] = ['events', 'tactical_insights', 'player_analysis'];
 
-  if (!uploadBytes.ok) {
-    const errText = await uploadBytes.text();
-    throw new Error(`Upload bytes failed (${uploadBytes.status}): ${errText}`);
-  }
-
-  const uploadResult = await uploadBytes.json();
-  return { name: uploadResult.file.name, uri: uploadResult.file.uri };
-};
+const emptyAnalysis = (): AnalysisData => ({
+  match_context: "",
+  formations: { team_a: "Unknown", team_b: "Unknown" },
+  events: [],
+  tactical_insights: [],
+  player_analysis: [],
+});
 
-const getFileState = async (fileName: string, apiKey: string): Promise<string> => {
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/${fileName}?key=${apiKey}`
-  );
-  if (!response.ok) return "UNKNOWN";
-  const data = await response.json();
-  return data.state;
-};
+// Active Stats filter above a list, with the count it leaves and a clear button
+const FilterChip: React.FC<{ label: string; count: number; onClear: () => void }> = ({ label, count, onClear }) => (
+  <div className="flex items-center gap-2 text-[10px] font-mono bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 rounded px-2 py-1">
+    <BarChart2 className="w-3 h-3 shrink-0" />
+    <span className="truncate">{label.toUpperCase()}</span>
+    <span className="text-slate-500 shrink-0">{count} SHOWN</span>
+    <button onClick={onClear} title="Clear filter" className="ml-auto p-0.5 rounded hover:bg-emerald-500/20">
+      <X className="w-3 h-3" />
+    </button>
+  </div>
+);
 
 // --- Sub-Component: Insight Card (Simplified) ---
 const InsightCard: React.FC<{
   insight: TacticalInsight;
   videoRef: React.RefObject<HTMLVideoElement>;
-}> = ({ insight, videoRef }) => {
-  const [frameImage, setFrameImage] = useState<string | null>(null);
+  loadFrame: (seconds: number, telestrations?: Telestration[]) => Promise<string | null>;
+  actions?: React.ReactNode;
+  telestrations?: Telestration[];
+  teamColors?: Record<DiagramTeam, string>;
+  index: number;
+  highlighted?: boolean;
+}> = ({ insight, videoRef, loadFrame, actions, telestrations, teamColors, index, highlighted }) => {
+  const attached = (telestrations || []).filter(t => t.insight_index === index);
+  // Time of an attached drawing being shown instead of the key moment
+  const [drawingAt, setDrawingAt] = useState<number | null>(null);
+  const [frame, setFrame] = useState<{ key: string; image: string | null } | null>(null);
   const [isVisible, setIsVisible] = useState(false);
   const cardRef = useRef<HTMLDivElement>(null);
+  const frameSeconds = drawingAt ?? insight.key_moment_seconds ?? null;
+  const key = frameSeconds !== null ? frameKey(frameSeconds, telestrations) : null;
 
   // --- Lazy Loading Effect ---
   useEffect(() => {
@@ -104,45 +124,27 @@ const InsightCard: React.FC<{
     return () => observer.disconnect();
   }, []);
 
+  // Frames come from the background extractor, so playback is never touched
   useEffect(() => {
-    // Only capture if visible and not yet captured
-    if (isVisible && !frameImage && videoRef.current) {
-       // Small delay to ensure video is ready or seeked
-       setTimeout(() => {
-         captureFrame();
-       }, 500);
-    }
-  }, [isVisible, videoRef, insight, frameImage]);
-
-  const captureFrame = () => {
-    if (!videoRef.current) return;
-    const video = videoRef.current;
-    
-    // Auto-seek logic is removed to prevent disrupting playback
-    // We capture what is currently available or if user interacts
+    if (!isVisible || frameSeconds === null || key === null) return;
+    let current = true;
+    loadFrame(frameSeconds, telestrations).then(image => {
+      if (current) setFrame({ key, image });
+    });
+    return () => { current = false; };
+  }, [isVisible, key, loadFrame]);
 
-    try {
-      const canvas = document.createElement('canvas');
-      canvas.width = video.videoWidth; 
-      canvas.height = video.videoHeight;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-        setFrameImage(canvas.toDataURL('image/jpeg', 0.85));
-      }
-    } catch (e) {
-      console.error("Frame capture failed", e);
-    }
-  };
+  const loading = key !== null && frame?.key !== key;
 
   return (
-    <div ref={cardRef} className="bg-slate-900/40 border border-slate-800 rounded-xl overflow-hidden shadow-sm hover:border-slate-700 transition-colors">
+    <div ref={cardRef} data-search-item={`tactical_insights-${index}`} className={`bg-slate-900/40 border border-slate-800 rounded-xl overflow-hidden shadow-sm hover:border-slate-700 transition-colors ${highlighted ? 'ring-2 ring-amber-400/70' : ''}`}>
       <div className="bg-slate-900/80 px-4 py-3 border-b border-slate-800 flex justify-between items-center">
           <h3 className="font-bold text-sm text-white flex items-center gap-2">
             <BrainCircuit className="w-4 h-4 text-purple-400" />
             <span className="truncate max-w-[200px] md:max-w-md">{insight.title}</span>
           </h3>
           <div className="flex items-center gap-2 shrink-0">
+            <EditedBadge provenance={insight.provenance} />
             {insight.key_moment_timestamp && (
                <span className="text-[10px] font-mono text-slate-400 bg-slate-950 px-2 py-0.5 rounded border border-slate-800">
                  {insight.key_moment_timestamp}
@@ -151,6 +153,7 @@ const InsightCard: React.FC<{
             <span className="text-[10px] uppercase font-bold text-emerald-500 bg-emerald-950/30 px-2 py-1 rounded border border-emerald-900/50">
               {insight.phase}
             </span>
+            {actions}
           </div>
       </div>
       
@@ -163,33 +166,52 @@ const InsightCard: React.FC<{
                 <span className="text-[10px] text-slate-500 uppercase font-bold tracking-wider flex items-center gap-1">
                   <Camera className="w-3 h-3" /> Match Context
                 </span>
-             </div>
-             <div className="aspect-video bg-black rounded border border-slate-800 relative group overflow-hidden max-w-lg">
-                {frameImage ? (
-                  <img src={frameImage} alt="Frame" className="w-full h-full object-contain" />
-                ) : (
-                  <div className="w-full h-full flex flex-col items-center justify-center text-slate-600 gap-2">
-                      <Loader2 className="w-5 h-5 animate-spin" />
-                      <span className="text-xs">Syncing Frame...</span>
+                {attached.length > 0 && (
+                  <div className="flex items-center gap-1">
+                    {attached.map(t => (
+                      <button
+                        key={t.id}
+                        onClick={() => setDrawingAt(drawingAt === t.seconds ? null : t.seconds)}
+                        title={drawingAt === t.seconds ? "Back to the key moment" : "Show drawing"}
+                        className={`text-[10px] font-mono text-yellow-300 border px-1.5 py-0.5 rounded flex items-center gap-1 hover:bg-yellow-500/20 ${drawingAt === t.seconds ? 'bg-yellow-500/25 border-yellow-400/60' : 'bg-yellow-500/10 border-yellow-500/30'}`}
+                      >
+                        <Brush className="w-2.5 h-2.5" /> {formatTimestamp(t.seconds)}
+                      </button>
+                    ))}
                   </div>
                 )}
-                {insight.key_moment_seconds && (
-                  <button 
-                    onClick={() => {
-                      if (videoRef.current && insight.key_moment_seconds) {
-                        videoRef.current.currentTime = insight.key_moment_seconds;
-                        videoRef.current.play();
-                        // Re-capture frame after seek
-                        setTimeout(captureFrame, 200);
-                      }
-                    }}
-                    className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center backdrop-blur-[2px]"
-                  >
-                     <div className="bg-white/10 p-3 rounded-full backdrop-blur-md border border-white/20 hover:scale-110 transition-transform">
-                        <Play className="w-6 h-6 text-white fill-current" />
-                     </div>
-                  </button>
-                )}
+             </div>
+             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 items-start">
+               <div className="aspect-video bg-black rounded border border-slate-800 relative group overflow-hidden">
+                  {frame?.image && !loading ? (
+                    <img src={frame.image} alt="Frame" className="w-full h-full object-contain" />
+                  ) : loading ? (
+                    <div className="w-full h-full flex flex-col items-center justify-center text-slate-600 gap-2">
+                        <Loader2 className="w-5 h-5 animate-spin" />
+                        <span className="text-xs">Extracting Frame...</span>
+                    </div>
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center text-slate-600 text-xs">
+                      {frameSeconds === null ? "No key moment" : "Frame unavailable"}
+                    </div>
+                  )}
+                  {frameSeconds !== null && (
+                    <button 
+                      onClick={() => {
+                        if (videoRef.current) {
+                          videoRef.current.currentTime = frameSeconds;
+                          videoRef.current.play();
+                        }
+                      }}
+                      className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center backdrop-blur-[2px]"
+                    >
+                       <div className="bg-white/10 p-3 rounded-full backdrop-blur-md border border-white/20 hover:scale-110 transition-transform">
+                          <Play className="w-6 h-6 text-white fill-current" />
+                       </div>
+                    </button>
+                  )}
+               </div>
+               <InsightDiagram diagram={insight.diagram} fallback={insight.visual_cue} teamColors={teamColors} />
              </div>
           </div>
         )}
@@ -266,39 +288,157 @@ export const VideoAnalyst: React.FC = () => {
   const [videoDuration, setVideoDuration] = useState(0);
   const [rawResponse, setRawResponse] = useState<string>("");
   const [showDebug, setShowDebug] = useState(false);
-  const [activeTab, setActiveTab] = useState<'events' | 'tactics' | 'players'>('events');
+  const [validationWarnings, setValidationWarnings] = useState<ValidationWarning[]>([]);
+  const [showWarnings, setShowWarnings] = useState(false);
+  const [structuredOutput, setStructuredOutput] = useState(true);
+  const [activeTab, setActiveTab] = useState<'events' | 'tactics' | 'players' | 'stats'>('events');
   
-  // Progress State
-  const [progress, setProgress] = useState(0);
+  // Progress State (null = stage has no measurable progress)
+  const [progress, setProgress] = useState<number | null>(null);
   const [loadingStage, setLoadingStage] = useState("Initializing...");
   const [retryCount, setRetryCount] = useState(0);
+  const [segmentStatuses, setSegmentStatuses] = useState<SegmentStatus[]>([]);
+
+  // Match Library State
+  const [fileHash, setFileHash] = useState<string | null>(null);
+  const [activeSession, setActiveSession] = useState<AnalysisSession | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [libraryNotice, setLibraryNotice] = useState<string | null>(null);
+  const [showReport, setShowReport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showReel, setShowReel] = useState(false);
+
+  // Manual Editing State
+  const [editHistory, setEditHistory] = useState<EditHistory>(emptyHistory);
+  const [editing, setEditing] = useState<{ key: AnalysisListKey; index: number | 'new' } | null>(null);
+  const [showCodeWindow, setShowCodeWindow] = useState(false);
+  const [isDrawing, setIsDrawing] = useState(false);
+
+  // Match setup used for the next run; the form opens before analysis or to edit it
+  const [matchSetup, setMatchSetup] = useState<MatchSetup | null>(null);
+  const [setupMode, setSetupMode] = useState<'analyze' | 'edit' | null>(null);
+  // Set by clicking a Stats chart or selecting a range on the timeline
+  const [eventFilter, setEventFilter] = useState<EventFilter | null>(null);
+  const [playerFilter, setPlayerFilter] = useState<string | null>(null);
+  // Hover thumbnails for the timeline, built in the background per video
+  const [spriteSheet, setSpriteSheet] = useState<SpriteSheet | null>(null);
+  const [spriteProgress, setSpriteProgress] = useState<number | null>(null);
+  const [frameExtractor, setFrameExtractor] = useState<FrameExtractor | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
+  // Item picked from search, outlined until another is picked
+  const [highlight, setHighlight] = useState<{ key: AnalysisListKey; index: number } | null>(null);
+  const [showPlaylists, setShowPlaylists] = useState(false);
+  const [presenting, setPresenting] = useState<Playlist | null>(null);
+  const [presentationProgress, setPresentationProgress] = useState<{ index: number; stage: ClipStage } | null>(null);
+  // Whether a projector window is listening; set by its hello/goodbye
+  const [projectorConnected, setProjectorConnected] = useState(false);
+  const [projectorBlocked, setProjectorBlocked] = useState(false);
 
   const videoRef = useRef<HTMLVideoElement>(null);
-  const apiKey = process.env.API_KEY || "";
+  // Player frame, which presentation mode takes fullscreen
+  const playerRef = useRef<HTMLDivElement>(null);
+  const projectorRef = useRef<ProjectorChannel | null>(null);
+  // Latest scene, for answering a projector that opens mid-session
+  const projectorSceneRef = useRef<ProjectorScene | null>(null);
+  // Controller of the analysis in flight; aborting it stops every stage
+  const abortRef = useRef<AbortController | null>(null);
+  // Library entry being created for hand coding that started without an analysis
+  const manualSessionRef = useRef<Promise<AnalysisSession | null> | null>(null);
+  // Items parsed so far from each in-flight stream, keyed by segment index
+  const streamPartsRef = useRef<Map<number, AnalysisData>>(new Map());
+  // The API proxy holds the key; undefined until it has answered, null when unreachable
+  const [proxyStatus, setProxyStatus] = useState<ProxyStatus | null | undefined>(undefined);
+
+  // Abort a run in flight on unmount
+  useEffect(() => () => abortRef.current?.abort(), []);
 
-  // Simulated Progress Effect
   useEffect(() => {
-    let interval: ReturnType<typeof setInterval>;
-    if (isAnalyzing) {
-      setProgress(0);
-      
-      interval = setInterval(() => {
-        setProgress(prev => {
-          if (retryCount > 0) return 90;
-          if (prev >= 90) return 90;
-          const increment = prev < 30 ? 2.5 : prev < 60 ? 1.5 : 0.5;
-          return Math.min(prev + increment, 90);
-        });
-      }, 400);
-    } else {
-      setProgress(100);
+    let cancelled = false;
+    getProxyStatus().then(status => { if (!cancelled) setProxyStatus(status); });
+    return () => { cancelled = true; };
+  }, []);
+
+  // One frame extractor per video for the insight cards
+  useEffect(() => {
+    if (!videoUrl) return;
+    const extractor = new FrameExtractor(videoUrl);
+    setFrameExtractor(extractor);
+    return () => {
+      extractor.dispose();
+      setFrameExtractor(null);
+    };
+  }, [videoUrl]);
+
+  // Restores the session's saved frames, and saves any captured before it existed
+  const sessionId = activeSession?.id;
+  useEffect(() => {
+    if (!frameExtractor || !sessionId) return;
+    (async () => {
+      const saved = await loadThumbnails(sessionId);
+      frameExtractor.seed(saved);
+      const captured = await frameExtractor.snapshot();
+      for (const [key, image] of Object.entries<string>(captured)) {
+        if (!saved[key]) await saveThumbnail(sessionId, key, image);
+      }
+    })().catch(e => console.warn("Insight thumbnails could not be restored", e));
+  }, [frameExtractor, sessionId]);
+
+  const loadFrame = useCallback(async (seconds: number, telestrations?: Telestration[]) => {
+    if (!frameExtractor) return null;
+    const key = frameKey(seconds, telestrations);
+    // Saving also removes the stored frames this one supersedes
+    const replaces = !frameExtractor.has(key) || frameExtractor.supersedes(key);
+    const image = await frameExtractor.capture(seconds, telestrations);
+    if (replaces && image && sessionId) {
+      saveThumbnail(sessionId, key, image).catch(e => console.warn("Saving a thumbnail failed", e));
     }
-    return () => clearInterval(interval);
-  }, [isAnalyzing, retryCount]);
+    return image;
+  }, [frameExtractor, sessionId]);
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Builds the thumbnail sheet from a separate video element once the
+  // duration is known, so playback is never disturbed.
+  useEffect(() => {
+    if (!videoUrl || !videoDuration) return;
+    const controller = new AbortController();
+    let sheet: SpriteSheet | null = null;
+    setSpriteSheet(null);
+    setSpriteProgress(0);
+    captureSpriteSheet(videoUrl, videoDuration, { signal: controller.signal, onProgress: setSpriteProgress })
+      .then(result => {
+        sheet = result;
+        setSpriteSheet(result);
+      })
+      .catch(e => {
+        if (!isAbortError(e)) console.warn("Timeline thumbnails unavailable", e);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setSpriteProgress(null);
+      });
+    return () => {
+      controller.abort();
+      setSpriteProgress(null);
+      if (sheet) URL.revokeObjectURL(sheet.url);
+    };
+  }, [videoUrl, videoDuration]);
+
+  const cancelAnalysis = () => {
+    if (!abortRef.current) return;
+    abortRef.current.abort();
+    abortRef.current = null;
+    setIsAnalyzing(false);
+    setProgress(null);
+    setRetryCount(0);
+    setSegmentStatuses([]);
+    setRawResponse("");
+    setAnalysisData(null);
+    streamPartsRef.current.clear();
+    setLoadingStage("Initializing...");
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
     if (selectedFile) {
+      cancelAnalysis();
       if (selectedFile.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
         setError(`File too large (${(selectedFile.size / 1024 / 1024).toFixed(1)}MB).`);
         setErrorDetails(`The limit is ${MAX_FILE_SIZE_MB}MB.`);
@@ -306,10 +446,99 @@ export const VideoAnalyst: React.FC = () => {
       }
       setFile(selectedFile);
       setVideoUrl(URL.createObjectURL(selectedFile));
-      setAnalysisData(null);
-      setRawResponse("");
       setError(null);
       setErrorDetails(null);
+      setLibraryNotice(null);
+
+      let hash: string | null = null;
+      try {
+        hash = await fingerprintFile(selectedFile);
+      } catch (e) {
+        console.warn("Fingerprinting failed; library re-linking is unavailable for this file", e);
+      }
+      setFileHash(hash);
+
+      // Picking the source video of the open session re-links it instead of starting over
+      if (activeSession && hash === activeSession.contentHash) {
+        setLibraryNotice(`Video re-linked to "${activeSession.title}".`);
+        return;
+      }
+
+      setActiveSession(null);
+      setAnalysisData(null);
+      setRawResponse("");
+      setValidationWarnings([]);
+      setEditHistory(emptyHistory());
+      manualSessionRef.current = null;
+      setEditing(null);
+      setEventFilter(null);
+      setPlayerFilter(null);
+      setHighlight(null);
+      setPresenting(null);
+
+      if (hash) {
+        const saved = await findSessionsByHash(hash).catch(() => []);
+        if (saved.length > 0) {
+          setLibraryNotice(`${saved.length} saved analys${saved.length === 1 ? 'is' : 'es'} found for this video in the Library.`);
+        }
+      }
+    }
+  };
+
+  const openSession = (session: AnalysisSession) => {
+    cancelAnalysis();
+    setActiveSession(session);
+    setAnalysisData(session.analysis);
+    setMatchSetup(session.analysis.setup ?? null);
+    setRawResponse(session.rawResponse);
+    setValidationWarnings(session.warnings);
+    setEditHistory(emptyHistory());
+    manualSessionRef.current = null;
+    setEditing(null);
+    setEventFilter(null);
+    setPlayerFilter(null);
+    setHighlight(null);
+    setPresenting(null);
+    setError(null);
+    setErrorDetails(null);
+    setShowLibrary(false);
+
+    if (fileHash === session.contentHash) {
+      setLibraryNotice(null);
+    } else {
+      setFile(null);
+      setVideoUrl(null);
+      setFileHash(null);
+      setLibraryNotice(`Select "${session.fileName}" to re-link the video for this analysis.`);
+    }
+  };
+
+  const saveToLibrary = async (analysis: AnalysisData, raw: string, warnings: ValidationWarning[], model = ANALYSIS_MODEL_NAME): Promise<AnalysisSession | null> => {
+    if (!file) return null;
+    try {
+      const now = Date.now();
+      const session: AnalysisSession = {
+        id: crypto.randomUUID(),
+        title: file.name.replace(/\.[^.]+$/, ''),
+        tags: [],
+        fileName: file.name,
+        fileSize: file.size,
+        contentHash: fileHash ?? await fingerprintFile(file),
+        model,
+        promptVersion: ANALYSIS_PROMPT_VERSION,
+        createdAt: now,
+        updatedAt: now,
+        rawResponse: raw,
+        analysis,
+        warnings,
+      };
+      await saveSession(session);
+      setActiveSession(session);
+      return session;
+    } catch (e) {
+      console.error("Saving to library failed", e);
+      setLibraryNotice("Analysis could not be saved to the local library.");
+      return null;
     }
   };
 
@@ -325,6 +554,7 @@ export const VideoAnalyst: React.FC = () => {
     });
   };
 
+  // Structured output returns plain JSON; the fallbacks below only matter for raw text mode
   const tryParseJSON = (text: string): any => {
     try { return JSON.parse(text); } catch (e) {}
     // Strip markdown code blocks
@@ -339,137 +569,164 @@ export const VideoAnalyst: React.FC = () => {
     throw new Error("Could not parse JSON from response.");
   };
 
-  const runAnalysis = async () => {
+  const runAnalysis = async (setup: MatchSetup | null = matchSetup) => {
     if (!file) return;
-    if (!apiKey) {
+    // Ask again: the proxy may have been started or configured since the page loaded
+    const status = await getProxyStatus();
+    setProxyStatus(status);
+    if (!status) {
+      setError("API Proxy Unreachable");
+      setErrorDetails("Start it with `npm run server`; the dev server forwards /api to it.");
+      return;
+    }
+    if (!status.keyConfigured) {
       setError("API Key Missing");
-      setErrorDetails("process.env.API_KEY is not set.");
+      setErrorDetails("GEMINI_API_KEY is not set on the API proxy server.");
       return;
     }
 
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
     setIsAnalyzing(true);
     setError(null);
     setErrorDetails(null);
     setRawResponse("");
     setAnalysisData(null);
+    setValidationWarnings([]);
     setRetryCount(0);
+    setSegmentStatuses([]);
+    setProgress(null);
+    setActiveSession(null);
+    setLibraryNotice(null);
+    setEditHistory(emptyHistory());
+    manualSessionRef.current = null;
+    setEditing(null);
+    setEventFilter(null);
+    setPlayerFilter(null);
+    setHighlight(null);
+    setPresenting(null);
+    streamPartsRef.current.clear();
     setLoadingStage("Preparing video...");
 
-    const ai = new GoogleGenAI({ apiKey });
-    
     // Strategy: 
     // < 20MB: Use Inline (Fast, no upload wait)
     // > 20MB: Use File API via REST (Upload -> Process -> Analyze)
     const isLargeFile = file.size > 20 * 1024 * 1024;
     
-    let contentPart: any = null;
+    let video: AnalysisVideo;
+    let uploadedFileName: string | null = null;
 
     try {
       if (isLargeFile) {
         setLoadingStage("Uploading to Secure Storage...");
-        const { name: fileName, uri: fileUri } = await uploadFileToGemini(file, apiKey);
+        setProgress(0);
+        const { name: fileName, uri: fileUri } = await uploadFileToGemini(file, {
+          signal,
+          onProgress: ({ uploaded, total, resumedFrom }) => {
+            setProgress(total > 0 ? (uploaded / total) * 100 : 100);
+            setLoadingStage(
+              `${resumedFrom ? 'Resuming upload' : 'Uploading'}: ${formatMegabytes(uploaded)} / ${formatMegabytes(total)} MB`
+            );
+          },
+        });
+        uploadedFileName = fileName;
         
         setLoadingStage("Processing video content...");
+        setProgress(null);
         let fileState = "PROCESSING";
         while (fileState === "PROCESSING") {
-          await sleep(2000);
-          fileState = await getFileState(fileName, apiKey);
+          await sleep(2000, signal);
+          fileState = await getFileState(fileName, undefined, signal);
           if (fileState === "FAILED") throw new Error("Video processing failed on server.");
         }
 
         if (fileState !== "ACTIVE") throw new Error(`File state is ${fileState}`);
-        contentPart = { fileData: { mimeType: file.type, fileUri: fileUri } };
+        video = { fileData: { mimeType: file.type, fileUri: fileUri } };
 
       } else {
         setLoadingStage("Encoding video (Inline)...");
         const base64Data = await fileToBase64(file);
-        contentPart = { inlineData: { mimeType: file.type, data: base64Data } };
+        signal.throwIfAborted();
+        video = { inlineData: { mimeType: file.type, data: base64Data } };
       }
 
       setLoadingStage("PERFORMING COMPREHENSIVE TACTICAL AUDIT...");
 
-      const prompt = `
-        Role: You are a World-Class UEFA Pro License Tactical Analyst (e.g., Pep Guardiola's head analyst).
-        Task: Perform a "Frame-by-Frame" style Chronological Micro-Audit of this footage.
-        
-        CRITICAL INSTRUCTIONS FOR "COMPREHENSIVE COVERAGE":
-        1. UNLIMITED SCOPE: Do not stick to a fixed number like 10. Your goal is to generate a deep dive \`tactical_insight\` card for EVERY distinct tactical event, micro-movement, or interaction you observe.
-        2. NO MATTER HOW SMALL: Treat every detail with extreme importance. A simple pass to a fullback, a head check, a body feint, a defensive shuffle, a change in pressing trigger—if it happens, analyze it.
-        3. NO EVENT LEFT BEHIND: If the video contains 5 events, analyze 5. If it contains 50, analyze 50. Do not summarize; enumerate.
-        4. DEPTH & BREADTH: For EACH identified event, provide the full \`breakdown\` sequence.
-        
-        ANALYSIS REQUIREMENTS:
-        1. Match Events: Log every shot, pass, tackle, and transition in the 'events' array.
-        2. Player Analysis: Focus on individual off-ball movement, decoy runs, defensive tracking, and pressing intensity.
-        3. Tactical Insights: This is the core. Every time the game state changes or a decision is made, create an insight.
-        
-        For "Tactical Insights", you MUST include:
-        - improvement: A direct tactical adjustment for the players.
-        - breakdown: An array of strings detailing the sequence of events. BE EXTENSIVE. Example: ["1. CB scans field", "2. DM drops into pocket", "3. Winger pins fullback", "4. Pass breaks first line", "5. ...", "6. ..."].
-        - drill_name: A specific training drill name.
-        - drill_setup: Brief instructions.
-        - key_moment_timestamp: MM:SS.
-        - key_moment_seconds: integer seconds.
-        
-        Return JSON matching this schema:
-        {
-          "match_context": "string",
-          "formations": { "team_a": "string", "team_b": "string" },
-          "events": [{ "timestamp": "MM:SS", "seconds": number, "type": "string", "team": "string", "description": "string" }],
-          "player_analysis": [
-             { 
-               "player": "string", 
-               "action_type": "string",
-               "description": "string",
-               "impact": "High | Medium | Low",
-               "time_start": "MM:SS"
-             }
-          ],
-          "tactical_insights": [{ 
-             "title": "string", 
-             "phase": "string", 
-             "observation": "string", 
-             "breakdown": ["string", "string", "string", "string", "string", "string"], 
-             "improvement": "string", 
-             "drill_name": "string",
-             "drill_setup": "string",
-             "key_moment_timestamp": "MM:SS",
-             "key_moment_seconds": number
-          }]
+      const MAX_RETRIES = 3;
+
+      // Shows everything parsed so far across all streams. Events are kept in
+      // match order; insights stay in arrival order so cards don't reshuffle.
+      const publishStreamed = () => {
+        if (signal.aborted) return;
+        const parts = Array.from(streamPartsRef.current.entries()).sort(([a], [b]) => a - b).map(([, part]) => part);
+        const hasContent = parts.some(p => p.match_context || p.events.length || p.tactical_insights.length || p.player_analysis.length);
+        if (!hasContent) {
+          setAnalysisData(null);
+          return;
         }
-      `;
+        setAnalysisData(applySetup({
+          match_context: parts.find(p => p.match_context)?.match_context ?? "",
+          formations: parts.find(p => p.formations.team_a !== "Unknown")?.formations ?? emptyAnalysis().formations,
+          events: parts.flatMap(p => p.events).sort((a, b) => a.seconds - b.seconds),
+          tactical_insights: parts.flatMap(p => p.tactical_insights),
+          player_analysis: parts.flatMap(p => p.player_analysis),
+        }, setup));
+      };
 
-      const MAX_RETRIES = 3;
-      let attempt = 0;
-      let success = false;
-      let responseText = "";
+      const collectStreamed = (partKey: number): StreamedValueHandler => (key, value, kind) => {
+        const part = streamPartsRef.current.get(partKey);
+        if (!part) return;
+        if (kind === 'item' && (STREAMED_LIST_KEYS as string[]).includes(key)) {
+          const listKey = key as AnalysisListKey;
+          const item = validateStreamedItem(listKey, value);
+          if (!item) return;
+          (part[listKey] as typeof item[]).push(item);
+        } else if (key === 'match_context' && typeof value === 'string') {
+          part.match_context = value;
+        } else if (key === 'formations' && value && typeof value === 'object') {
+          const f = value as Record<string, unknown>;
+          part.formations = {
+            team_a: typeof f.team_a === 'string' ? f.team_a : "Unknown",
+            team_b: typeof f.team_b === 'string' ? f.team_b : "Unknown",
+          };
+        } else {
+          return;
+        }
+        publishStreamed();
+      };
 
-      while (attempt < MAX_RETRIES && !success) {
+      // Streams one generation, surfacing complete items as they arrive, and
+      // returns the full text for whole-response validation.
+      const generateWithRetry = async (window: AnalysisWindow | undefined, onRetry: (attempt: number) => void, partKey = 0): Promise<string> => {
+        let attempt = 0;
+        while (true) {
           try {
-              if (attempt > 0) {
-                setLoadingStage(`Retrying analysis (Attempt ${attempt + 1}/${MAX_RETRIES})...`);
-                setRetryCount(attempt);
-              }
+              if (attempt > 0) onRetry(attempt);
+
+              // A retry starts the generation over, so drop what the failed attempt streamed
+              streamPartsRef.current.set(partKey, emptyAnalysis());
+              publishStreamed();
+              const extractor = new JsonStreamExtractor(collectStreamed(partKey));
+
+              // The proxy builds the prompt and sets the model and thinking budget
+              const stream = streamAnalysis({
+                video,
+                ...(setup ? { setup } : {}),
+                ...(window ? { window } : {}),
+                structured: structuredOutput,
+              }, signal);
 
-              const response = await ai.models.generateContent({
-                  model: ANALYSIS_MODEL_NAME,
-                  contents: [
-                    {
-                      parts: [
-                        contentPart,
-                        { text: prompt }
-                      ]
-                    }
-                  ],
-                  config: {
-                    // EXTREME THINKING BUDGET
-                    thinkingConfig: { thinkingBudget: 32768 }, // Maximize thinking
-                    maxOutputTokens: 60000,
-                  }
-              });
-              responseText = response.text || "";
-              success = true;
+              let text = "";
+              for await (const piece of stream) {
+                text += piece;
+                extractor.push(piece);
+              }
+              return text;
           } catch (err: any) {
+              if (signal.aborted) throw err;
               console.warn(`Attempt ${attempt + 1} failed:`, err);
               const isRetryable = err.status === 503 || err.code === 503 || 
                                   err.status === 429 || err.code === 429 ||
@@ -478,29 +735,109 @@ export const VideoAnalyst: React.FC = () => {
               if (isRetryable && attempt < MAX_RETRIES - 1) {
                   attempt++;
                   const delay = Math.pow(2, attempt) * 2000;
-                  await sleep(delay);
+                  await sleep(delay, signal);
               } else {
                   throw err;
               }
           }
-      }
+        }
+      };
 
-      setRawResponse(responseText);
-      if (!responseText) throw new Error("Empty response from AI.");
+      // Full-length matches are cut into windows so each call stays under the
+      // output token limit and keeps timestamps fine-grained.
+      const segments = videoDuration > SEGMENT_THRESHOLD_SEC
+        ? planSegments(videoDuration, SEGMENT_WINDOW_SEC, SEGMENT_OVERLAP_SEC)
+        : [];
+
+      let data: AnalysisData;
+      let warnings: ValidationWarning[];
+      let raw: string;
+
+      if (segments.length <= 1) {
+        const responseText = await generateWithRetry(undefined, attempt => {
+          setLoadingStage(`Retrying analysis (Attempt ${attempt + 1}/${MAX_RETRIES})...`);
+          setRetryCount(attempt);
+        });
+
+        raw = responseText;
+        setRawResponse(raw);
+        if (!responseText) throw new Error("Empty response from AI.");
+
+        // Validate field by field so one malformed item doesn't discard the whole response
+        ({ data, warnings } = validateAnalysis(tryParseJSON(responseText)));
+      } else {
+        setLoadingStage(`ANALYZING ${segments.length} MATCH SEGMENTS...`);
+        setSegmentStatuses(segments.map(seg => ({ ...seg, state: 'pending' })));
+        const updateSegment = (index: number, patch: Partial<SegmentStatus>) =>
+          setSegmentStatuses(prev => prev.map(seg => seg.index === index ? { ...seg, ...patch } : seg));
+
+        const results = await runWithConcurrency(segments.map(segment => async () => {
+          signal.throwIfAborted();
+          const window = `${formatTimestamp(segment.start)}-${formatTimestamp(segment.end)}`;
+          updateSegment(segment.index, { state: 'running' });
+          try {
+            const responseText = await generateWithRetry({ start: segment.start, end: segment.end }, attempt => updateSegment(segment.index, { state: 'retrying', detail: `Attempt ${attempt + 1}/${MAX_RETRIES}` }), segment.index);
 
-      const json = tryParseJSON(responseText);
-      setAnalysisData(json);
+            if (!responseText) throw new Error("Empty response from AI.");
+            const result = validateAnalysis(tryParseJSON(responseText));
+            updateSegment(segment.index, { state: 'done', detail: `${result.data.events.length} events` });
+            return { segment, window, responseText, ...result };
+          } catch (err: any) {
+            if (signal.aborted) throw err;
+            console.warn(`Segment ${segment.index + 1} failed:`, err);
+            streamPartsRef.current.delete(segment.index);
+            publishStreamed();
+            updateSegment(segment.index, { state: 'failed', detail: err.message });
+            return { segment, window, error: err.message || String(err) };
+          }
+        }), SEGMENT_CONCURRENCY);
+
+        raw = results.map(r =>
+          `// Segment ${r.segment.index + 1} (${r.window})\n${'responseText' in r ? r.responseText : `FAILED: ${r.error}`}`
+        ).join('\n\n');
+        setRawResponse(raw);
+
+        const succeeded = results.flatMap(r => 'data' in r ? [r] : []);
+        if (succeeded.length === 0) throw new Error("Every analysis segment failed.");
+
+        data = mergeSegmentResults(succeeded);
+        warnings = results.flatMap(r => 'warnings' in r
+          ? r.warnings.map(w => ({ path: `segment[${r.segment.index}].${w.path}`, message: w.message }))
+          : [{ path: `segment[${r.segment.index}]`, message: `Analysis failed (${r.error}); ${r.window} is missing.` }]
+        );
+      }
+
+      // The streamed preview is replaced by the fully validated result,
+      // with the model's team labels mapped onto the setup's teams
+      streamPartsRef.current.clear();
+      data = applySetup(data, setup);
+      if (warnings.length > 0) console.warn("Analysis normalized with warnings", warnings);
+      setValidationWarnings(warnings);
+      setAnalysisData(data);
+      await saveToLibrary(data, raw, warnings);
       
       // Default to Tactics tab because that's where the magic is now
-      if (json.tactical_insights?.length > 0) setActiveTab('tactics');
-      else if (json.player_analysis?.length > 0) setActiveTab('players');
+      if (data.tactical_insights.length > 0) setActiveTab('tactics');
+      else if (data.player_analysis.length > 0) setActiveTab('players');
 
     } catch (err: any) {
+      if (signal.aborted) {
+        // Cancelled: the UI was already reset; just drop the remote copy
+        if (uploadedFileName) void deleteFile(uploadedFileName);
+        return;
+      }
       console.error("Analysis Error", err);
+      // A partial preview was never validated; keep it out of edits and the library
+      streamPartsRef.current.clear();
+      setAnalysisData(null);
       setError("Analysis Failed");
       setErrorDetails(err.message || JSON.stringify(err));
     } finally {
-      setIsAnalyzing(false);
+      // A newer run (or a cancel) owns the UI state now
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsAnalyzing(false);
+      }
     }
   };
 
@@ -511,17 +848,186 @@ export const VideoAnalyst: React.FC = () => {
     }
   };
 
-  const getEventColor = (type: string) => {
-    switch (type) {
-      case 'Goal': return '#10b981'; // emerald-500
-      case 'Shot': return '#3b82f6'; // blue-500
-      case 'Defense': return '#f97316'; // orange-500
-      case 'Tactical': return '#a855f7'; // purple-500
-      case 'Transition': return '#eab308'; // yellow-500
-      default: return '#94a3b8'; // slate-400
+  // Stats tab clicks: show the matching items and jump to the earliest one
+  const showEvents = (filter: EventFilter) => {
+    if (!analysisData) return;
+    const teams = statTeams(analysisData);
+    const first = Math.min(...analysisData.events.filter(e => matchesFilter(e, filter, teams)).map(e => e.seconds));
+    setEventFilter(filter);
+    setActiveTab('events');
+    if (Number.isFinite(first)) jumpToTime(first);
+  };
+
+  const showPlayer = (name: string) => {
+    if (!analysisData) return;
+    const times = analysisData.player_analysis
+      .filter(p => playerName(p, analysisData.setup) === name)
+      .map(p => parseTimestamp(p.time_start))
+      .filter((t): t is number => t !== null);
+    setPlayerFilter(name);
+    setActiveTab('players');
+    if (times.length) jumpToTime(Math.min(...times));
+  };
+
+  const openSearchHit = (hit: SearchHit, session?: AnalysisSession) => {
+    if (session && session.id !== activeSession?.id) openSession(session);
+    const key = SEARCH_LISTS[hit.doc.kind];
+    setActiveTab(key === 'tactical_insights' ? 'tactics' : key === 'player_analysis' ? 'players' : 'events');
+    setEventFilter(null);
+    setPlayerFilter(null);
+    setHighlight({ key, index: hit.doc.index });
+    setShowSearch(false);
+    if (hit.doc.seconds !== null) jumpToTime(hit.doc.seconds);
+  };
+
+  // Bring the highlighted item into view once its tab has rendered
+  useEffect(() => {
+    if (!highlight) return;
+    const frame = requestAnimationFrame(() => {
+      document.querySelector(`[data-search-item="${highlight.key}-${highlight.index}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [highlight, activeTab]);
+
+  const isHighlighted = (key: AnalysisListKey, index: number) => highlight?.key === key && highlight.index === index;
+
+  // --- Projector window ---
+
+  // The console always broadcasts; a projector that opens later says hello
+  // and gets the current scene and playback.
+  useEffect(() => {
+    const channel = openProjectorChannel(message => {
+      if (message.type === 'hello') {
+        setProjectorConnected(true);
+        if (projectorSceneRef.current) channel.post({ type: 'scene', scene: projectorSceneRef.current });
+        if (videoRef.current) channel.post({ type: 'playback', playback: playbackOf(videoRef.current) });
+      } else if (message.type === 'goodbye' && message.from === 'projector') {
+        setProjectorConnected(false);
+      }
+    });
+    projectorRef.current = channel;
+    const onUnload = () => channel.post({ type: 'goodbye', from: 'console' });
+    window.addEventListener('beforeunload', onUnload);
+    return () => {
+      onUnload();
+      window.removeEventListener('beforeunload', onUnload);
+      channel.close();
+      projectorRef.current = null;
+    };
+  }, []);
+
+  // Video, drawings and the presented clip; the coaching point shows while
+  // the clip is paused on its key frame
+  useEffect(() => {
+    const item = presenting && presentationProgress ? presenting.items[presentationProgress.index] : undefined;
+    const scene: ProjectorScene = {
+      videoUrl,
+      telestrations: analysisData?.telestrations || [],
+      overlay: presenting && item ? {
+        title: item.title,
+        position: `${presentationProgress!.index + 1}/${presenting.items.length}`,
+        ...(presentationProgress!.stage === 'key' && item.overlay ? { text: item.overlay } : {}),
+      } : null,
+    };
+    projectorSceneRef.current = scene;
+    projectorRef.current?.post({ type: 'scene', scene });
+  }, [videoUrl, analysisData?.telestrations, presenting, presentationProgress]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const send = () => projectorRef.current?.post({ type: 'playback', playback: playbackOf(video) });
+    const events = ['play', 'pause', 'seeked', 'ratechange', 'timeupdate'];
+    events.forEach(e => video.addEventListener(e, send));
+    send();
+    return () => events.forEach(e => video.removeEventListener(e, send));
+  }, [videoUrl]);
+
+  const openProjector = () => setProjectorBlocked(!openProjectorWindow());
+
+  // --- Manual editing ---
+
+  // Saves corrections over the library copy; the first edit preserves the AI version.
+  // Hand coding without an AI run starts a new library entry for the video.
+  const persistEdits = async (analysis: AnalysisData) => {
+    let session = activeSession;
+    if (!session) {
+      if (!file) return;
+      manualSessionRef.current ??= saveToLibrary(emptyAnalysis(), "", [], MANUAL_MODEL_NAME);
+      session = await manualSessionRef.current;
+      if (!session) return;
     }
+    try {
+      const updated = await updateSession(session.id, {
+        analysis,
+        originalAnalysis: session.originalAnalysis ?? session.analysis,
+      });
+      setActiveSession(updated);
+    } catch (e) {
+      console.error("Saving edits failed", e);
+      setLibraryNotice("Edits could not be saved to the local library.");
+    }
+  };
+
+  const applyEdit = (label: string, update: (analysis: AnalysisData) => AnalysisData) => {
+    if (isAnalyzing) return;
+    // Live coding may start before any analysis exists
+    const base = analysisData ?? emptyAnalysis();
+    const next = update(base);
+    setEditHistory(history => recordEdit(history, label, base));
+    setAnalysisData(next);
+    setEditing(null);
+    // Indices may have shifted
+    setHighlight(null);
+    void persistEdits(next);
+  };
+
+  const stepHistory = (direction: 'undo' | 'redo') => {
+    if (!analysisData || isAnalyzing) return;
+    const result = direction === 'undo' ? undoEdit(editHistory, analysisData) : redoEdit(editHistory, analysisData);
+    if (!result) return;
+    setEditHistory(result.history);
+    setAnalysisData(result.analysis);
+    setEditing(null);
+    void persistEdits(result.analysis);
   };
 
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y), except while typing in a
+  // field; Ctrl/Cmd+K opens search from anywhere
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if (e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowSearch(true);
+        return;
+      }
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        e.preventDefault();
+        stepHistory(key === 'y' || e.shiftKey ? 'redo' : 'undo');
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const isEditing = (key: AnalysisListKey, index: number | 'new') =>
+    editing?.key === key && editing.index === index;
+  const canEdit = !!analysisData && !isAnalyzing;
+  const editedCount = analysisData ? countEdited(analysisData) : 0;
+  const hasRoster = !!(analysisData?.setup?.team_a.roster?.length || analysisData?.setup?.team_b.roster?.length);
+  const tabListKey: AnalysisListKey = activeTab === 'tactics' ? 'tactical_insights' : activeTab === 'players' ? 'player_analysis' : 'events';
+  const filterTeams = analysisData ? statTeams(analysisData) : [];
+  const eventShown = (event: VideoEvent) => !eventFilter || matchesFilter(event, eventFilter, filterTeams);
+  const playerShown = (player: PlayerInsight) => !playerFilter || playerName(player, analysisData?.setup) === playerFilter;
+
+  // Segmented runs report progress as the share of finished windows
+  const finishedSegments = segmentStatuses.filter(seg => seg.state === 'done' || seg.state === 'failed').length;
+  const shownProgress = segmentStatuses.length > 0 ? (finishedSegments / segmentStatuses.length) * 100 : progress;
+
   const getEventIcon = (type: string) => {
     switch (type) {
       case 'Goal': return <Target className="text-emerald-500" />;
@@ -539,7 +1045,7 @@ export const VideoAnalyst: React.FC = () => {
       {/* Left Column: Video & Controls (7/12) */}
       <div className="lg:col-span-7 flex flex-col gap-6 h-full overflow-y-auto custom-scrollbar pr-2">
         {/* Player */}
-        <div className="bg-black rounded-xl overflow-hidden shadow-2xl border border-slate-800 aspect-video relative group shrink-0">
+        <div ref={playerRef} className="bg-black rounded-xl overflow-hidden shadow-2xl border border-slate-800 aspect-video relative group shrink-0">
           {videoUrl ? (
             <video 
               ref={videoRef}
@@ -550,6 +1056,7 @@ export const VideoAnalyst: React.FC = () => {
               crossOrigin="anonymous" 
               onLoadedMetadata={(e) => setVideoDuration(e.currentTarget.duration)}
               onTimeUpdate={(e) => setCurrentVideoTime(e.currentTarget.currentTime)}
+              onSeeked={(e) => setCurrentVideoTime(e.currentTarget.currentTime)}
             />
           ) : (
             <div className="w-full h-full flex flex-col items-center justify-center text-slate-500 bg-[#0f1422]">
@@ -557,19 +1064,77 @@ export const VideoAnalyst: React.FC = () => {
               <p className="font-mono text-sm">UPLOAD MATCH FOOTAGE</p>
             </div>
           )}
+          {videoUrl && (
+            <TelestrationLayer
+              videoRef={videoRef}
+              telestrations={analysisData?.telestrations || []}
+              currentVideoTime={currentVideoTime}
+              isDrawing={isDrawing}
+              insights={analysisData?.tactical_insights || []}
+              onSave={(telestration) => { applyEdit('save drawing', a => saveTelestration(a, telestration)); setIsDrawing(false); }}
+              onDelete={(id) => { applyEdit('delete drawing', a => removeTelestration(a, id)); setIsDrawing(false); }}
+              onClose={() => setIsDrawing(false)}
+              onDraft={(shapes) => projectorRef.current?.post({ type: 'draft', shapes })}
+            />
+          )}
+          {videoUrl && presenting && (
+            <Presentation
+              playlist={presenting}
+              videoRef={videoRef}
+              stageRef={playerRef}
+              sprites={spriteSheet}
+              onProgress={(index, stage) => setPresentationProgress({ index, stage })}
+              onExit={() => { setPresenting(null); setPresentationProgress(null); }}
+            />
+          )}
+          {videoUrl && !isDrawing && !isAnalyzing && !presenting && (
+            <button
+              onClick={() => setIsDrawing(true)}
+              title="Draw on this frame"
+              className="absolute top-3 right-3 z-20 px-3 py-1.5 rounded-lg bg-slate-950/80 border border-slate-700 text-xs font-bold text-slate-300 hover:text-yellow-300 hover:border-yellow-500/50 flex items-center gap-1.5 opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <Brush className="w-3.5 h-3.5" /> DRAW
+            </button>
+          )}
         </div>
 
+        {showCodeWindow && videoUrl && (
+          <CodeWindow
+            videoRef={videoRef}
+            currentVideoTime={currentVideoTime}
+            duration={videoDuration || undefined}
+            disabled={isAnalyzing}
+            onCode={(event, label) => applyEdit(`code ${label}`, a => addItem(a, 'events', { ...event, team: canonicalTeam(event.team, a.setup) }))}
+            onClose={() => setShowCodeWindow(false)}
+          />
+        )}
+
         {/* Controls */}
         <div className="bg-[#0f1422] p-6 rounded-xl border border-slate-800">
           <div className="flex flex-col gap-4">
             
             <div className="flex items-center gap-4 text-xs font-mono mb-2">
-               <div className={`flex items-center gap-2 ${apiKey ? 'text-emerald-500' : 'text-red-500'}`}>
-                 {apiKey ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
-                 <span>API: {apiKey ? "CONNECTED" : "MISSING"}</span>
+               <div className={`flex items-center gap-2 ${proxyStatus === undefined ? 'text-slate-500' : proxyStatus?.keyConfigured ? 'text-emerald-500' : 'text-red-500'}`}>
+                 {proxyStatus?.keyConfigured ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
+                 <span>API: {proxyStatus === undefined ? "CHECKING" : !proxyStatus ? "PROXY OFFLINE" : proxyStatus.keyConfigured ? "CONNECTED" : "KEY MISSING"}</span>
                </div>
                <div className="text-slate-500">|</div>
                <div className="text-slate-500">ANALYSIS: {ANALYSIS_MODEL_NAME}</div>
+               <div className="text-slate-500">|</div>
+               <button
+                 onClick={() => setStructuredOutput(!structuredOutput)}
+                 disabled={isAnalyzing}
+                 title="Structured output constrains the model to the AnalysisData schema. Raw text mode relies on JSON extraction."
+                 className="text-slate-500 hover:text-slate-300 disabled:cursor-not-allowed"
+               >
+                 OUTPUT: {structuredOutput ? "SCHEMA" : "RAW TEXT"}
+               </button>
+               {activeSession && (
+                 <>
+                   <div className="text-slate-500">|</div>
+                   <div className="text-emerald-500 truncate">SAVED: {activeSession.title}</div>
+                 </>
+               )}
             </div>
 
             <div className="flex items-center gap-4">
@@ -585,9 +1150,95 @@ export const VideoAnalyst: React.FC = () => {
                   <Upload className="w-4 h-4" />
                 </div>
               </label>
+
+              {videoUrl && (
+                <button
+                  onClick={() => setShowCodeWindow(v => !v)}
+                  title="Code Window"
+                  className={`p-3 rounded-lg border transition-colors ${showCodeWindow ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-400' : 'border-slate-700 bg-slate-900 text-slate-400 hover:text-emerald-400 hover:border-emerald-500/50'}`}
+                >
+                  <Keyboard className="w-4 h-4" />
+                </button>
+              )}
+
+              {analysisData && !isAnalyzing && (
+                <button
+                  onClick={() => setSetupMode('edit')}
+                  title="Match Setup"
+                  className="p-3 rounded-lg border border-slate-700 bg-slate-900 text-slate-400 hover:text-emerald-400 hover:border-emerald-500/50 transition-colors"
+                >
+                  <Flag className="w-4 h-4" />
+                </button>
+              )}
+
+              <button
+                onClick={() => setShowSearch(true)}
+                title="Search (Ctrl+K)"
+                className="p-3 rounded-lg border border-slate-700 bg-slate-900 text-slate-400 hover:text-emerald-400 hover:border-emerald-500/50 transition-colors"
+              >
+                <Search className="w-4 h-4" />
+              </button>
+
+              <button
+                onClick={() => setShowLibrary(true)}
+                title="Match Library"
+                className="p-3 rounded-lg border border-slate-700 bg-slate-900 text-slate-400 hover:text-emerald-400 hover:border-emerald-500/50 transition-colors"
+              >
+                <Library className="w-4 h-4" />
+              </button>
+
+              {analysisData && !isAnalyzing && (
+                <button
+                  onClick={() => setShowReport(true)}
+                  title="Coaching Report"
+                  className="p-3 rounded-lg border border-slate-700 bg-slate-900 text-slate-400 hover:text-emerald-400 hover:border-emerald-500/50 transition-colors"
+                >
+                  <FileText className="w-4 h-4" />
+                </button>
+              )}
+
+              {analysisData && !isAnalyzing && (
+                <button
+                  onClick={() => setShowExport(true)}
+                  title="Export Timeline"
+                  className="p-3 rounded-lg border border-slate-700 bg-slate-900 text-slate-400 hover:text-emerald-400 hover:border-emerald-500/50 transition-colors"
+                >
+                  <Share2 className="w-4 h-4" />
+                </button>
+              )}
+
+              {analysisData && videoUrl && !isAnalyzing && (
+                <button
+                  onClick={() => setShowPlaylists(true)}
+                  title="Playlists"
+                  className="p-3 rounded-lg border border-slate-700 bg-slate-900 text-slate-400 hover:text-emerald-400 hover:border-emerald-500/50 transition-colors"
+                >
+                  <ListVideo className="w-4 h-4" />
+                </button>
+              )}
+
+              {videoUrl && (
+                <button
+                  onClick={openProjector}
+                  title={projectorConnected ? "Presenter window (connected)" : "Open presenter window"}
+                  className={`p-3 rounded-lg border transition-colors ${projectorConnected ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-400' : 'border-slate-700 bg-slate-900 text-slate-400 hover:text-emerald-400 hover:border-emerald-500/50'}`}
+                >
+                  <MonitorPlay className="w-4 h-4" />
+                </button>
+              )}
+
+              {analysisData && videoUrl && !isAnalyzing && (
+                <button
+                  onClick={() => setShowReel(true)}
+                  title="Highlight Reel"
+                  className="p-3 rounded-lg border border-slate-700 bg-slate-900 text-slate-400 hover:text-emerald-400 hover:border-emerald-500/50 transition-colors"
+                >
+                  <Scissors className="w-4 h-4" />
+                </button>
+              )}
               
               <button 
-                onClick={runAnalysis}
+                onClick={() => setSetupMode('analyze')}
                 disabled={!file || isAnalyzing}
                 className={`
                   px-6 py-3 rounded-lg font-bold shadow-lg transition-all flex items-center gap-2 whitespace-nowrap text-sm
@@ -608,8 +1259,33 @@ export const VideoAnalyst: React.FC = () => {
                   </>
                 )}
               </button>
+
+              {isAnalyzing && (
+                <button
+                  onClick={cancelAnalysis}
+                  className="px-4 py-3 rounded-lg font-bold transition-all flex items-center gap-2 whitespace-nowrap text-sm bg-red-500/10 text-red-400 hover:bg-red-500/20 border border-red-500/50"
+                >
+                  <XCircle className="w-4 h-4" />
+                  CANCEL
+                </button>
+              )}
             </div>
 
+            {libraryNotice && (
+              <div className="text-xs text-blue-400 flex items-center gap-2">
+                 <Info className="w-3 h-3 shrink-0" />
+                 <span>{libraryNotice}</span>
+                 <button onClick={() => setShowLibrary(true)} className="underline hover:text-white whitespace-nowrap">Open Library</button>
+              </div>
+            )}
+
+            {projectorBlocked && (
+              <div className="text-xs text-yellow-500 flex items-center gap-2">
+                 <AlertTriangle className="w-3 h-3 shrink-0" />
+                 The presenter window was blocked. Allow popups for this site and try again.
+              </div>
+            )}
+
             {file && file.size > 20 * 1024 * 1024 && !isAnalyzing && (
               <div className="text-xs text-yellow-500 flex items-center gap-2">
                  <CloudUpload className="w-3 h-3" />
@@ -629,7 +1305,7 @@ export const VideoAnalyst: React.FC = () => {
                    </p>
                 )}
                 <div className="mt-3 pl-6 flex gap-3">
-                  <button onClick={runAnalysis} className="underline text-xs flex items-center gap-1 hover:text-white">
+                  <button onClick={() => runAnalysis()} className="underline text-xs flex items-center gap-1 hover:text-white">
                     <RefreshCw className="w-3 h-3" /> Try Again
                   </button>
                   {rawResponse && (
@@ -641,18 +1317,44 @@ export const VideoAnalyst: React.FC = () => {
               </div>
             )}
 
-            {analysisData && (
-              <div className="grid grid-cols-2 gap-4 mt-2">
-                <div className="bg-slate-900/50 p-3 rounded border border-slate-800">
-                  <span className="text-[10px] uppercase text-slate-500 font-bold block mb-1">Team A Formation</span>
-                  <span className="text-emerald-400 font-mono text-sm">{analysisData.formations?.team_a || "Unknown"}</span>
+            {analysisData && validationWarnings.length > 0 && (
+              <div className="p-4 bg-yellow-950/20 border border-yellow-500/30 text-yellow-400 rounded-lg text-sm">
+                <div className="flex items-center gap-2 font-bold mb-1">
+                  <AlertTriangle className="w-4 h-4" />
+                  Partial Result: {validationWarnings.length} field{validationWarnings.length === 1 ? '' : 's'} normalized
                 </div>
-                <div className="bg-slate-900/50 p-3 rounded border border-slate-800">
-                  <span className="text-[10px] uppercase text-slate-500 font-bold block mb-1">Team B Formation</span>
-                  <span className="text-emerald-400 font-mono text-sm">{analysisData.formations?.team_b || "Unknown"}</span>
+                <div className="mt-2 pl-6 flex gap-3">
+                  <button onClick={() => setShowWarnings(!showWarnings)} className="underline text-xs hover:text-white">
+                    {showWarnings ? "Hide Warnings" : "Show Warnings"}
+                  </button>
+                  {rawResponse && (
+                    <button onClick={() => setShowDebug(!showDebug)} className="underline text-xs hover:text-white">
+                       {showDebug ? "Hide Debug" : "Show Raw Response"}
+                    </button>
+                  )}
                 </div>
+                {showWarnings && (
+                  <ul className="mt-3 pl-6 space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+                    {validationWarnings.map((w, idx) => (
+                      <li key={idx} className="text-xs font-mono opacity-80 break-all">
+                        <span className="text-yellow-300">{w.path}</span>: {w.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             )}
+
+            {analysisData && (
+              <FormationBoard
+                analysis={analysisData}
+                currentVideoTime={currentVideoTime}
+                duration={videoDuration}
+                canEdit={canEdit}
+                onSeek={(seconds) => { if (videoRef.current) videoRef.current.currentTime = seconds; }}
+                onRecordChange={(formations, seconds) => applyEdit('change shape', a => recordFormationChange(a, seconds, formations, videoDuration))}
+              />
+            )}
           </div>
         </div>
       </div>
@@ -685,8 +1387,56 @@ export const VideoAnalyst: React.FC = () => {
           >
             <Users className="w-3.5 h-3.5" /> Players
           </button>
+          <button 
+            onClick={() => setActiveTab('stats')}
+            className={`flex-1 py-4 text-xs font-bold uppercase tracking-wider flex items-center justify-center gap-2 transition-colors
+              ${activeTab === 'stats' ? 'bg-slate-800/80 text-emerald-400 border-b-2 border-emerald-500' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-900/50'}
+            `}
+          >
+            <BarChart2 className="w-3.5 h-3.5" /> Stats
+          </button>
         </div>
 
+        {/* Edit toolbar */}
+        {canEdit && (
+          <div className="flex items-center gap-1 px-3 py-1.5 border-b border-slate-800 bg-slate-900/40 text-[10px] font-mono">
+            <button
+              onClick={() => stepHistory('undo')}
+              disabled={editHistory.undo.length === 0}
+              title={editHistory.undo.length ? `Undo ${editHistory.undo[editHistory.undo.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+              className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent"
+            >
+              <Undo2 className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => stepHistory('redo')}
+              disabled={editHistory.redo.length === 0}
+              title={editHistory.redo.length ? `Redo ${editHistory.redo[editHistory.redo.length - 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent"
+            >
+              <Redo2 className="w-3.5 h-3.5" />
+            </button>
+            {editedCount > 0 && <span className="text-amber-300/80 ml-1">{editedCount} CORRECTED</span>}
+            {activeSession?.originalAnalysis && editedCount > 0 && (
+              <button
+                onClick={() => applyEdit('revert to AI version', current => revertToOriginal(current, activeSession.originalAnalysis!))}
+                title="Restore the AI output (undoable)"
+                className="ml-1 flex items-center gap-1 text-slate-500 hover:text-white px-1.5 py-1 rounded hover:bg-slate-800"
+              >
+                <RotateCcw className="w-3 h-3" /> REVERT
+              </button>
+            )}
+            {activeTab !== 'stats' && (
+              <button
+                onClick={() => setEditing({ key: tabListKey, index: 'new' })}
+                className="ml-auto flex items-center gap-1 font-bold text-emerald-400 hover:text-emerald-300 px-2 py-1 rounded hover:bg-emerald-500/10"
+              >
+                <Plus className="w-3.5 h-3.5" /> ADD {activeTab === 'tactics' ? 'INSIGHT' : activeTab === 'players' ? 'PLAYER ACTION' : 'EVENT'}
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Content */}
         <div className="flex-1 overflow-hidden relative">
           {showDebug && (
@@ -705,18 +1455,35 @@ export const VideoAnalyst: React.FC = () => {
               </div>
             )}
 
-            {isAnalyzing && (
+            {isAnalyzing && analysisData && (
+              <div className="bg-[#0f1422] border-b border-slate-800 px-5 py-3">
+                <div className="flex items-center gap-2 text-[10px] font-mono">
+                  <Loader2 className={`w-3 h-3 animate-spin shrink-0 ${retryCount > 0 ? 'text-yellow-500' : 'text-emerald-400'}`} />
+                  <span className={`uppercase font-bold truncate ${retryCount > 0 ? 'text-yellow-500' : 'text-emerald-400'}`}>{loadingStage}</span>
+                  <span className="ml-auto text-slate-500 whitespace-nowrap">
+                    STREAMING: {analysisData.events.length} EVT / {analysisData.tactical_insights.length} TAC / {analysisData.player_analysis.length} PLR
+                  </span>
+                </div>
+                {shownProgress !== null && (
+                  <div className="h-0.5 w-full bg-slate-800 rounded-full overflow-hidden mt-2">
+                    <div className="h-full bg-emerald-500 transition-all duration-500" style={{ width: `${shownProgress}%` }} />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {isAnalyzing && !analysisData && (
               <div className="h-full flex flex-col items-center justify-center text-center px-8">
                 <div className="w-full max-w-[240px] mb-6">
                    <div className="h-2 w-full bg-slate-800 rounded-full overflow-hidden mb-2">
                      <div 
-                       className={`h-full bg-emerald-500 rounded-full transition-all duration-500 ease-out ${retryCount > 0 ? 'bg-yellow-500' : ''}`}
-                       style={{ width: `${progress}%` }}
+                       className={`h-full bg-emerald-500 rounded-full transition-all duration-500 ease-out ${retryCount > 0 ? 'bg-yellow-500' : ''} ${shownProgress === null ? 'animate-pulse opacity-40' : ''}`}
+                       style={{ width: `${shownProgress ?? 100}%` }}
                      />
                    </div>
                    <div className="flex justify-between text-[10px] font-mono text-emerald-500">
-                     <span>{Math.round(progress)}%</span>
-                     <span className="animate-pulse">{retryCount > 0 ? "RETRYING" : "THINKING"}</span>
+                     <span>{shownProgress === null ? '--' : `${Math.round(shownProgress)}%`}</span>
+                     <span className="animate-pulse">{retryCount > 0 ? "RETRYING" : progress !== null ? "UPLOADING" : "THINKING"}</span>
                    </div>
                 </div>
                 <div className="space-y-2">
@@ -725,6 +1492,22 @@ export const VideoAnalyst: React.FC = () => {
                   </h3>
                   <p className="text-xs text-slate-500">Processing thousands of tactical possibilities...</p>
                 </div>
+                {segmentStatuses.length > 0 && (
+                  <div className="mt-6 w-full max-w-[320px] space-y-1.5 text-left">
+                    {segmentStatuses.map(seg => (
+                      <div key={seg.index} className="flex items-center gap-2 text-[10px] font-mono bg-slate-900/50 border border-slate-800 rounded px-2 py-1.5">
+                        {seg.state === 'done' && <CheckCircle className="w-3 h-3 text-emerald-500 shrink-0" />}
+                        {seg.state === 'failed' && <AlertCircle className="w-3 h-3 text-red-500 shrink-0" />}
+                        {(seg.state === 'running' || seg.state === 'retrying') && <Loader2 className={`w-3 h-3 animate-spin shrink-0 ${seg.state === 'retrying' ? 'text-yellow-500' : 'text-emerald-400'}`} />}
+                        {seg.state === 'pending' && <Clock className="w-3 h-3 text-slate-600 shrink-0" />}
+                        <span className="text-slate-400">{formatTimestamp(seg.start)}-{formatTimestamp(seg.end)}</span>
+                        <span className={`ml-auto uppercase truncate ${seg.state === 'failed' ? 'text-red-400' : seg.state === 'retrying' ? 'text-yellow-500' : 'text-slate-500'}`}>
+                          {seg.detail || seg.state}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
 
@@ -732,58 +1515,74 @@ export const VideoAnalyst: React.FC = () => {
             {analysisData && activeTab === 'events' && (
               <div className="space-y-0">
                  <div className="bg-slate-900/30 p-5 border-b border-slate-800 backdrop-blur-sm sticky top-0 z-10">
-                    <div className="mb-6">
-                      <div className="flex justify-between items-end mb-2">
-                         <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Match Rhythm</h4>
-                         <span className="text-[10px] font-mono text-slate-600">DURATION: {Math.floor(videoDuration/60)}:{(videoDuration%60).toFixed(0).padStart(2,'0')}</span>
-                      </div>
-                      <div className="h-12 relative w-full bg-slate-900 rounded border border-slate-800/50 flex items-center px-2">
-                        <div className="absolute left-2 right-2 h-0.5 bg-slate-800"></div>
-                        {analysisData.events.map((evt, i) => {
-                          const pct = videoDuration > 0 ? (evt.seconds / videoDuration) * 100 : 0;
-                          return (
-                            <div 
-                              key={i}
-                              onClick={() => jumpToTime(evt.seconds)}
-                              className="absolute w-3 h-3 rounded-full border-2 border-[#0f1422] cursor-pointer hover:scale-150 transition-transform group z-10"
-                              style={{ 
-                                left: `${pct}%`, 
-                                backgroundColor: getEventColor(evt.type),
-                                transform: 'translateX(-50%)'
-                              }}
-                            />
-                          );
-                        })}
-                        <div 
-                          className="absolute top-0 bottom-0 w-0.5 bg-white z-20 pointer-events-none"
-                          style={{ left: `${(currentVideoTime / (videoDuration || 1)) * 100}%` }}
-                        ></div>
-                      </div>
-                    </div>
+                    <MatchTimeline
+                      analysis={analysisData}
+                      duration={videoDuration}
+                      currentVideoTime={currentVideoTime}
+                      sprites={spriteSheet}
+                      spriteProgress={spriteProgress}
+                      isHighlighted={eventShown}
+                      selection={eventFilter?.start !== undefined && eventFilter.end !== undefined ? { start: eventFilter.start, end: eventFilter.end } : null}
+                      onSelectRange={(range) => setEventFilter({ label: `Range ${formatTimestamp(range.start)}–${formatTimestamp(range.end)}`, ...range })}
+                      onSeek={jumpToTime}
+                    />
                  </div>
 
                  <div className="p-4 space-y-2">
-                   {analysisData.events?.map((event, idx) => (
+                   {eventFilter && (
+                     <FilterChip label={eventFilter.label} count={analysisData.events.filter(eventShown).length} onClear={() => setEventFilter(null)} />
+                   )}
+                   {isEditing('events', 'new') && (
+                     <EventEditor
+                       setup={analysisData.setup}
+                       currentVideoTime={currentVideoTime}
+                       onSave={(event) => applyEdit('add event', a => addItem(a, 'events', event))}
+                       onCancel={() => setEditing(null)}
+                     />
+                   )}
+                   {analysisData.events?.map((event, idx) => !eventShown(event) ? null : isEditing('events', idx) ? (
+                     <EventEditor
+                       key={idx}
+                       event={event}
+                       setup={analysisData.setup}
+                       currentVideoTime={currentVideoTime}
+                       onSave={(updated) => applyEdit('edit event', a => updateItem(a, 'events', idx, updated))}
+                       onCancel={() => setEditing(null)}
+                     />
+                   ) : (
                     <div 
                       key={idx}
+                      data-search-item={`events-${idx}`}
                       onClick={() => jumpToTime(event.seconds)}
                       className={`
                         group p-3 rounded-lg border cursor-pointer transition-all duration-200
                         ${Math.abs(currentVideoTime - event.seconds) < 3
                           ? 'bg-emerald-900/10 border-emerald-500/30' 
                           : 'bg-slate-900/20 border-slate-800 hover:bg-slate-800 hover:border-slate-700'}
+                        ${isHighlighted('events', idx) ? 'ring-2 ring-amber-400/70' : ''}
                       `}
                     >
                       <div className="flex items-start gap-3">
                         <div className="mt-0.5">{getEventIcon(event.type)}</div>
                         <div className="flex-1 min-w-0">
                           <div className="flex justify-between items-center mb-1">
-                            <span className={`text-xs font-bold uppercase ${Math.abs(currentVideoTime - event.seconds) < 3 ? 'text-emerald-400' : 'text-slate-300'}`}>
+                            <span className={`text-xs font-bold uppercase flex items-center gap-2 ${Math.abs(currentVideoTime - event.seconds) < 3 ? 'text-emerald-400' : 'text-slate-300'}`}>
                               {event.type}
+                              <EditedBadge provenance={event.provenance} />
                             </span>
-                            <span className="text-[10px] font-mono text-slate-500 bg-slate-950 px-1.5 py-0.5 rounded border border-slate-800">
-                              {event.timestamp}
-                            </span>
+                            <div className="flex items-center gap-1">
+                              {canEdit && (
+                                <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+                                  <ItemActions
+                                    onEdit={() => setEditing({ key: 'events', index: idx })}
+                                    onDelete={() => applyEdit('delete event', a => removeItem(a, 'events', idx))}
+                                  />
+                                </div>
+                              )}
+                              <span className="text-[10px] font-mono text-slate-500 bg-slate-950 px-1.5 py-0.5 rounded border border-slate-800">
+                                {event.timestamp}
+                              </span>
+                            </div>
                           </div>
                           <p className="text-xs text-slate-400 leading-snug group-hover:text-slate-300 truncate">
                             {event.description}
@@ -806,36 +1605,74 @@ export const VideoAnalyst: React.FC = () => {
                    </div>
                  )}
                  
-                 {analysisData.player_analysis?.map((player, idx) => (
-                   <div key={idx} className="bg-slate-900/40 border border-slate-800 rounded-lg p-4 hover:border-emerald-500/30 transition-colors">
+                 {playerFilter && (
+                   <FilterChip label={playerFilter} count={analysisData.player_analysis.filter(playerShown).length} onClear={() => setPlayerFilter(null)} />
+                 )}
+
+                 {isEditing('player_analysis', 'new') && (
+                   <PlayerEditor
+                     currentVideoTime={currentVideoTime}
+                     onSave={(player) => applyEdit('add player action', a => addItem(a, 'player_analysis', player))}
+                     onCancel={() => setEditing(null)}
+                   />
+                 )}
+                 
+                 {analysisData.player_analysis?.map((player, idx) => !playerShown(player) ? null : isEditing('player_analysis', idx) ? (
+                   <PlayerEditor
+                     key={idx}
+                     player={player}
+                     currentVideoTime={currentVideoTime}
+                     onSave={(updated) => applyEdit('edit player action', a => updateItem(a, 'player_analysis', idx, updated))}
+                     onCancel={() => setEditing(null)}
+                   />
+                 ) : (
+                   <div key={idx} data-search-item={`player_analysis-${idx}`} className={`group bg-slate-900/40 border border-slate-800 rounded-lg p-4 hover:border-emerald-500/30 transition-colors ${isHighlighted('player_analysis', idx) ? 'ring-2 ring-amber-400/70' : ''}`}>
                      <div className="flex justify-between items-start mb-2">
                        <div className="flex items-center gap-2">
                          <div className="bg-slate-800 p-1.5 rounded text-emerald-500">
                            <Users className="w-4 h-4" />
                          </div>
                          <div>
-                           <h4 className="font-bold text-sm text-white">{player.player}</h4>
+                           <h4 className="font-bold text-sm text-white" title={player.roster_id ? `Reported as "${player.player}"` : undefined}>
+                             {playerName(player, analysisData.setup)}
+                           </h4>
                            <span className="text-[10px] text-slate-500 uppercase tracking-wider font-semibold">{player.action_type}</span>
                          </div>
                        </div>
-                       {player.impact === 'High' && (
-                         <span className="text-[10px] font-bold bg-emerald-500/10 text-emerald-400 px-2 py-0.5 rounded border border-emerald-500/20">
-                           HIGH IMPACT
-                         </span>
-                       )}
+                       <div className="flex items-center gap-2">
+                         {canEdit && (
+                           <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+                             <ItemActions
+                               onEdit={() => setEditing({ key: 'player_analysis', index: idx })}
+                               onDelete={() => applyEdit('delete player action', a => removeItem(a, 'player_analysis', idx))}
+                             />
+                           </div>
+                         )}
+                         <EditedBadge provenance={player.provenance} />
+                         {player.impact === 'High' && (
+                           <span className="text-[10px] font-bold bg-emerald-500/10 text-emerald-400 px-2 py-0.5 rounded border border-emerald-500/20">
+                             HIGH IMPACT
+                           </span>
+                         )}
+                       </div>
                      </div>
                      <p className="text-sm text-slate-300 mb-3 leading-relaxed">
                        {player.description}
                      </p>
+                     {canEdit && hasRoster && (
+                       <div className="mb-3">
+                         <PlayerAssign
+                           setup={analysisData.setup!}
+                           rosterId={player.roster_id}
+                           onAssign={(rosterId) => applyEdit('assign player', a => assignPlayer(a, idx, rosterId))}
+                         />
+                       </div>
+                     )}
                      {player.time_start && (
                        <div className="flex items-center gap-2 text-[10px] text-slate-500 font-mono bg-slate-950/50 inline-flex px-2 py-1 rounded cursor-pointer hover:bg-slate-800 hover:text-white transition-colors"
                           onClick={() => {
-                             // Simple duration parsing MM:SS to seconds
-                             const parts = player.time_start?.split(':');
-                             if (parts && parts.length === 2) {
-                               const sec = parseInt(parts[0]) * 60 + parseInt(parts[1]);
-                               jumpToTime(sec);
-                             }
+                             const sec = parseTimestamp(player.time_start);
+                             if (sec !== null) jumpToTime(sec);
                           }}
                        >
                          <Clock className="w-3 h-3" />
@@ -847,14 +1684,51 @@ export const VideoAnalyst: React.FC = () => {
               </div>
             )}
 
+            {/* STATS TAB */}
+            {analysisData && activeTab === 'stats' && (
+              <MatchStats
+                analysis={analysisData}
+                duration={videoDuration}
+                currentVideoTime={currentVideoTime}
+                onFilterEvents={showEvents}
+                onFilterPlayer={showPlayer}
+              />
+            )}
+
             {/* TACTICS TAB */}
             {analysisData && activeTab === 'tactics' && (
               <div className="space-y-6 p-5">
-                {analysisData.tactical_insights?.map((insight, idx) => (
+                {isEditing('tactical_insights', 'new') && (
+                  <InsightEditor
+                    currentVideoTime={currentVideoTime}
+                    onSave={(insight) => applyEdit('add insight', a => addItem(a, 'tactical_insights', insight))}
+                    onCancel={() => setEditing(null)}
+                  />
+                )}
+                {analysisData.tactical_insights?.map((insight, idx) => isEditing('tactical_insights', idx) ? (
+                  <InsightEditor
+                    key={idx}
+                    insight={insight}
+                    currentVideoTime={currentVideoTime}
+                    onSave={(updated) => applyEdit('edit insight', a => updateItem(a, 'tactical_insights', idx, updated))}
+                    onCancel={() => setEditing(null)}
+                  />
+                ) : (
                   <InsightCard 
                     key={idx} 
+                    index={idx}
                     insight={insight} 
                     videoRef={videoRef}
+                    loadFrame={loadFrame}
+                    highlighted={isHighlighted('tactical_insights', idx)}
+                    telestrations={analysisData.telestrations}
+                    teamColors={teamColors(analysisData.setup)}
+                    actions={canEdit && (
+                      <ItemActions
+                        onEdit={() => setEditing({ key: 'tactical_insights', index: idx })}
+                        onDelete={() => applyEdit('delete insight', a => removeItem(a, 'tactical_insights', idx))}
+                      />
+                    )}
                   />
                 ))}
               </div>
@@ -863,6 +1737,81 @@ export const VideoAnalyst: React.FC = () => {
         </div>
       </div>
 
+      {setupMode && (
+        <MatchSetupForm
+          initial={analysisData?.setup ?? matchSetup ?? loadLastSetup() ?? DEFAULT_SETUP}
+          mode={setupMode}
+          onSubmit={(setup) => {
+            saveLastSetup(setup);
+            setMatchSetup(setup);
+            setSetupMode(null);
+            if (setupMode === 'analyze') void runAnalysis(setup);
+            else applyEdit('edit match setup', a => applySetup(a, setup));
+          }}
+          onSkip={setupMode === 'analyze' ? () => { setMatchSetup(null); setSetupMode(null); void runAnalysis(null); } : undefined}
+          onClose={() => setSetupMode(null)}
+        />
+      )}
+
+      {showLibrary && (
+        <MatchLibrary
+          activeSessionId={activeSession?.id ?? null}
+          onOpen={openSession}
+          onClose={() => setShowLibrary(false)}
+          onDeleted={(id) => { if (activeSession?.id === id) setActiveSession(null); }}
+          onRenamed={(renamed) => setActiveSession(prev =>
+            prev?.id === renamed.id ? { ...prev, title: renamed.title, tags: renamed.tags, updatedAt: renamed.updatedAt } : prev
+          )}
+        />
+      )}
+
+      {showSearch && (
+        <AnalysisSearch
+          analysis={analysisData}
+          onOpen={openSearchHit}
+          onClose={() => setShowSearch(false)}
+        />
+      )}
+
+      {showPlaylists && analysisData && videoUrl && (
+        <PlaylistPanel
+          analysis={analysisData}
+          duration={videoDuration}
+          onEdit={applyEdit}
+          onPreview={(item) => { setShowPlaylists(false); jumpToTime(item.start); }}
+          onPresent={(playlist) => { setShowPlaylists(false); setIsDrawing(false); setPresenting(playlist); }}
+          onClose={() => setShowPlaylists(false)}
+        />
+      )}
+
+      {showReport && analysisData && (
+        <CoachingReport
+          analysis={analysisData}
+          title={activeSession?.title ?? file?.name ?? "Match Analysis"}
+          videoUrl={videoUrl}
+          onClose={() => setShowReport(false)}
+        />
+      )}
+
+      {showExport && analysisData && (
+        <TimelineExport
+          analysis={analysisData}
+          title={activeSession?.title ?? file?.name ?? "timeline"}
+          duration={videoDuration}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {showReel && analysisData && videoUrl && (
+        <HighlightReel
+          analysis={analysisData}
+          title={activeSession?.title ?? file?.name ?? "highlights"}
+          videoUrl={videoUrl}
+          videoRef={videoRef}
+          duration={videoDuration}
+          onClose={() => setShowReel(false)}
+        />
+      )}
     </div>
   );
 };
@@ -2,8 +2,7 @@ import React, { useEffect, useRef, useState } from 'react';
 import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
 import { Mic, MicOff, Volume2, XCircle, Activity } from 'lucide-react';
 import { createPcmBlob, decodeAudioData, b64ToUint8Array } from '../utils/audio';
-
-const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-09-2025';
+import { createLiveToken, PROXY_MODELS } from '../utils/geminiProxy';
 
 export const VoiceAgent: React.FC = () => {
   const [isActive, setIsActive] = useState(false);
@@ -52,17 +51,15 @@ export const VoiceAgent: React.FC = () => {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       setStatus("Connecting to Gemini Live...");
 
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      // The proxy hands out a single-use token; voice and instructions are locked into it
+      const { token } = await createLiveToken();
+      const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
       
       // Setup Connection
       const sessionPromise = ai.live.connect({
-        model: MODEL_NAME,
+        model: PROXY_MODELS.live,
         config: {
           responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
-          },
-          systemInstruction: "You are a helpful, energetic sports commentator and assistant. Keep responses concise.",
         },
         callbacks: {
           onopen: () => {
@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { ProjectorView } from './components/ProjectorView';
+import { isProjectorWindow } from './utils/projectorSync';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,6 +12,6 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isProjectorWindow() ? <ProjectorView /> : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
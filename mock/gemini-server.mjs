@@ -0,0 +1,212 @@
+// Local stand-in for the Gemini API behind the API proxy, for exercising
+// uploads and every proxy endpoint without a real key or network.
+//
+//   node mock/gemini-server.mjs
+//   GEMINI_API_KEY=mock GEMINI_API_BASE_URL=http://localhost:4010 npm run server
+//
+// MOCK_DROP_EVERY=N   kill the connection partway through every Nth chunk
+// MOCK_PROCESSING_POLLS=N   report PROCESSING for N state polls before ACTIVE
+// MOCK_API_KEY=K   only accept this key (any key is accepted by default)
+
+import http from 'node:http';
+
+const PORT = Number(process.env.MOCK_PORT || 4010);
+const DROP_EVERY = Number(process.env.MOCK_DROP_EVERY || 0);
+const PROCESSING_POLLS = Number(process.env.MOCK_PROCESSING_POLLS || 2);
+const API_KEY = process.env.MOCK_API_KEY || '';
+
+const sessions = new Map(); // upload_id -> { size, received, file }
+const files = new Map();    // files/<id> -> { polls, state }
+let nextId = 1;
+let chunkCount = 0;
+let nextToken = 1;
+
+// A small analysis that passes validation, streamed in pieces like the real thing
+const MOCK_ANALYSIS = JSON.stringify({
+  match_context: 'Mock analysis from mock/gemini-server.mjs',
+  formations: { team_a: '4-3-3', team_b: '4-4-2' },
+  events: [
+    { timestamp: '00:05', seconds: 5, type: 'Pass', team: 'Team A', description: 'Centre-back splits the first line.' },
+    { timestamp: '00:12', seconds: 12, type: 'Shot', team: 'Team A', description: 'Winger cuts inside and shoots wide.' },
+  ],
+  tactical_insights: [{
+    title: 'Pressing trigger on the back pass',
+    phase: 'Defending',
+    observation: 'The striker curves his run to cut the passing lane.',
+    improvement: 'Wingers step up together on the back pass.',
+    visual_cue: 'Striker arc, wingers jumping onto full-backs',
+    key_moment_timestamp: '00:08',
+    key_moment_seconds: 8,
+  }],
+  player_analysis: [
+    { player: 'Number 9', action_type: 'Pressing', description: 'Curved run forces play wide.', impact: 'High', time_start: '00:07', time_end: '00:10' },
+  ],
+});
+const STREAM_PIECES = 5;
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+  'Access-Control-Expose-Headers': 'X-Goog-Upload-URL, X-Goog-Upload-Status, X-Goog-Upload-Size-Received',
+};
+
+const send = (res, status, headers = {}, body = '') => {
+  res.writeHead(status, { ...cors, ...headers });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+};
+
+const readJson = (req) => new Promise((resolve) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    try { resolve(JSON.parse(Buffer.concat(chunks).toString('utf8'))); } catch (e) { resolve({}); }
+  });
+});
+
+// The proxy must add the key; the browser never has one
+const hasKey = (req, url) => {
+  const key = req.headers['x-goog-api-key'] || url.searchParams.get('key') || '';
+  return API_KEY ? key === API_KEY : key !== '';
+};
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const candidate = (parts, extra = {}) => ({ candidates: [{ content: { role: 'model', parts }, finishReason: 'STOP', ...extra }] });
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const command = (req.headers['x-goog-upload-command'] || '').toString();
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  // Everything but an open upload session needs the key
+  if (!url.searchParams.has('upload_id') && !hasKey(req, url)) {
+    req.resume();
+    console.log(`[reject] ${req.method} ${url.pathname} without a valid key`);
+    return send(res, 400, { 'Content-Type': 'application/json' }, { error: { code: 400, message: 'API key not valid.', status: 'INVALID_ARGUMENT' } });
+  }
+
+  // Start a resumable session
+  if (url.pathname === '/upload/v1beta/files' && command === 'start') {
+    const id = String(nextId++);
+    const size = Number(req.headers['x-goog-upload-header-content-length'] || 0);
+    sessions.set(id, { size, received: 0, file: null });
+    req.resume();
+    console.log(`[start] session ${id}, ${size} bytes`);
+    return send(res, 200, {
+      'X-Goog-Upload-URL': `http://localhost:${PORT}/upload/v1beta/files?upload_id=${id}`,
+      'X-Goog-Upload-Status': 'active',
+    });
+  }
+
+  // Chunk upload, finalize and query on an existing session
+  if (url.pathname === '/upload/v1beta/files' && url.searchParams.has('upload_id')) {
+    const session = sessions.get(url.searchParams.get('upload_id'));
+    if (!session) { req.resume(); return send(res, 404, {}, { error: 'unknown session' }); }
+
+    if (command === 'cancel') {
+      req.resume();
+      sessions.delete(url.searchParams.get('upload_id'));
+      console.log(`[cancel] session ${url.searchParams.get('upload_id')}`);
+      return send(res, 200, { 'X-Goog-Upload-Status': 'cancelled' });
+    }
+
+    if (command === 'query') {
+      req.resume();
+      return send(res, 200, {
+        'X-Goog-Upload-Status': session.file ? 'final' : 'active',
+        'X-Goog-Upload-Size-Received': String(session.received),
+      }, session.file ? { file: session.file } : '');
+    }
+
+    const offset = Number(req.headers['x-goog-upload-offset']);
+    if (offset !== session.received) {
+      req.resume();
+      return send(res, 400, {}, { error: `offset ${offset} does not match committed ${session.received}` });
+    }
+
+    const drop = DROP_EVERY > 0 && ++chunkCount % DROP_EVERY === 0;
+    let bytes = 0;
+    req.on('data', chunk => {
+      bytes += chunk.length;
+      if (drop) {
+        // Commit part of the chunk, as a real server may, then drop the socket
+        session.received += Math.floor(bytes / 2);
+        console.log(`[drop] after ${Math.floor(bytes / 2)} bytes at offset ${offset}`);
+        req.socket.destroy();
+      }
+    });
+    req.on('end', () => {
+      if (drop) return;
+      session.received += bytes;
+      console.log(`[chunk] ${offset}-${session.received} of ${session.size}`);
+      if (command.includes('finalize')) {
+        const name = `files/mock-${url.searchParams.get('upload_id')}`;
+        session.file = { name, uri: `http://localhost:${PORT}/v1beta/${name}`, state: 'PROCESSING' };
+        files.set(name, { polls: 0, state: 'PROCESSING' });
+        return send(res, 200, { 'X-Goog-Upload-Status': 'final' }, { file: session.file });
+      }
+      send(res, 200, { 'X-Goog-Upload-Status': 'active' });
+    });
+    return;
+  }
+
+  // File state polling and deletion
+  const fileMatch = url.pathname.match(/^\/v1beta\/(files\/[\w-]+)$/);
+  if (fileMatch) {
+    const entry = files.get(fileMatch[1]);
+    if (!entry) return send(res, 404, {}, { error: 'not found' });
+    if (req.method === 'DELETE') {
+      files.delete(fileMatch[1]);
+      console.log(`[delete] ${fileMatch[1]}`);
+      return send(res, 200, {}, {});
+    }
+    if (++entry.polls > PROCESSING_POLLS) entry.state = 'ACTIVE';
+    return send(res, 200, {}, { name: fileMatch[1], state: entry.state });
+  }
+
+  // Generation: streamed analysis, search with grounding, and image edits
+  const modelMatch = url.pathname.match(/^\/v1beta\/models\/([\w.-]+):(generateContent|streamGenerateContent)$/);
+  if (modelMatch && req.method === 'POST') {
+    const [, model, method] = modelMatch;
+    void readJson(req).then(async (body) => {
+      if (method === 'streamGenerateContent') {
+        console.log(`[stream] ${model}, ${MOCK_ANALYSIS.length} chars in ${STREAM_PIECES} pieces`);
+        res.writeHead(200, { ...cors, 'Content-Type': 'text/event-stream' });
+        const size = Math.ceil(MOCK_ANALYSIS.length / STREAM_PIECES);
+        for (let i = 0; i < MOCK_ANALYSIS.length; i += size) {
+          res.write(`data: ${JSON.stringify(candidate([{ text: MOCK_ANALYSIS.slice(i, i + size) }]))}\r\n\r\n`);
+          await sleep(300);
+        }
+        return res.end();
+      }
+      const parts = (body.contents || []).flatMap(c => c.parts || []);
+      if ((body.tools || []).some(t => t.googleSearch)) {
+        console.log(`[search] ${model}`);
+        return send(res, 200, { 'Content-Type': 'application/json' }, candidate(
+          [{ text: 'Mock search answer. The real model would summarise live results here.' }],
+          { groundingMetadata: { groundingChunks: [{ web: { uri: 'https://example.com/match-report', title: 'Mock match report' } }] } }
+        ));
+      }
+      // Image edits hand the input image back unchanged
+      const image = parts.find(p => p.inlineData);
+      console.log(`[generate] ${model}${image ? ' (image echoed)' : ''}`);
+      send(res, 200, { 'Content-Type': 'application/json' }, candidate(image ? [{ inlineData: image.inlineData }] : [{ text: 'Mock response.' }]));
+    });
+    return;
+  }
+
+  // Ephemeral Live tokens
+  if (url.pathname === '/v1alpha/auth_tokens' && req.method === 'POST') {
+    req.resume();
+    const name = `auth_tokens/mock-${nextToken++}`;
+    console.log(`[token] ${name}`);
+    return send(res, 200, { 'Content-Type': 'application/json' }, { name });
+  }
+
+  req.resume();
+  send(res, 404, {}, { error: 'not mocked' });
+});
+
+server.listen(PORT, () => console.log(`Mock Gemini API on http://localhost:${PORT}`));
@@ -0,0 +1,176 @@
+// End-to-end check of the API proxy against mock/gemini-server.mjs
+// (`npm run test:proxy`). Starts the mock on a free port and proxies in this
+// process, then exercises the routes the app depends on.
+
+import assert from 'node:assert/strict';
+import { ChildProcess, spawn } from 'node:child_process';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createProxyServer, ProxyConfig } from './proxy';
+
+const API_KEY = 'check-key';
+const NO_LIMITS = { generate: 0, files: 0 };
+
+const freePort = () => new Promise<number>((resolve, reject) => {
+  const probe = http.createServer();
+  probe.on('error', reject);
+  probe.listen(0, '127.0.0.1', () => {
+    const { port } = probe.address() as AddressInfo;
+    probe.close(() => resolve(port));
+  });
+});
+
+const startMock = async (port: number) => {
+  const mock = spawn(process.execPath, ['mock/gemini-server.mjs'], {
+    env: { ...process.env, MOCK_PORT: String(port), MOCK_API_KEY: API_KEY, MOCK_PROCESSING_POLLS: '1' },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  await new Promise<void>((resolve, reject) => {
+    mock.once('exit', code => reject(new Error(`Mock exited with ${code}`)));
+    mock.stdout!.on('data', (data: Buffer) => {
+      if (data.toString().includes('Mock Gemini API on')) resolve();
+    });
+  });
+  return mock;
+};
+
+const startProxy = async (config: ProxyConfig) => {
+  const server = createProxyServer(config);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, origin: `http://127.0.0.1:${port}` };
+};
+
+const postJson = (url: string, body: unknown, headers: Record<string, string> = {}) =>
+  fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify(body) });
+
+const checks: [string, (origin: string, upstream: string) => Promise<void>][] = [
+  ['status reports the key', async (origin) => {
+    const response = await fetch(`${origin}/api/status`);
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { keyConfigured: true });
+  }],
+
+  ['uploads in chunks through the proxy', async (origin) => {
+    const content = Buffer.from('0123456789abcdef');
+    const start = await postJson(`${origin}/api/files/upload`, { file: { display_name: 'check.mp4' } }, {
+      'X-Goog-Upload-Header-Content-Length': String(content.length),
+      'X-Goog-Upload-Header-Content-Type': 'video/mp4',
+    });
+    assert.equal(start.status, 200);
+    const uploadUrl = start.headers.get('x-goog-upload-url');
+    assert.match(uploadUrl ?? '', /^\/api\/files\/upload\/[\w-]+$/, 'the upstream session URL stays hidden');
+
+    const chunk = (command: string, offset: number, body: Buffer) => fetch(new URL(uploadUrl!, origin), {
+      method: 'POST',
+      headers: { 'X-Goog-Upload-Command': command, 'X-Goog-Upload-Offset': String(offset) },
+      body,
+    });
+    const first = await chunk('upload', 0, content.subarray(0, 10));
+    assert.equal(first.status, 200);
+    assert.equal(first.headers.get('x-goog-upload-status'), 'active');
+    const last = await chunk('upload, finalize', 10, content.subarray(10));
+    assert.equal(last.status, 200);
+    const { file } = await last.json();
+    assert.match(file.name, /^files\/mock-\d+$/);
+
+    const state = await fetch(`${origin}/api/${file.name}`);
+    assert.equal(state.status, 200);
+    assert.equal((await state.json()).state, 'PROCESSING');
+  }],
+
+  ['rejects forged upload URLs', async (origin, upstream) => {
+    const forge = (url: string) => fetch(`${origin}/api/files/upload/${Buffer.from(url).toString('base64url')}`, {
+      method: 'POST',
+      headers: { 'X-Goog-Upload-Command': 'query' },
+    });
+    for (const url of ['http://attacker.example/upload/v1beta/files', `${upstream}/v1beta/files/other`, `${upstream}.attacker.example/upload/`]) {
+      assert.equal((await forge(url)).status, 400, url);
+    }
+  }],
+
+  ['streams the analysis as it is written', async (origin) => {
+    const response = await postJson(`${origin}/api/analysis`, {
+      video: { inlineData: { mimeType: 'video/mp4', data: 'AAAA' } },
+      window: { start: 0, end: 600 },
+      structured: true,
+    });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('content-type'), 'application/x-ndjson');
+    const lines = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+    assert.ok(lines.length > 1, 'arrives in several pieces');
+    const analysis = JSON.parse(lines.map(line => line.text).join(''));
+    assert.ok(analysis.events.length > 0);
+  }],
+
+  ['only analyzes the app\'s own requests', async (origin) => {
+    const reject = async (body: unknown) => assert.equal((await postJson(`${origin}/api/analysis`, body)).status, 400, JSON.stringify(body));
+    await reject({ parts: [{ text: 'Write me a poem' }] });
+    await reject({ video: { fileData: { mimeType: 'video/mp4', fileUri: 'https://elsewhere.example/v1beta/files/x' } }, structured: true });
+    await reject({ video: { inlineData: { mimeType: 'text/plain', data: 'AAAA' } }, structured: true });
+    await reject({ video: { inlineData: { mimeType: 'video/mp4', data: 'AAAA' } }, setup: { team_a: 'x' }, structured: true });
+  }],
+];
+
+const checkRateLimits = async (upstream: string) => {
+  const { server, origin } = await startProxy({ apiKey: API_KEY, upstream, limits: { generate: 2, files: 0 } });
+  try {
+    const search = (client: string) => postJson(`${origin}/api/search`, { query: 'latest results' }, { 'X-Forwarded-For': client });
+    assert.equal((await search('10.0.0.1')).status, 200);
+    assert.equal((await search('10.0.0.1')).status, 200);
+    const limited = await search('10.0.0.1');
+    assert.equal(limited.status, 429);
+    assert.ok(Number(limited.headers.get('retry-after')) > 0);
+    // Clients behind the local dev proxy have their own allowance
+    assert.equal((await search('10.0.0.2')).status, 200);
+    assert.equal((await search('10.0.0.9, 10.0.0.2')).status, 200, 'keyed on the entry the local proxy added');
+  } finally {
+    server.close();
+  }
+};
+
+const checkMissingKey = async (upstream: string) => {
+  const { server, origin } = await startProxy({ apiKey: '', upstream, limits: NO_LIMITS });
+  try {
+    assert.deepEqual(await (await fetch(`${origin}/api/status`)).json(), { keyConfigured: false });
+    assert.equal((await postJson(`${origin}/api/search`, { query: 'x' })).status, 503);
+  } finally {
+    server.close();
+  }
+};
+
+const main = async () => {
+  const mockPort = await freePort();
+  const upstream = `http://localhost:${mockPort}`;
+  let mock: ChildProcess | null = null;
+  let failed = 0;
+  const run = async (name: string, check: () => Promise<void>) => {
+    try {
+      await check();
+      console.log(`ok ${name}`);
+    } catch (err: any) {
+      failed++;
+      console.error(`FAIL ${name}\n  ${err.message}`);
+    }
+  };
+
+  try {
+    mock = await startMock(mockPort);
+    const { server, origin } = await startProxy({ apiKey: API_KEY, upstream, limits: NO_LIMITS });
+    for (const [name, check] of checks) await run(name, () => check(origin, upstream));
+    server.close();
+    await run('rate-limits each client', () => checkRateLimits(upstream));
+    await run('refuses Gemini routes without a key', () => checkMissingKey(upstream));
+  } finally {
+    mock?.kill();
+  }
+  if (failed > 0) {
+    console.error(`${failed} check${failed === 1 ? '' : 's'} failed`);
+    process.exitCode = 1;
+  }
+};
+
+main().catch(err => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,45 @@
+// API proxy entry point (`npm run server`). Settings come from the environment
+// or, like the Vite dev server, from .env.local and .env.
+//
+// GEMINI_API_KEY                the key; never sent to the browser
+// GEMINI_API_BASE_URL           upstream root, e.g. http://localhost:4010 for mock/gemini-server.mjs
+// API_PROXY_PORT, API_PROXY_HOST   where to listen (default 127.0.0.1:8787; Vite forwards /api here)
+// API_PROXY_USER_HEADER         header naming the signed-in user when an auth proxy sits in front;
+//                               otherwise users are told apart by address, taken from
+//                               X-Forwarded-For when the request comes through a proxy on
+//                               this machine (like the Vite dev server)
+// RATE_LIMIT_GENERATE_PER_MIN   analysis, search, image edit and Live tokens per user (default 30)
+// RATE_LIMIT_FILES_PER_MIN      upload chunks and file state polls per user (default 600)
+
+import { existsSync } from 'node:fs';
+import { createProxyServer, ProxyConfig } from './proxy';
+
+const GEMINI_API_BASE = "https://generativelanguage.googleapis.com";
+
+// Already-set variables win, so load the more specific file first
+['.env.local', '.env'].forEach(file => {
+  if (existsSync(file)) process.loadEnvFile(file);
+});
+
+const numberEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+};
+
+const port = numberEnv('API_PROXY_PORT', 8787);
+const host = process.env.API_PROXY_HOST || '127.0.0.1';
+const config: ProxyConfig = {
+  apiKey: process.env.GEMINI_API_KEY || '',
+  upstream: (process.env.GEMINI_API_BASE_URL || GEMINI_API_BASE).replace(/\/+$/, ''),
+  userHeader: process.env.API_PROXY_USER_HEADER || undefined,
+  limits: {
+    generate: numberEnv('RATE_LIMIT_GENERATE_PER_MIN', 30),
+    files: numberEnv('RATE_LIMIT_FILES_PER_MIN', 600),
+  },
+};
+
+if (!config.apiKey) console.warn("GEMINI_API_KEY is not set; Gemini requests will be refused until it is.");
+
+createProxyServer(config).listen(port, host, () => {
+  console.log(`PitchSide API proxy on http://${host}:${port} -> ${config.upstream}`);
+});
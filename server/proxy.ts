@@ -0,0 +1,385 @@
+// The API proxy: fixed endpoints for what the app needs from Gemini, with the
+// key added here. Each endpoint picks its own model, so the browser can't
+// spend the key on anything else.
+
+import http from 'node:http';
+import https from 'node:https';
+import { GoogleGenAI, Modality, Part } from '@google/genai';
+import type {
+  AnalysisRequest, AnalysisStreamLine, GroundingChunk, ImageEditRequest, ImageEditResponse, LiveTokenResponse, ProxyStatus,
+  SearchRequest, SearchResponse,
+} from '../utils/geminiProxy';
+import { PROXY_BASE, PROXY_MODELS } from '../utils/geminiProxy';
+import { ANALYSIS_RESPONSE_SCHEMA, buildAnalysisPrompt } from '../utils/analysisPrompt';
+import { toOffset } from '../utils/segments';
+import { parseSetup } from '../utils/validation';
+import { RateLimiter } from './rateLimit';
+
+// Generation is what costs money; file traffic is many small requests
+export type LimitKind = 'generate' | 'files';
+
+export interface ProxyConfig {
+  apiKey: string;
+  upstream: string; // Gemini API root, or mock/gemini-server.mjs
+  userHeader?: string; // set by an auth proxy in front to the signed-in user
+  limits: Record<LimitKind, number>; // requests per minute per user; 0 disables
+}
+
+// Inline videos go up to 20MB before base64
+const MAX_JSON_BYTES = 40 * 1024 * 1024;
+const MAX_SMALL_JSON_BYTES = 64 * 1024;
+const MAX_QUERY_CHARS = 2000;
+const MAX_PROMPT_CHARS = 4000;
+const MAX_SETUP_CHARS = 16 * 1024; // names, kits and two squads
+
+const ANALYSIS_CONFIG = {
+  thinkingConfig: { thinkingBudget: 32768 }, // Maximize thinking
+  maxOutputTokens: 60000,
+};
+
+// Locked into the Live token, so a session can't be reconfigured from the browser
+const LIVE_CONFIG = {
+  responseModalities: [Modality.AUDIO],
+  speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } },
+  systemInstruction: "You are a helpful, energetic sports commentator and assistant. Keep responses concise.",
+};
+const LIVE_SESSION_MS = 30 * 60 * 1000;
+const LIVE_CONNECT_WINDOW_MS = 60 * 1000;
+
+const UPLOAD_REQUEST_HEADERS = ['x-goog-upload-command', 'x-goog-upload-offset', 'content-length', 'content-type'];
+const UPLOAD_RESPONSE_HEADERS = ['x-goog-upload-status', 'x-goog-upload-size-received', 'content-type'];
+
+interface Context {
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+  params: string[];
+}
+
+interface Route {
+  method: string;
+  path: RegExp; // matched against the path after PROXY_BASE
+  limit?: LimitKind; // also marks routes that need the key
+  handle: (ctx: Context) => Promise<void>;
+}
+
+const httpError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+// Upstream and SDK errors keep their status; anything else is a bad gateway
+const statusOf = (err: any): number => typeof err?.status === 'number' && err.status >= 400 ? err.status : 502;
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const relay = async (res: http.ServerResponse, upstream: Response) => {
+  res.writeHead(upstream.status, { 'Content-Type': upstream.headers.get('content-type') || 'text/plain' });
+  res.end(await upstream.text());
+};
+
+const readJson = async <T>(req: http.IncomingMessage, limit = MAX_JSON_BYTES): Promise<T> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > limit) throw httpError(413, "Request body is too large.");
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch (e) {
+    throw httpError(400, "Request body is not valid JSON.");
+  }
+};
+
+const pickHeaders = (headers: http.IncomingHttpHeaders, names: string[]): http.OutgoingHttpHeaders =>
+  Object.fromEntries(names.flatMap(name => headers[name] === undefined ? [] : [[name, headers[name]!]]));
+
+const headerValue = (req: http.IncomingMessage, name: string) => {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value || '';
+};
+
+// The browser gets an opaque proxy URL for the resumable session; the real
+// one is encoded in it so sessions survive a proxy restart.
+const encodeUploadUrl = (url: string) => Buffer.from(url).toString('base64url');
+
+const decodeUploadUrl = (token: string, upstream: string) => {
+  const url = Buffer.from(token, 'base64url').toString('utf8');
+  // Never forward anywhere but the upstream's own upload endpoint
+  if (!url.startsWith(`${upstream}/upload/`)) throw httpError(400, "Unknown upload session.");
+  return new URL(url);
+};
+
+// The prompt is built here; the browser only picks the video, setup and
+// window, and the video must be inline or a file on this key's upstream.
+const analysisParts = (request: AnalysisRequest, upstream: string): Part[] => {
+  const video: any = request.video;
+  const isVideo = (mimeType: unknown) => typeof mimeType === 'string' && /^video\//.test(mimeType);
+  let videoPart: Part;
+  if (video?.fileData && isVideo(video.fileData.mimeType) && typeof video.fileData.fileUri === 'string' &&
+      video.fileData.fileUri.startsWith(`${upstream}/v1beta/files/`)) {
+    videoPart = { fileData: { mimeType: video.fileData.mimeType, fileUri: video.fileData.fileUri } };
+  } else if (video?.inlineData && isVideo(video.inlineData.mimeType) && typeof video.inlineData.data === 'string') {
+    videoPart = { inlineData: { mimeType: video.inlineData.mimeType, data: video.inlineData.data } };
+  } else {
+    throw httpError(400, "video must be an uploaded file or an inline video.");
+  }
+
+  let setup = null;
+  if (request.setup !== undefined && request.setup !== null) {
+    setup = parseSetup(request.setup);
+    if (!setup || JSON.stringify(setup).length > MAX_SETUP_CHARS) throw httpError(400, "setup is not a valid match setup.");
+  }
+
+  const { window } = request;
+  if (window !== undefined && window !== null) {
+    if (!(Number.isFinite(window.start) && Number.isFinite(window.end) && window.start >= 0 && window.end > window.start)) {
+      throw httpError(400, "window must have 0 <= start < end.");
+    }
+    videoPart.videoMetadata = { startOffset: toOffset(window.start), endOffset: toOffset(window.end) };
+  }
+  return [videoPart, { text: buildAnalysisPrompt(setup, window ?? undefined) }];
+};
+
+const LOOPBACK = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+// Behind the Vite dev server every request comes from loopback, so a proxy on
+// this machine is trusted to name the client. Only the last X-Forwarded-For
+// entry is the one it added; earlier entries came from the client.
+const userOf = (req: http.IncomingMessage, config: ProxyConfig) => {
+  const named = config.userHeader ? headerValue(req, config.userHeader.toLowerCase()) : '';
+  if (named) return named;
+  const address = req.socket.remoteAddress || 'unknown';
+  const forwarded = LOOPBACK.has(address) ? headerValue(req, 'x-forwarded-for').split(',').pop()!.trim() : '';
+  return forwarded || address;
+};
+
+export function createProxyServer(config: ProxyConfig): http.Server {
+  const ai = new GoogleGenAI({ apiKey: config.apiKey, httpOptions: { baseUrl: config.upstream } });
+  const keyHeader = { 'x-goog-api-key': config.apiKey };
+  const limiter = new RateLimiter<LimitKind>(config.limits);
+
+  const fileRequest = async (res: http.ServerResponse, method: string, id: string) =>
+    relay(res, await fetch(`${config.upstream}/v1beta/files/${id}`, { method, headers: keyHeader }));
+
+  const routes: Route[] = [
+    {
+      method: 'GET',
+      path: /^\/status$/,
+      handle: async ({ res }) => sendJson(res, 200, { keyConfigured: !!config.apiKey } satisfies ProxyStatus),
+    },
+    {
+      // Start a resumable upload
+      method: 'POST',
+      path: /^\/files\/upload$/,
+      limit: 'files',
+      handle: async ({ req, res }) => {
+        const metadata = await readJson(req, MAX_SMALL_JSON_BYTES);
+        const upstream = await fetch(`${config.upstream}/upload/v1beta/files`, {
+          method: 'POST',
+          headers: {
+            ...keyHeader,
+            'X-Goog-Upload-Protocol': 'resumable',
+            'X-Goog-Upload-Command': 'start',
+            'X-Goog-Upload-Header-Content-Length': headerValue(req, 'x-goog-upload-header-content-length'),
+            'X-Goog-Upload-Header-Content-Type': headerValue(req, 'x-goog-upload-header-content-type'),
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(metadata),
+        });
+        if (!upstream.ok) return relay(res, upstream);
+        const uploadUrl = upstream.headers.get('x-goog-upload-url');
+        if (!uploadUrl) throw httpError(502, "Gemini returned no upload URL.");
+        res.writeHead(200, {
+          'X-Goog-Upload-URL': `${PROXY_BASE}/files/upload/${encodeUploadUrl(uploadUrl)}`,
+          'X-Goog-Upload-Status': upstream.headers.get('x-goog-upload-status') || 'active',
+        });
+        res.end();
+      },
+    },
+    {
+      // Chunks, queries and cancels on a session, streamed through without buffering
+      method: 'POST',
+      path: /^\/files\/upload\/([\w-]+)$/,
+      limit: 'files',
+      handle: ({ req, res, params }) => new Promise<void>(resolve => {
+        const target = decodeUploadUrl(params[0], config.upstream);
+        const upstreamReq = (target.protocol === 'https:' ? https : http).request(
+          target,
+          { method: 'POST', headers: pickHeaders(req.headers, UPLOAD_REQUEST_HEADERS) },
+          upstreamRes => {
+            res.writeHead(upstreamRes.statusCode || 502, pickHeaders(upstreamRes.headers, UPLOAD_RESPONSE_HEADERS));
+            upstreamRes.pipe(res);
+          }
+        );
+        upstreamReq.on('error', err => {
+          // The client re-syncs its offset on a 5xx, as after a dropped connection
+          console.warn(`Upload passthrough failed: ${err.message}`);
+          if (res.headersSent) res.destroy();
+          else sendJson(res, 502, { error: { message: "Connection to Gemini was lost during the upload." } });
+        });
+        // A client that goes away mid-chunk abandons the upstream request too
+        res.on('close', () => {
+          if (!res.writableFinished) upstreamReq.destroy();
+          resolve();
+        });
+        req.pipe(upstreamReq);
+      }),
+    },
+    {
+      method: 'GET',
+      path: /^\/files\/([\w-]+)$/,
+      limit: 'files',
+      handle: ({ res, params }) => fileRequest(res, 'GET', params[0]),
+    },
+    {
+      method: 'DELETE',
+      path: /^\/files\/([\w-]+)$/,
+      limit: 'files',
+      handle: ({ res, params }) => fileRequest(res, 'DELETE', params[0]),
+    },
+    {
+      // Streams the analysis as newline-delimited JSON
+      method: 'POST',
+      path: /^\/analysis$/,
+      limit: 'generate',
+      handle: async ({ req, res }) => {
+        const request = await readJson<AnalysisRequest>(req);
+        const parts = analysisParts(request, config.upstream);
+
+        const controller = new AbortController();
+        res.on('close', () => {
+          if (!res.writableFinished) controller.abort();
+        });
+        const stream = await ai.models.generateContentStream({
+          model: PROXY_MODELS.analysis,
+          contents: [{ parts }],
+          config: {
+            ...ANALYSIS_CONFIG,
+            abortSignal: controller.signal,
+            ...(request.structured ? { responseMimeType: 'application/json', responseSchema: ANALYSIS_RESPONSE_SCHEMA } : {}),
+          },
+        });
+
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+        const write = (line: AnalysisStreamLine) => res.write(`${JSON.stringify(line)}\n`);
+        try {
+          for await (const chunk of stream) {
+            const text = chunk.text;
+            if (text) write({ text });
+          }
+        } catch (err: any) {
+          // The status line is long gone, so failures are reported in-band
+          if (!controller.signal.aborted) write({ error: { message: err.message || String(err), status: statusOf(err) } });
+        }
+        res.end();
+      },
+    },
+    {
+      method: 'POST',
+      path: /^\/search$/,
+      limit: 'generate',
+      handle: async ({ req, res }) => {
+        const { query } = await readJson<SearchRequest>(req, MAX_SMALL_JSON_BYTES);
+        if (typeof query !== 'string' || !query.trim() || query.length > MAX_QUERY_CHARS) {
+          throw httpError(400, `query must be 1-${MAX_QUERY_CHARS} characters.`);
+        }
+        const response = await ai.models.generateContent({
+          model: PROXY_MODELS.search,
+          contents: query,
+          config: { tools: [{ googleSearch: {} }] },
+        });
+        sendJson(res, 200, {
+          text: response.text || "",
+          sources: (response.candidates?.[0]?.groundingMetadata?.groundingChunks || []) as GroundingChunk[],
+        } satisfies SearchResponse);
+      },
+    },
+    {
+      method: 'POST',
+      path: /^\/image-edit$/,
+      limit: 'generate',
+      handle: async ({ req, res }) => {
+        const { image, prompt } = await readJson<ImageEditRequest>(req);
+        if (typeof image?.data !== 'string' || !/^image\//.test(image.mimeType)) throw httpError(400, "image must be an inline image.");
+        if (typeof prompt !== 'string' || !prompt.trim() || prompt.length > MAX_PROMPT_CHARS) {
+          throw httpError(400, `prompt must be 1-${MAX_PROMPT_CHARS} characters.`);
+        }
+        const response = await ai.models.generateContent({
+          model: PROXY_MODELS.imageEdit,
+          contents: { parts: [{ inlineData: { mimeType: image.mimeType, data: image.data } }, { text: prompt }] },
+        });
+        const parts = response.candidates?.[0]?.content?.parts || [];
+        const generated = parts.find(p => p.inlineData?.data)?.inlineData;
+        const text = parts.map(p => p.text).filter(Boolean).join('\n');
+        sendJson(res, 200, {
+          image: generated ? { mimeType: generated.mimeType || 'image/png', data: generated.data! } : null,
+          ...(text ? { text } : {}),
+        } satisfies ImageEditResponse);
+      },
+    },
+    {
+      // Single-use ephemeral token: the browser opens the Live socket itself,
+      // but only for this model and config, and only within the next minute
+      method: 'POST',
+      path: /^\/live\/token$/,
+      limit: 'generate',
+      handle: async ({ req, res }) => {
+        req.resume();
+        const now = Date.now();
+        const token = await ai.authTokens.create({
+          config: {
+            uses: 1,
+            expireTime: new Date(now + LIVE_SESSION_MS).toISOString(),
+            newSessionExpireTime: new Date(now + LIVE_CONNECT_WINDOW_MS).toISOString(),
+            liveConnectConstraints: { model: PROXY_MODELS.live, config: LIVE_CONFIG },
+            httpOptions: { apiVersion: 'v1alpha' },
+          },
+        });
+        if (!token.name) throw httpError(502, "Gemini returned no Live token.");
+        sendJson(res, 200, { token: token.name } satisfies LiveTokenResponse);
+      },
+    },
+  ];
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const started = Date.now();
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    const user = userOf(req, config);
+    // Upload URLs carry the session; keep them out of the log
+    const logPath = pathname.replace(/(\/files\/upload\/)[\w-]+$/, '$1…');
+    res.on('close', () => {
+      const aborted = res.writableFinished ? '' : ' (aborted)';
+      console.log(`${new Date().toISOString()} ${user} ${req.method} ${logPath} ${res.statusCode}${aborted} ${Date.now() - started}ms`);
+    });
+
+    try {
+      const path = pathname.startsWith(`${PROXY_BASE}/`) ? pathname.slice(PROXY_BASE.length) : '';
+      for (const route of routes) {
+        const match = route.method === req.method ? path.match(route.path) : null;
+        if (!match) continue;
+        if (route.limit) {
+          if (!config.apiKey) throw httpError(503, "GEMINI_API_KEY is not set on the API proxy.");
+          const wait = limiter.take(route.limit, user);
+          if (wait > 0) {
+            req.resume();
+            return sendJson(res, 429, { error: { message: `Rate limit reached; try again in ${wait}s.` } }, { 'Retry-After': String(wait) });
+          }
+        }
+        return await route.handle({ req, res, params: match.slice(1) });
+      }
+      throw httpError(404, "Not found.");
+    } catch (err: any) {
+      const status = statusOf(err);
+      if (status >= 500) console.error(`${req.method} ${logPath} failed:`, err.message || err);
+      if (res.headersSent) return void res.destroy();
+      req.resume();
+      sendJson(res, status, { error: { message: err.message || String(err) } });
+    }
+  };
+
+  const server = http.createServer((req, res) => void handle(req, res));
+  server.on('close', () => limiter.dispose());
+  return server;
+}
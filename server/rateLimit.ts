@@ -0,0 +1,48 @@
+// Per-user token buckets. Each user may burst up to a minute's allowance,
+// which refills continuously.
+
+interface Bucket {
+  tokens: number;
+  updated: number;
+}
+
+// Buckets idle this long are full again and can be forgotten
+const IDLE_MS = 60 * 1000;
+
+export class RateLimiter<Kind extends string> {
+  private buckets = new Map<string, Bucket>();
+  private sweeper: ReturnType<typeof setInterval>;
+
+  constructor(private perMinute: Record<Kind, number>) {
+    this.sweeper = setInterval(() => this.sweep(), IDLE_MS);
+    this.sweeper.unref();
+  }
+
+  // Takes one request from the user's allowance. Returns 0 when allowed,
+  // otherwise the seconds until the next request would be.
+  take(kind: Kind, user: string, now = Date.now()): number {
+    const limit = this.perMinute[kind];
+    if (!(limit > 0)) return 0; // 0 disables the limit
+    const key = `${kind}:${user}`;
+    const perMs = limit / 60000;
+    const bucket = this.buckets.get(key) ?? { tokens: limit, updated: now };
+    bucket.tokens = Math.min(limit, bucket.tokens + (now - bucket.updated) * perMs);
+    bucket.updated = now;
+    this.buckets.set(key, bucket);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - bucket.tokens) / perMs / 1000);
+  }
+
+  private sweep(now = Date.now()) {
+    this.buckets.forEach((bucket, key) => {
+      if (now - bucket.updated > IDLE_MS) this.buckets.delete(key);
+    });
+  }
+
+  dispose() {
+    clearInterval(this.sweeper);
+  }
+}
@@ -1,41 +1,265 @@
+import { field, Infer } from './utils/schema';
 
-export interface VideoEvent {
-  timestamp: string;
-  seconds: number;
-  type: 'Goal' | 'Shot' | 'Pass' | 'Defense' | 'Tactical' | 'Mistake' | 'Transition';
-  team: string;
-  description: string;
+// Allowed values for the string unions below. Kept as runtime arrays so the
+// response validator can map free-text model output onto them.
+export const EVENT_TYPES = ['Goal', 'Shot', 'Pass', 'Defense', 'Tactical', 'Mistake', 'Transition'] as const;
+export const TACTICAL_PHASES = ['Attacking', 'Defending', 'Transition A-D', 'Transition D-A'] as const;
+export const PLAYER_ACTION_TYPES = ['Off-Ball Run', 'Decoy', 'Defensive Tracking', 'Pressing', 'Playmaking'] as const;
+export const IMPACT_LEVELS = ['High', 'Medium', 'Low'] as const;
+export const DIAGRAM_TEAMS = ['A', 'B'] as const;
+export const MOVEMENT_KINDS = ['run', 'pass', 'dribble'] as const;
+
+// Single source of truth for the analysis shape. The TypeScript types below,
+// the prompt skeleton and Gemini's responseSchema are all derived from these.
+export const VideoEventSchema = field.object({
+  timestamp: field.string("MM:SS"),
+  seconds: field.number("Seconds from the start of the video"),
+  type: field.enum(EVENT_TYPES),
+  team: field.string(),
+  description: field.string(),
+});
+
+// Pitch coordinates are normalized: x runs from Team A's goal line (0) to
+// Team B's (1), y from the far touchline (0) to the near one (1) as filmed.
+export const PitchActorSchema = field.object({
+  id: field.string("Short unique key referenced by movements, e.g. \"A6\""),
+  label: field.string("Shirt number or role shown on the marker, e.g. \"6\", \"LB\""),
+  team: field.enum(DIAGRAM_TEAMS),
+  x: field.number("0 = Team A goal line, 1 = Team B goal line"),
+  y: field.number("0 = far touchline, 1 = near touchline"),
+});
+
+export const PitchMovementSchema = field.object({
+  kind: field.enum(MOVEMENT_KINDS, "run = off-ball movement, pass = passing lane, dribble = carry"),
+  actor: field.string("id of the actor who moves or passes"),
+  to_x: field.number(),
+  to_y: field.number(),
+});
+
+export const PitchDiagramSchema = field.object({
+  actors: field.array(PitchActorSchema),
+  movements: field.array(PitchMovementSchema),
+  ball: field.optional(field.object({ x: field.number(), y: field.number() })),
+}, "Positions of the key players at the key moment; omit if they cannot be placed");
+
+export const TacticalInsightSchema = field.object({
+  title: field.string(),
+  phase: field.enum(TACTICAL_PHASES),
+  observation: field.string(),
+  breakdown: field.optional(field.array(field.string(), "Detailed step-by-step tactical breakdown. Be extensive, e.g. [\"1. CB scans field\", \"2. DM drops into pocket\", \"3. Winger pins fullback\", \"4. Pass breaks first line\", ...]")),
+  improvement: field.string("Tactical fix (Coaching Point): a direct adjustment for the players"),
+  drill_name: field.optional(field.string("Specific training drill name")),
+  drill_setup: field.optional(field.string("Brief drill setup instructions")),
+  visual_cue: field.string("Description of what a diagram should show"),
+  key_moment_timestamp: field.optional(field.string("MM:SS of the frame that best shows the moment")),
+  key_moment_seconds: field.optional(field.integer("Seconds for seeking to the key moment")),
+  diagram: field.optional(PitchDiagramSchema),
+});
+
+export const PlayerInsightSchema = field.object({
+  player: field.string("e.g. \"Number 10\", \"Left Winger\""),
+  action_type: field.enum(PLAYER_ACTION_TYPES),
+  description: field.string(),
+  impact: field.enum(IMPACT_LEVELS),
+  time_start: field.optional(field.string("MM:SS")),
+  time_end: field.optional(field.string("MM:SS")),
+});
+
+export const AnalysisDataSchema = field.object({
+  match_context: field.string(),
+  formations: field.object({
+    team_a: field.string(),
+    team_b: field.string(),
+  }),
+  events: field.array(VideoEventSchema),
+  tactical_insights: field.array(TacticalInsightSchema),
+  player_analysis: field.array(PlayerInsightSchema),
+});
+
+// How a list item came to differ from the model output. Set locally by manual
+// edits, never requested from the model; absent means untouched AI output.
+export type Provenance = 'edited' | 'manual';
+
+export interface EditMarker {
+  provenance?: Provenance;
 }
 
-export interface TacticalInsight {
-  title: string;
-  phase: 'Attacking' | 'Defending' | 'Transition A-D' | 'Transition D-A';
-  observation: string;
-  breakdown?: string[]; // Detailed step-by-step tactical breakdown
-  improvement: string; // Tactical fix (Coaching Point)
-  drill_name?: string; // Specific drill name
-  drill_setup?: string; // Brief setup instructions
-  visual_cue: string; // Description of what a diagram should show
-  key_moment_timestamp?: string; // MM:SS format for the screenshot
-  key_moment_seconds?: number; // Seconds for seeking
-}
-
-export interface PlayerInsight {
-  player: string; // e.g. "Number 10", "Left Winger"
-  action_type: 'Off-Ball Run' | 'Decoy' | 'Defensive Tracking' | 'Pressing' | 'Playmaking';
-  description: string;
-  impact: 'High' | 'Medium' | 'Low';
-  time_start?: string;
-  time_end?: string;
-}
-
-export interface AnalysisData {
-  match_context: string;
-  formations: {
-    team_a: string;
-    team_b: string;
-  };
+// Clip window of a hand-coded event (lead/lag or a closed duration instance).
+// Absolute seconds; absent on AI events, which use the export pre/post-roll.
+export interface CodedWindow {
+  window_start?: number;
+  window_end?: number;
+}
+
+// Squad entry (see RosterPlayer in MatchSetup) a player insight was resolved
+// or assigned to. Local only, like the markers above.
+export interface RosterLink {
+  roster_id?: string;
+}
+
+export type VideoEvent = Infer<typeof VideoEventSchema> & EditMarker & CodedWindow;
+export type TacticalInsight = Infer<typeof TacticalInsightSchema> & EditMarker;
+export type PlayerInsight = Infer<typeof PlayerInsightSchema> & EditMarker & RosterLink;
+export type DiagramTeam = typeof DIAGRAM_TEAMS[number];
+export type PitchDiagram = Infer<typeof PitchDiagramSchema>;
+export type PitchActor = Infer<typeof PitchActorSchema>;
+export type PitchMovement = Infer<typeof PitchMovementSchema>;
+// formation_timeline and setup are filled in locally (see FormationWindow,
+// MatchSetup), never requested from the model.
+export type AnalysisData = Omit<Infer<typeof AnalysisDataSchema>, 'events' | 'tactical_insights' | 'player_analysis'> & {
   events: VideoEvent[];
   tactical_insights: TacticalInsight[];
   player_analysis: PlayerInsight[];
+  formation_timeline?: FormationWindow[];
+  telestrations?: Telestration[];
+  playlists?: Playlist[];
+  setup?: MatchSetup;
+};
+
+// A single field the validator had to coerce, default or drop.
+export interface ValidationWarning {
+  path: string; // e.g. "events[3].seconds"
+  message: string;
+}
+
+// Formations observed in one analysis window. Only present on results merged
+// from segmented analysis (or edited by hand); not part of the model schema.
+export interface FormationWindow {
+  start_seconds: number;
+  end_seconds: number;
+  team_a: string;
+  team_b: string;
+}
+
+// Match details entered before analysis. Team A/B here are the canonical
+// teams that event labels and formations are keyed to.
+export type AttackingSide = 'left' | 'right';
+
+export interface RosterPlayer {
+  id: string;
+  number?: number;
+  name: string;
+  position?: string; // abbreviation, e.g. "LW"
+}
+
+export interface TeamSetup {
+  name: string;
+  color: string; // kit colour, hex
+  roster?: RosterPlayer[];
+}
+
+export interface MatchSetup {
+  team_a: TeamSetup;
+  team_b: TeamSetup;
+  team_a_first_half: AttackingSide; // side of the frame Team A attacks; swapped after half time
+  second_half_start?: number; // seconds into the video, when the footage covers both halves
+  competition?: string;
+  date?: string; // YYYY-MM-DD
+}
+
+// One saved analysis in the local match library (IndexedDB).
+export interface AnalysisSession {
+  id: string;
+  title: string;
+  tags: string[];
+  fileName: string;
+  fileSize: number;
+  contentHash: string; // see utils/fingerprint
+  model: string;
+  promptVersion?: string; // absent on sessions saved before prompts were versioned
+  createdAt: number;
+  updatedAt: number;
+  rawResponse: string;
+  analysis: AnalysisData; // includes manual corrections
+  originalAnalysis?: AnalysisData; // model output as first saved; set on the first manual edit
+  warnings: ValidationWarning[];
+}
+
+// Portable .pitchside.json document for moving analyses between machines.
+// Bump ANALYSIS_FILE_VERSION (utils/analysisFile) and add a migration when
+// this shape or the analysis types change.
+export interface AnalysisFile {
+  format: 'pitchside-analysis';
+  schema_version: number;
+  exported_at: string; // ISO 8601
+  model: string;
+  prompt_version: string;
+  video: {
+    file_name: string;
+    file_size: number;
+    fingerprint: string;
+  };
+  title: string;
+  tags: string[];
+  analysis: AnalysisData;
+  original_analysis?: AnalysisData; // present when the analysis was corrected by hand
+}
+
+export type EventType = typeof EVENT_TYPES[number];
+
+// One button in the live coding window. 'instant' buttons code a single
+// moment; 'duration' buttons open an instance that a second press closes.
+export interface CodeButton {
+  id: string;
+  label: string;
+  hotkey: string; // KeyboardEvent.key, lower-cased
+  type: EventType;
+  team: string;
+  mode: 'instant' | 'duration';
+  lead: number; // seconds before the press
+  lag: number;  // seconds after the press (or after closing)
+}
+
+// A saved code window layout (localStorage, see utils/codeTemplates).
+export interface CodeTemplate {
+  id: string;
+  name: string;
+  buttons: CodeButton[];
+}
+
+export const DRAWING_TOOLS = ['arrow', 'freehand', 'circle', 'zone', 'spotlight', 'text'] as const;
+export type DrawingTool = typeof DRAWING_TOOLS[number];
+
+// Points are normalized to the visible video frame (0-1 on both axes) so a
+// drawing lines up at any player size and in exported frames.
+export interface DrawingPoint {
+  x: number;
+  y: number;
+}
+
+export interface DrawingShape {
+  id: string;
+  tool: DrawingTool;
+  points: DrawingPoint[]; // arrow/circle: [start, end]; spotlight/text: [anchor]
+  color: string;
+  text?: string;
+}
+
+// A set of drawings anchored to one moment of the video. Local only, never
+// requested from the model.
+export interface Telestration {
+  id: string;
+  seconds: number;
+  hold: number; // seconds to keep showing during playback; 0 = only when paused on the moment
+  shapes: DrawingShape[];
+  insight_index?: number; // tactical_insights entry this illustrates
+}
+
+// A moment in a playlist. The clip is copied from its source item when added,
+// so later edits to the analysis don't change a prepared presentation. Local only.
+export interface PlaylistItem {
+  id: string;
+  source: 'events' | 'tactical_insights' | 'player_analysis';
+  title: string;
+  start: number;
+  end: number;
+  key_seconds: number; // presentation pauses here
+  overlay?: string; // coaching point shown on the paused frame
+  note?: string; // the analyst's talking point
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  items: PlaylistItem[];
 }
@@ -0,0 +1,27 @@
+// Cancellation helpers shared by the upload client and the analysis pipeline
+
+export const isAbortError = (err: any): boolean =>
+  err?.name === 'AbortError' || err?.name === 'CanceledError';
+
+// Resolves after `ms`, or rejects with the signal's reason as soon as it aborts.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Settles like `promise`, or rejects with the signal's reason as soon as it
+// aborts. The work behind `promise` carries on either way.
+export const untilAborted = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const onAbort = () => reject(signal!.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  promise.then(resolve, reject).finally(() => signal?.removeEventListener('abort', onAbort));
+});
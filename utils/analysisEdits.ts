@@ -0,0 +1,155 @@
+// Pure edit operations on AnalysisData plus the undo/redo history that wraps them
+
+import { AnalysisData, Playlist, Telestration } from '../types';
+import { AnalysisListKey, formatTimestamp } from './validation';
+import { reindexForRemovedInsight, relinkToInsights } from './telestration';
+import { Formations } from './formations';
+import { applySetup } from './matchSetup';
+
+type ListItem<K extends AnalysisListKey> = AnalysisData[K][number];
+
+// Events stay sorted by time, matching validateAnalysis.
+const normalize = (analysis: AnalysisData): AnalysisData => ({
+  ...analysis,
+  events: [...analysis.events].sort((a, b) => a.seconds - b.seconds),
+});
+
+// Applies a patch and marks AI items as edited (manual items stay manual).
+export function updateItem<K extends AnalysisListKey>(analysis: AnalysisData, key: K, index: number, patch: Partial<ListItem<K>>): AnalysisData {
+  const list = analysis[key] as ListItem<K>[];
+  const item = list[index];
+  if (!item) throw new Error(`No ${key} item at index ${index}.`);
+  const updated = { ...item, ...patch, provenance: item.provenance ?? 'edited' };
+  return normalize({ ...analysis, [key]: list.map((existing, i) => i === index ? updated : existing) });
+}
+
+export function addItem<K extends AnalysisListKey>(analysis: AnalysisData, key: K, item: ListItem<K>): AnalysisData {
+  const list = analysis[key] as ListItem<K>[];
+  return normalize({ ...analysis, [key]: [...list, { ...item, provenance: 'manual' }] });
+}
+
+export function removeItem<K extends AnalysisListKey>(analysis: AnalysisData, key: K, index: number): AnalysisData {
+  const list = analysis[key] as ListItem<K>[];
+  const next = { ...analysis, [key]: list.filter((_, i) => i !== index) };
+  if (key === 'tactical_insights') next.telestrations = reindexForRemovedInsight(analysis.telestrations, index);
+  return next;
+}
+
+// Links a player insight to a roster entry (null clears the link).
+export function assignPlayer(analysis: AnalysisData, index: number, rosterId: string | null): AnalysisData {
+  const item = analysis.player_analysis[index];
+  if (!item) throw new Error(`No player_analysis item at index ${index}.`);
+  const { roster_id, ...rest } = item;
+  const updated = { ...rest, ...(rosterId ? { roster_id: rosterId } : {}), provenance: item.provenance ?? 'edited' };
+  return { ...analysis, player_analysis: analysis.player_analysis.map((existing, i) => i === index ? updated : existing) };
+}
+
+// Adds a drawing, or replaces the one with the same id.
+export function saveTelestration(analysis: AnalysisData, telestration: Telestration): AnalysisData {
+  const list = analysis.telestrations || [];
+  const exists = list.some(t => t.id === telestration.id);
+  const next = exists ? list.map(t => t.id === telestration.id ? telestration : t) : [...list, telestration];
+  return { ...analysis, telestrations: next.sort((a, b) => a.seconds - b.seconds) };
+}
+
+export function removeTelestration(analysis: AnalysisData, id: string): AnalysisData {
+  return { ...analysis, telestrations: (analysis.telestrations || []).filter(t => t.id !== id) };
+}
+
+// Adds a playlist, or replaces the one with the same id.
+export function savePlaylist(analysis: AnalysisData, playlist: Playlist): AnalysisData {
+  const list = analysis.playlists || [];
+  const exists = list.some(p => p.id === playlist.id);
+  return { ...analysis, playlists: exists ? list.map(p => p.id === playlist.id ? playlist : p) : [...list, playlist] };
+}
+
+export function removePlaylist(analysis: AnalysisData, id: string): AnalysisData {
+  return { ...analysis, playlists: (analysis.playlists || []).filter(p => p.id !== id) };
+}
+
+// Puts back the lists the model returned. Everything the analyst made
+// alongside them stays: the match setup (re-applied to the restored lists),
+// drawings (re-pointed at the restored insights) and playlists, which hold
+// copies of their clips.
+export function revertToOriginal(current: AnalysisData, original: AnalysisData): AnalysisData {
+  const restored: AnalysisData = {
+    ...current,
+    events: original.events,
+    tactical_insights: original.tactical_insights,
+    player_analysis: original.player_analysis,
+    telestrations: relinkToInsights(current.telestrations, current.tactical_insights, original.tactical_insights),
+  };
+  // The restored labels follow the setup they were keyed to
+  return current.setup ? applySetup({ ...restored, setup: original.setup }, current.setup) : restored;
+}
+
+// Records new shapes from `seconds` to the end of the match. Windows that
+// started later are replaced; earlier ones are cut at the change.
+export function recordFormationChange(analysis: AnalysisData, seconds: number, formations: Formations, duration: number): AnalysisData {
+  const timeline = analysis.formation_timeline?.length
+    ? analysis.formation_timeline
+    : [{ start_seconds: 0, end_seconds: duration, ...analysis.formations }];
+  const end = Math.max(duration, ...timeline.map(w => w.end_seconds));
+  const before = timeline
+    .filter(w => w.start_seconds < seconds)
+    .map(w => ({ ...w, end_seconds: Math.min(w.end_seconds, seconds) }));
+  return {
+    ...analysis,
+    // Without an earlier window the change is really the starting shape
+    ...(before.length === 0 ? { formations } : {}),
+    formation_timeline: [...before, { start_seconds: seconds, end_seconds: end, ...formations }],
+  };
+}
+
+// Patches that keep the display timestamp and the seconds in step.
+export const eventTime = (seconds: number) => ({ seconds, timestamp: formatTimestamp(seconds) });
+export const keyMomentTime = (seconds: number) => ({
+  key_moment_seconds: Math.round(seconds),
+  key_moment_timestamp: formatTimestamp(Math.round(seconds)),
+});
+
+export const countEdited = (analysis: AnalysisData) =>
+  [...analysis.events, ...analysis.tactical_insights, ...analysis.player_analysis].filter(item => item.provenance).length;
+
+// --- Undo/redo ---
+
+export interface HistoryEntry {
+  label: string;
+  analysis: AnalysisData; // state before the edit (undo) or after it (redo)
+}
+
+export interface EditHistory {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+export const MAX_HISTORY = 100;
+
+export const emptyHistory = (): EditHistory => ({ undo: [], redo: [] });
+
+// Records `previous` as undoable; a new edit clears the redo stack.
+export const recordEdit = (history: EditHistory, label: string, previous: AnalysisData): EditHistory => ({
+  undo: [...history.undo, { label, analysis: previous }].slice(-MAX_HISTORY),
+  redo: [],
+});
+
+// Each returns the state to show and the updated history, or null when there is nothing to do.
+export function undoEdit(history: EditHistory, current: AnalysisData): { analysis: AnalysisData; history: EditHistory; label: string } | null {
+  const entry = history.undo[history.undo.length - 1];
+  if (!entry) return null;
+  return {
+    analysis: entry.analysis,
+    label: entry.label,
+    history: { undo: history.undo.slice(0, -1), redo: [...history.redo, { label: entry.label, analysis: current }] },
+  };
+}
+
+export function redoEdit(history: EditHistory, current: AnalysisData): { analysis: AnalysisData; history: EditHistory; label: string } | null {
+  const entry = history.redo[history.redo.length - 1];
+  if (!entry) return null;
+  return {
+    analysis: entry.analysis,
+    label: entry.label,
+    history: { undo: [...history.undo, { label: entry.label, analysis: current }], redo: history.redo.slice(0, -1) },
+  };
+}
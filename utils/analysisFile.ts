@@ -0,0 +1,168 @@
+// Versioned .pitchside.json import/export with schema migrations
+
+import { AnalysisFile, AnalysisSession, ValidationWarning } from '../types';
+import { validateAnalysis } from './validation';
+
+export const ANALYSIS_FILE_FORMAT = 'pitchside-analysis';
+export const ANALYSIS_FILE_VERSION = 8;
+export const ANALYSIS_FILE_EXTENSION = '.pitchside.json';
+
+type RawDocument = Record<string, any>;
+
+// migrations[n] upgrades a version-n document to version n + 1.
+// Version 0 is a bare AnalysisData object with no wrapper, as produced by
+// copying the raw model response before exports existed. A version that only
+// adds optional fields still gets an entry: older files are valid as they are,
+// and the bump is what makes an older build refuse files it would strip.
+const migrations: Record<number, (doc: RawDocument) => RawDocument> = {
+  0: (doc) => ({
+    format: ANALYSIS_FILE_FORMAT,
+    schema_version: 1,
+    exported_at: new Date(0).toISOString(),
+    model: 'unknown',
+    prompt_version: 'unknown',
+    video: { file_name: '', file_size: 0, fingerprint: '' },
+    title: 'Imported analysis',
+    tags: [],
+    analysis: doc,
+  }),
+  // v2 adds optional original_analysis and item provenance markers. A v1 file
+  // has no hand edits, so it needs neither: a missing original means the
+  // analysis is the model's own, and unmarked items are AI items.
+  1: (doc) => ({ ...doc, schema_version: 2 }),
+  // v3 adds optional clip windows on hand-coded events
+  2: (doc) => ({ ...doc, schema_version: 3 }),
+  // v4 adds optional telestrations
+  3: (doc) => ({ ...doc, schema_version: 4 }),
+  // v5 adds optional pitch diagrams on insights
+  4: (doc) => ({ ...doc, schema_version: 5 }),
+  // v6 adds optional match setup
+  5: (doc) => ({ ...doc, schema_version: 6 }),
+  // v7 adds optional team rosters and roster links on player insights
+  6: (doc) => ({ ...doc, schema_version: 7 }),
+  // v8 adds optional playlists
+  7: (doc) => ({ ...doc, schema_version: 8 }),
+};
+
+const detectVersion = (doc: RawDocument): number => {
+  if (doc.format === undefined && ('events' in doc || 'tactical_insights' in doc)) return 0;
+  if (doc.format !== ANALYSIS_FILE_FORMAT) {
+    throw new Error(`Not a PitchSide analysis file (format is ${JSON.stringify(doc.format ?? null)}).`);
+  }
+  const version = doc.schema_version;
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid schema_version ${JSON.stringify(version)}.`);
+  }
+  if (version > ANALYSIS_FILE_VERSION) {
+    throw new Error(`File uses schema version ${version}, but this app only reads up to version ${ANALYSIS_FILE_VERSION}. Update PitchSide to open it.`);
+  }
+  return version;
+};
+
+export interface ImportResult {
+  file: AnalysisFile;
+  migratedFrom: number;
+  warnings: ValidationWarning[];
+}
+
+// Parses, migrates and validates an exported document. Throws with a
+// user-facing message when the file cannot be read at all.
+export function parseAnalysisFile(text: string): ImportResult {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(`File is not valid JSON: ${e.message}`);
+  }
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) {
+    throw new Error("File does not contain a JSON object.");
+  }
+
+  let current = doc as RawDocument;
+  const migratedFrom = detectVersion(current);
+  for (let v = migratedFrom; v < ANALYSIS_FILE_VERSION; v++) {
+    const migrate = migrations[v];
+    if (!migrate) throw new Error(`No migration from schema version ${v}.`);
+    current = migrate(current);
+  }
+
+  if (!current.analysis || typeof current.analysis !== 'object') {
+    throw new Error("File has no analysis payload.");
+  }
+  // Normalize the payload exactly like a fresh model response
+  const { data, warnings } = validateAnalysis(current.analysis);
+  const original = current.original_analysis && typeof current.original_analysis === 'object'
+    ? validateAnalysis(current.original_analysis).data
+    : undefined;
+  const video = current.video && typeof current.video === 'object' ? current.video : {};
+
+  return {
+    migratedFrom,
+    warnings: warnings.map(w => ({ path: `analysis.${w.path}`, message: w.message })),
+    file: {
+      format: ANALYSIS_FILE_FORMAT,
+      schema_version: ANALYSIS_FILE_VERSION,
+      exported_at: typeof current.exported_at === 'string' ? current.exported_at : new Date(0).toISOString(),
+      model: typeof current.model === 'string' ? current.model : 'unknown',
+      prompt_version: typeof current.prompt_version === 'string' ? current.prompt_version : 'unknown',
+      video: {
+        file_name: typeof video.file_name === 'string' ? video.file_name : '',
+        file_size: typeof video.file_size === 'number' ? video.file_size : 0,
+        fingerprint: typeof video.fingerprint === 'string' ? video.fingerprint : '',
+      },
+      title: typeof current.title === 'string' && current.title.trim() ? current.title.trim() : 'Imported analysis',
+      tags: Array.isArray(current.tags) ? current.tags.filter((t: unknown): t is string => typeof t === 'string') : [],
+      analysis: data,
+      ...(original ? { original_analysis: original } : {}),
+    },
+  };
+}
+
+export function sessionToAnalysisFile(session: AnalysisSession): AnalysisFile {
+  return {
+    format: ANALYSIS_FILE_FORMAT,
+    schema_version: ANALYSIS_FILE_VERSION,
+    exported_at: new Date().toISOString(),
+    model: session.model,
+    prompt_version: session.promptVersion ?? 'unknown',
+    video: {
+      file_name: session.fileName,
+      file_size: session.fileSize,
+      fingerprint: session.contentHash,
+    },
+    title: session.title,
+    tags: session.tags,
+    analysis: session.analysis,
+    ...(session.originalAnalysis ? { original_analysis: session.originalAnalysis } : {}),
+  };
+}
+
+export function analysisFileToSession(file: AnalysisFile, warnings: ValidationWarning[]): AnalysisSession {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: file.title,
+    tags: file.tags,
+    fileName: file.video.file_name,
+    fileSize: file.video.file_size,
+    contentHash: file.video.fingerprint,
+    model: file.model,
+    promptVersion: file.prompt_version,
+    createdAt: now,
+    updatedAt: now,
+    rawResponse: "",
+    analysis: file.analysis,
+    originalAnalysis: file.original_analysis,
+    warnings,
+  };
+}
+
+export function downloadAnalysisFile(session: AnalysisSession) {
+  const blob = new Blob([JSON.stringify(sessionToAnalysisFile(session), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${session.title.replace(/[^\w.-]+/g, '_') || 'analysis'}${ANALYSIS_FILE_EXTENSION}`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
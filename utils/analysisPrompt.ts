@@ -0,0 +1,44 @@
+// The analysis prompt and response schema. Built by the API proxy from the
+// request's setup and window, so the browser can't send its own prompt.
+
+import { AnalysisDataSchema, MatchSetup } from '../types';
+import { describeSchema, toResponseSchema } from './schema';
+import { setupPrompt } from './matchSetup';
+import { formatTimestamp } from './validation';
+
+// Bump when the analysis prompt changes meaningfully; stored with every saved analysis
+export const ANALYSIS_PROMPT_VERSION = "6";
+export const ANALYSIS_RESPONSE_SCHEMA = toResponseSchema(AnalysisDataSchema);
+
+// One window of a segmented analysis, in seconds of the full video
+export interface AnalysisWindow {
+  start: number;
+  end: number;
+}
+
+export function buildAnalysisPrompt(setup: MatchSetup | null, window?: AnalysisWindow): string {
+  const prompt = `
+        Role: You are a World-Class UEFA Pro License Tactical Analyst (e.g., Pep Guardiola's head analyst).
+        Task: Perform a "Frame-by-Frame" style Chronological Micro-Audit of this footage.
+        
+        CRITICAL INSTRUCTIONS FOR "COMPREHENSIVE COVERAGE":
+        1. UNLIMITED SCOPE: Do not stick to a fixed number like 10. Your goal is to generate a deep dive \`tactical_insight\` card for EVERY distinct tactical event, micro-movement, or interaction you observe.
+        2. NO MATTER HOW SMALL: Treat every detail with extreme importance. A simple pass to a fullback, a head check, a body feint, a defensive shuffle, a change in pressing trigger—if it happens, analyze it.
+        3. NO EVENT LEFT BEHIND: If the video contains 5 events, analyze 5. If it contains 50, analyze 50. Do not summarize; enumerate.
+        4. DEPTH & BREADTH: For EACH identified event, provide the full \`breakdown\` sequence.
+        
+        ANALYSIS REQUIREMENTS:
+        1. Match Events: Log every shot, pass, tackle, and transition in the 'events' array.
+        2. Player Analysis: Focus on individual off-ball movement, decoy runs, defensive tracking, and pressing intensity.
+        3. Tactical Insights: This is the core. Every time the game state changes or a decision is made, create an insight.
+        
+        For "Tactical Insights", ALWAYS fill in breakdown, drill_name, drill_setup and the key moment, even though the schema marks them optional.
+        ${setup ? `\n${setupPrompt(setup)}\n` : ''}        When you can place the players involved at the key moment, add a \`diagram\`: x runs from Team A's goal line (0) to Team B's (1), y from the far touchline (0) to the near one (1). Include only the 3-8 players that matter, give each a short id, and draw runs, passes and dribbles from those ids. Leave the diagram out rather than guess positions.
+        
+        Return JSON matching this schema:
+        ${describeSchema(AnalysisDataSchema, '        ')}
+      `;
+  if (!window) return prompt;
+  const range = `${formatTimestamp(window.start)}-${formatTimestamp(window.end)}`;
+  return `${prompt}\nSEGMENT SCOPE: You are only given the window ${range} of the full match. Report every timestamp as absolute match time (MM:SS from the start of the full video), not relative to this window.`;
+}
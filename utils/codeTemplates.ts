@@ -0,0 +1,85 @@
+// Code window layouts for live manual tagging, persisted in localStorage
+
+import { CodeButton, CodeTemplate, VideoEvent } from '../types';
+import { formatTimestamp } from './validation';
+
+const STORAGE_KEY = 'pitchside.codeTemplates';
+const ACTIVE_KEY = 'pitchside.codeTemplates.active';
+
+const button = (label: string, hotkey: string, type: CodeButton['type'], team: string, mode: CodeButton['mode'] = 'instant'): CodeButton => ({
+  id: `${hotkey}-${label}`.toLowerCase().replace(/\s+/g, '-'),
+  label,
+  hotkey,
+  type,
+  team,
+  mode,
+  lead: mode === 'instant' ? 5 : 2,
+  lag: mode === 'instant' ? 3 : 2,
+});
+
+// Home keys on the left hand, away keys on the right
+export const DEFAULT_TEMPLATE: CodeTemplate = {
+  id: 'default',
+  name: 'Standard',
+  buttons: [
+    button('Goal', 'q', 'Goal', 'Team A'),
+    button('Shot', 'w', 'Shot', 'Team A'),
+    button('Possession', 'e', 'Pass', 'Team A', 'duration'),
+    button('Turnover', 'r', 'Mistake', 'Team A'),
+    button('Press', 'a', 'Defense', 'Team A', 'duration'),
+    button('Transition', 's', 'Transition', 'Team A'),
+    button('Goal', 'u', 'Goal', 'Team B'),
+    button('Shot', 'i', 'Shot', 'Team B'),
+    button('Possession', 'o', 'Pass', 'Team B', 'duration'),
+    button('Turnover', 'p', 'Mistake', 'Team B'),
+    button('Press', 'j', 'Defense', 'Team B', 'duration'),
+    button('Transition', 'k', 'Transition', 'Team B'),
+  ],
+};
+
+export const newButtonId = () => crypto.randomUUID();
+
+export function loadTemplates(storage: Storage = localStorage): CodeTemplate[] {
+  try {
+    const saved = JSON.parse(storage.getItem(STORAGE_KEY) || '[]');
+    if (Array.isArray(saved) && saved.length > 0) return saved;
+  } catch (e) {
+    console.warn("Ignoring unreadable code templates", e);
+  }
+  return [DEFAULT_TEMPLATE];
+}
+
+export function saveTemplates(templates: CodeTemplate[], storage: Storage = localStorage) {
+  storage.setItem(STORAGE_KEY, JSON.stringify(templates));
+}
+
+export const loadActiveTemplateId = (storage: Storage = localStorage) => storage.getItem(ACTIVE_KEY);
+export const saveActiveTemplateId = (id: string, storage: Storage = localStorage) => storage.setItem(ACTIVE_KEY, id);
+
+// Describes any problem with a layout, or null when every button can be used.
+export function checkTemplate(template: CodeTemplate): string | null {
+  const seen = new Map<string, string>();
+  for (const b of template.buttons) {
+    if (!b.label.trim()) return "Every button needs a label.";
+    if (b.hotkey.length !== 1) return `"${b.label}" needs a single-character hotkey.`;
+    const clash = seen.get(b.hotkey);
+    if (clash) return `"${b.label}" and "${clash}" share the hotkey ${b.hotkey.toUpperCase()}.`;
+    seen.set(b.hotkey, b.label);
+  }
+  return null;
+}
+
+// Builds the event for a coded moment, or for a duration instance from start to end.
+export function codeEvent(b: CodeButton, start: number, end: number = start, duration?: number): VideoEvent {
+  const seconds = Math.max(0, start);
+  const windowEnd = end + b.lag;
+  return {
+    timestamp: formatTimestamp(seconds),
+    seconds,
+    type: b.type,
+    team: b.team,
+    description: end > start ? `${b.label} (${formatTimestamp(start)}-${formatTimestamp(end)})` : b.label,
+    window_start: Math.max(0, seconds - b.lead),
+    window_end: duration ? Math.min(duration, windowEnd) : windowEnd,
+  };
+}
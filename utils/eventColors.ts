@@ -0,0 +1,12 @@
+// Shared colour coding for VideoEvent types (timeline dots, reports, charts)
+
+export const getEventColor = (type: string) => {
+  switch (type) {
+    case 'Goal': return '#10b981'; // emerald-500
+    case 'Shot': return '#3b82f6'; // blue-500
+    case 'Defense': return '#f97316'; // orange-500
+    case 'Tactical': return '#a855f7'; // purple-500
+    case 'Transition': return '#eab308'; // yellow-500
+    default: return '#94a3b8'; // slate-400
+  }
+};
@@ -0,0 +1,24 @@
+// Content fingerprint for matching a saved session to its source video
+
+// Hashing all of a 2GB file would take far too long in the browser, so the
+// fingerprint covers the size plus samples from the start, middle and end.
+const SAMPLE_BYTES = 4 * 1024 * 1024;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export async function fingerprintFile(file: File): Promise<string> {
+  const parts: BlobPart[] = [`${file.size}:`];
+  if (file.size <= SAMPLE_BYTES * 3) {
+    parts.push(file);
+  } else {
+    const middle = Math.floor(file.size / 2 - SAMPLE_BYTES / 2);
+    parts.push(
+      file.slice(0, SAMPLE_BYTES),
+      file.slice(middle, middle + SAMPLE_BYTES),
+      file.slice(file.size - SAMPLE_BYTES)
+    );
+  }
+  const digest = await crypto.subtle.digest('SHA-256', await new Blob(parts).arrayBuffer());
+  return `sha256-sampled:${toHex(digest)}`;
+}
@@ -0,0 +1,64 @@
+// Formation strings ("4-2-3-1") parsed into lines of players, laid out as
+// lineups for the pitch diagram, plus the shape-change timeline.
+
+import { AnalysisData, DiagramTeam, FormationWindow, PitchActor } from '../types';
+
+export type Formations = AnalysisData['formations'];
+
+// Extracts the outfield lines from strings like "4-3-3", "4–2–3–1 (high press)",
+// "3 4 2 1", "433" or "1-4-4-2". Returns null unless the lines add up to ten.
+export function parseFormation(text: string | undefined): number[] | null {
+  if (!text) return null;
+  const separated = text.match(/\d(?:\s*[-–— ]\s*\d){1,5}/);
+  const compact = text.match(/\b\d{3,6}\b/);
+  const digits = (separated?.[0] ?? compact?.[0])?.match(/\d/g);
+  if (!digits) return null;
+  let lines = digits.map(Number);
+  // Some sources count the goalkeeper as the first line
+  if (lines[0] === 1 && lines.reduce((sum, n) => sum + n, 0) === 11) lines = lines.slice(1);
+  if (lines.length < 2 || lines.some(n => n < 1 || n > 6)) return null;
+  return lines.reduce((sum, n) => sum + n, 0) === 10 ? lines : null;
+}
+
+const lineRole = (index: number, count: number) => {
+  if (index === 0) return 'DF';
+  if (index === count - 1) return 'FW';
+  if (count >= 4 && index === 1) return 'DM';
+  if (count >= 4 && index === count - 2) return 'AM';
+  return 'MF';
+};
+
+// Team A defends the left goal and Team B is rotated to face it, so a
+// lineup fills its own half from the goalkeeper up to the halfway line.
+export function lineupActors(lines: number[], team: DiagramTeam): PitchActor[] {
+  const place = (x: number, y: number) => team === 'A' ? { x, y } : { x: 1 - x, y: 1 - y };
+  const actors: PitchActor[] = [{ id: `${team}-gk`, label: 'GK', team, ...place(0.04, 0.5) }];
+  lines.forEach((count, lineIndex) => {
+    const x = 0.15 + lineIndex * (0.3 / (lines.length - 1));
+    for (let i = 0; i < count; i++) {
+      actors.push({ id: `${team}-${lineIndex}-${i}`, label: lineRole(lineIndex, lines.length), team, ...place(x, 0.1 + 0.8 * (i + 1) / (count + 1)) });
+    }
+  });
+  return actors;
+}
+
+// Collapses consecutive windows with the same shapes into one change.
+export function shapeChanges(timeline: FormationWindow[] | undefined): FormationWindow[] {
+  const out: FormationWindow[] = [];
+  [...(timeline || [])].sort((a, b) => a.start_seconds - b.start_seconds).forEach(window => {
+    const last = out[out.length - 1];
+    if (last && last.team_a === window.team_a && last.team_b === window.team_b) {
+      last.end_seconds = Math.max(last.end_seconds, window.end_seconds);
+    } else {
+      out.push({ ...window });
+    }
+  });
+  return out;
+}
+
+// The shapes in play at `seconds`; the headline formations when there is no timeline.
+export function formationsAt(analysis: AnalysisData, seconds: number): Formations {
+  const changes = shapeChanges(analysis.formation_timeline);
+  const current = [...changes].reverse().find(c => c.start_seconds <= seconds) ?? changes[0];
+  return current ? { team_a: current.team_a, team_b: current.team_b } : analysis.formations;
+}
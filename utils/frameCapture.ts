@@ -0,0 +1,244 @@
+// Frame grabs at exact timestamps using a hidden video element, so the
+// visible player is never seeked.
+
+import { DrawingShape, Telestration } from '../types';
+import { activeTelestrations, renderShapes, shapesAt } from './telestration';
+
+const SEEK_TIMEOUT_MS = 8000;
+
+const waitFor = (video: HTMLVideoElement, event: 'loadeddata' | 'seeked') => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    cleanup();
+    reject(new Error(`Timed out waiting for ${event}.`));
+  }, SEEK_TIMEOUT_MS);
+  const onDone = () => { cleanup(); resolve(); };
+  const onError = () => { cleanup(); reject(new Error("Video could not be decoded.")); };
+  const cleanup = () => {
+    clearTimeout(timer);
+    video.removeEventListener(event, onDone);
+    video.removeEventListener('error', onError);
+  };
+  video.addEventListener(event, onDone, { once: true });
+  video.addEventListener('error', onError, { once: true });
+});
+
+const drawFrame = (video: HTMLVideoElement, maxWidth: number, quality: number, shapes: DrawingShape[]): string => {
+  const scale = Math.min(1, maxWidth / (video.videoWidth || maxWidth));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable.");
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  renderShapes(ctx, shapes, { x: 0, y: 0, width: canvas.width, height: canvas.height });
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+export interface CaptureOptions {
+  maxWidth?: number;
+  quality?: number;
+  onFrame?: (seconds: number, dataUrl: string | null) => void;
+  telestrations?: Telestration[]; // drawings on these frames are baked in
+}
+
+// Seeks to each timestamp in turn and returns a JPEG data URL per timestamp
+// (null where the seek failed).
+export async function captureFrames(videoUrl: string, timestamps: number[], options: CaptureOptions = {}): Promise<Map<number, string | null>> {
+  const { maxWidth = 1280, quality = 0.85, onFrame, telestrations } = options;
+  const frames = new Map<number, string | null>();
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.crossOrigin = 'anonymous';
+  video.src = videoUrl;
+
+  try {
+    await waitFor(video, 'loadeddata');
+    for (const seconds of Array.from(new Set(timestamps))) {
+      let frame: string | null = null;
+      try {
+        video.currentTime = Math.min(seconds, Math.max(0, video.duration - 0.1));
+        await waitFor(video, 'seeked');
+        frame = drawFrame(video, maxWidth, quality, shapesAt(telestrations, seconds));
+      } catch (e) {
+        console.warn(`Frame capture at ${seconds}s failed`, e);
+      }
+      frames.set(seconds, frame);
+      onFrame?.(seconds, frame);
+    }
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+  return frames;
+}
+
+// FNV-1a over everything that is drawn, so any edit to a drawing changes it
+const hashShapes = (shapes: DrawingShape[]) => {
+  const drawn = JSON.stringify(shapes.map(s => [s.id, s.tool, s.points, s.color, s.text ?? '']));
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < drawn.length; i++) hash = Math.imul(hash ^ drawn.charCodeAt(i), 0x01000193);
+  return (hash >>> 0).toString(36);
+};
+
+// Cache key for a frame: its time plus the drawings baked into it.
+export const frameKey = (seconds: number, telestrations?: Telestration[]) => {
+  const drawings = activeTelestrations(telestrations, seconds, true).map(t => `${t.id}:${hashShapes(t.shapes)}`);
+  return drawings.length ? `${seconds.toFixed(1)}+${drawings.join(',')}` : seconds.toFixed(1);
+};
+
+// Whether two frame keys are the same moment, i.e. one supersedes the other
+// once the drawings there change.
+export const sameMoment = (a: string, b: string) => a.split('+')[0] === b.split('+')[0];
+
+// Background thumbnail service for one video: requests are queued and served
+// one seek at a time on a hidden element, and every frame is cached by key.
+export class FrameExtractor {
+  private video: HTMLVideoElement | null = null;
+  private loaded: Promise<void> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private frames = new Map<string, Promise<string | null>>();
+  private disposed = false;
+
+  constructor(private videoUrl: string, private options: { maxWidth?: number; quality?: number } = {}) {}
+
+  // Adds frames captured earlier, e.g. restored from the library.
+  seed(frames: Record<string, string>) {
+    Object.entries(frames).forEach(([key, dataUrl]) => {
+      if (!this.frames.has(key)) this.frames.set(key, Promise.resolve(dataUrl));
+    });
+  }
+
+  has(key: string) {
+    return this.frames.has(key);
+  }
+
+  // Whether a frame of the same moment with other drawings is cached; the
+  // next capture of `key` drops it.
+  supersedes(key: string) {
+    return Array.from(this.frames.keys()).some(other => other !== key && sameMoment(other, key));
+  }
+
+  // JPEG data URL of the frame at `seconds` with its drawings, or null when
+  // the seek failed. Repeated requests share one capture.
+  capture(seconds: number, telestrations?: Telestration[]): Promise<string | null> {
+    const key = frameKey(seconds, telestrations);
+    // Frames with the moment's earlier drawings are never shown again
+    this.frames.forEach((_, other) => { if (other !== key && sameMoment(other, key)) this.frames.delete(other); });
+    const cached = this.frames.get(key);
+    if (cached) return cached;
+    const job = this.queue.then(() => this.grab(seconds, shapesAt(telestrations, seconds)));
+    this.queue = job;
+    this.frames.set(key, job);
+    // Failed seeks are retried on the next request
+    job.then(frame => { if (frame === null) this.frames.delete(key); });
+    return job;
+  }
+
+  // Every frame captured so far (waits for queued ones).
+  async snapshot(): Promise<Record<string, string>> {
+    const entries = await Promise.all(Array.from(this.frames, async ([key, frame]) => [key, await frame] as const));
+    return Object.fromEntries(entries.filter((entry): entry is readonly [string, string] => entry[1] !== null));
+  }
+
+  dispose() {
+    this.disposed = true;
+    if (this.video) {
+      this.video.removeAttribute('src');
+      this.video.load();
+      this.video = null;
+    }
+  }
+
+  private async grab(seconds: number, shapes: DrawingShape[]): Promise<string | null> {
+    if (this.disposed) return null;
+    try {
+      if (!this.video) {
+        this.video = document.createElement('video');
+        this.video.muted = true;
+        this.video.preload = 'auto';
+        this.video.crossOrigin = 'anonymous';
+        this.loaded = waitFor(this.video, 'loadeddata');
+        this.video.src = this.videoUrl;
+      }
+      const video = this.video;
+      await this.loaded;
+      video.currentTime = Math.min(seconds, Math.max(0, video.duration - 0.1));
+      await waitFor(video, 'seeked');
+      return this.disposed ? null : drawFrame(video, this.options.maxWidth ?? 640, this.options.quality ?? 0.8, shapes);
+    } catch (e) {
+      console.warn(`Frame capture at ${seconds}s failed`, e);
+      return null;
+    }
+  }
+}
+
+// Thumbnail strip for timeline hover previews: one small tile every
+// `interval` seconds, packed row by row into a single JPEG.
+export interface SpriteSheet {
+  url: string; // object URL; revoke when the video changes
+  interval: number;
+  count: number;
+  columns: number;
+  tileWidth: number;
+  tileHeight: number;
+}
+
+export interface SpriteOptions {
+  maxTiles?: number;
+  minInterval?: number;
+  tileWidth?: number;
+  columns?: number;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+export async function captureSpriteSheet(videoUrl: string, duration: number, options: SpriteOptions = {}): Promise<SpriteSheet> {
+  const { maxTiles = 300, minInterval = 2, tileWidth = 160, columns = 10, signal, onProgress } = options;
+  const interval = Math.max(minInterval, duration / maxTiles);
+  const count = Math.max(1, Math.ceil(duration / interval));
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.crossOrigin = 'anonymous';
+  video.src = videoUrl;
+
+  try {
+    await waitFor(video, 'loadeddata');
+    const tileHeight = Math.round(tileWidth * ((video.videoHeight || 9) / (video.videoWidth || 16)));
+    const canvas = document.createElement('canvas');
+    canvas.width = tileWidth * Math.min(columns, count);
+    canvas.height = tileHeight * Math.ceil(count / columns);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D context unavailable.");
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    for (let i = 0; i < count; i++) {
+      if (signal?.aborted) throw signal.reason;
+      try {
+        // Middle of each tile's span, so a tile shows what its stretch looks like
+        video.currentTime = Math.min((i + 0.5) * interval, Math.max(0, video.duration - 0.1));
+        await waitFor(video, 'seeked');
+        ctx.drawImage(video, (i % columns) * tileWidth, Math.floor(i / columns) * tileHeight, tileWidth, tileHeight);
+      } catch (e) {
+        console.warn(`Thumbnail at ${Math.round(i * interval)}s failed`, e);
+      }
+      onProgress?.((i + 1) / count);
+    }
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.7));
+    if (!blob) throw new Error("Thumbnail sheet could not be encoded.");
+    if (signal?.aborted) throw signal.reason;
+    return { url: URL.createObjectURL(blob), interval, count, columns, tileWidth, tileHeight };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+}
+
+// Background offset of the tile covering `seconds`.
+export const spriteTile = (sheet: SpriteSheet, seconds: number) => {
+  const i = Math.min(sheet.count - 1, Math.max(0, Math.floor(seconds / sheet.interval)));
+  return { x: (i % sheet.columns) * sheet.tileWidth, y: Math.floor(i / sheet.columns) * sheet.tileHeight };
+};
@@ -0,0 +1,353 @@
+// Gemini Files API client: resumable chunked upload, file state polling and
+// cleanup, all through the API proxy, which adds the key server-side
+
+import { sleep, untilAborted } from './abort';
+import { PROXY_BASE } from './geminiProxy';
+
+// The resumable protocol requires every chunk except the last to be a
+// multiple of 256 KiB.
+const CHUNK_GRANULARITY = 256 * 1024;
+export const DEFAULT_CHUNK_SIZE = 32 * CHUNK_GRANULARITY; // 8 MiB
+
+const DEFAULT_MAX_RETRIES = 8;
+const MAX_BACKOFF_MS = 30000;
+
+// Upload URLs are kept so a reload can continue where it stopped. Google
+// keeps resumable sessions for about a week; be more conservative.
+const SESSION_STORAGE_PREFIX = "pitchside.upload.";
+const SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface UploadedFile {
+  name: string;
+  uri: string;
+}
+
+export interface UploadProgress {
+  uploaded: number; // bytes acknowledged or in flight
+  total: number;
+  resumedFrom?: number; // byte offset recovered from a previous session
+}
+
+export interface UploadOptions {
+  baseUrl?: string; // proxy API root
+  chunkSize?: number;
+  maxRetries?: number;
+  onProgress?: (progress: UploadProgress) => void;
+  storage?: Storage | null; // null disables resume across reloads
+  signal?: AbortSignal; // aborting cancels the remote session too
+}
+
+interface StoredSession {
+  uploadUrl: string;
+  startedAt: number;
+}
+
+interface UploadStatus {
+  state: 'active' | 'final' | 'cancelled' | 'unknown';
+  received: number;
+  file?: UploadedFile;
+}
+
+interface ChunkResponse {
+  status: number;
+  body: string;
+}
+
+const isRetryableStatus = (status: number) => status === 0 || status === 408 || status === 429 || status >= 500;
+
+const sessionKey = (file: File) => `${SESSION_STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+const defaultStorage = (): Storage | null => {
+  try { return typeof localStorage !== 'undefined' ? localStorage : null; } catch (e) { return null; }
+};
+
+const loadSession = (storage: Storage | null, file: File): StoredSession | null => {
+  if (!storage) return null;
+  try {
+    const raw = storage.getItem(sessionKey(file));
+    if (!raw) return null;
+    const session: StoredSession = JSON.parse(raw);
+    if (Date.now() - session.startedAt > SESSION_MAX_AGE_MS) {
+      storage.removeItem(sessionKey(file));
+      return null;
+    }
+    return session;
+  } catch (e) {
+    return null;
+  }
+};
+
+const saveSession = (storage: Storage | null, file: File, session: StoredSession) => {
+  try { storage?.setItem(sessionKey(file), JSON.stringify(session)); } catch (e) {}
+};
+
+const clearSession = (storage: Storage | null, file: File) => {
+  try { storage?.removeItem(sessionKey(file)); } catch (e) {}
+};
+
+const parseUploadedFile = (body: string): UploadedFile | undefined => {
+  try {
+    const json = JSON.parse(body);
+    if (json?.file?.name && json?.file?.uri) return { name: json.file.name, uri: json.file.uri };
+  } catch (e) {}
+  return undefined;
+};
+
+const waitUntilOnline = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (typeof navigator === 'undefined' || navigator.onLine !== false) return resolve();
+  const onOnline = () => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  };
+  const onAbort = () => {
+    window.removeEventListener('online', onOnline);
+    reject(signal!.reason);
+  };
+  window.addEventListener('online', onOnline, { once: true });
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// The upload URL returned points back at the proxy, which streams chunks through.
+const startSession = async (file: File, baseUrl: string): Promise<string> => {
+  const metadata = { file: { display_name: file.name } };
+  const response = await fetch(`${baseUrl}/files/upload`, {
+    method: 'POST',
+    headers: {
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': file.size.toString(),
+      'X-Goog-Upload-Header-Content-Type': file.type,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(metadata),
+  });
+
+  if (!response.ok) {
+    const errText = await response.text();
+    throw new Error(`Upload init failed (${response.status}): ${errText}`);
+  }
+
+  const uploadUrl = response.headers.get('x-goog-upload-url');
+  if (!uploadUrl) throw new Error("No upload URL returned by the API proxy.");
+  return uploadUrl;
+};
+
+// Asks the server how many bytes of the session it has committed.
+export const queryUploadStatus = async (uploadUrl: string, signal?: AbortSignal): Promise<UploadStatus> => {
+  const response = await fetch(uploadUrl, {
+    method: 'POST',
+    headers: { 'X-Goog-Upload-Command': 'query' },
+    signal,
+  });
+  if (!response.ok) return { state: 'unknown', received: 0 };
+
+  const state = (response.headers.get('x-goog-upload-status') || 'unknown') as UploadStatus['state'];
+  const received = parseInt(response.headers.get('x-goog-upload-size-received') || '0', 10);
+  const file = state === 'final' ? parseUploadedFile(await response.text()) : undefined;
+  return { state, received: Number.isFinite(received) ? received : 0, file };
+};
+
+// XHR rather than fetch: fetch exposes no upload progress events.
+const sendChunk = (
+  uploadUrl: string,
+  chunk: Blob,
+  offset: number,
+  finalize: boolean,
+  onBytes: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<ChunkResponse> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const xhr = new XMLHttpRequest();
+  const onAbort = () => xhr.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  xhr.open('POST', uploadUrl);
+  xhr.setRequestHeader('X-Goog-Upload-Command', finalize ? 'upload, finalize' : 'upload');
+  xhr.setRequestHeader('X-Goog-Upload-Offset', offset.toString());
+  xhr.upload.onprogress = (e) => onBytes(e.loaded);
+  xhr.onload = () => resolve({ status: xhr.status, body: xhr.responseText });
+  xhr.onerror = () => reject(new Error("Network error during chunk upload."));
+  xhr.ontimeout = () => reject(new Error("Chunk upload timed out."));
+  xhr.onabort = () => reject(signal?.reason);
+  xhr.onloadend = () => signal?.removeEventListener('abort', onAbort);
+  xhr.send(chunk);
+});
+
+// Tells the server to discard an unfinished resumable session. Best effort.
+export const cancelUploadSession = async (uploadUrl: string): Promise<void> => {
+  try {
+    await fetch(uploadUrl, { method: 'POST', headers: { 'X-Goog-Upload-Command': 'cancel' } });
+  } catch (e) {
+    console.warn("Upload session cancel failed", e);
+  }
+};
+
+// Uploads a file with the resumable protocol in fixed-size chunks. Dropped
+// connections are recovered by querying the committed offset and continuing
+// from there; the session survives page reloads via `storage`.
+export const uploadFileToGemini = async (file: File, options: UploadOptions): Promise<UploadedFile> => {
+  const {
+    baseUrl = PROXY_BASE,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    onProgress,
+    signal,
+  } = options;
+  const storage = options.storage === undefined ? defaultStorage() : options.storage;
+  const chunkSize = Math.max(CHUNK_GRANULARITY, Math.floor((options.chunkSize ?? DEFAULT_CHUNK_SIZE) / CHUNK_GRANULARITY) * CHUNK_GRANULARITY);
+
+  let uploadUrl: string | null = null;
+  let offset = 0;
+  let resumedFrom: number | undefined;
+
+  // 1. Resume a stored session if the server still has it
+  const stored = loadSession(storage, file);
+  if (stored) {
+    try {
+      const status = await queryUploadStatus(stored.uploadUrl, signal);
+      if (status.state === 'final' && status.file) {
+        clearSession(storage, file);
+        onProgress?.({ uploaded: file.size, total: file.size, resumedFrom: file.size });
+        return status.file;
+      }
+      if (status.state === 'active') {
+        uploadUrl = stored.uploadUrl;
+        offset = resumedFrom = status.received;
+      }
+    } catch (e) {
+      if (signal?.aborted) {
+        clearSession(storage, file);
+        void cancelUploadSession(stored.uploadUrl);
+        throw e;
+      }
+      console.warn("Stored upload session could not be queried; starting over.", e);
+    }
+    if (!uploadUrl) clearSession(storage, file);
+  }
+
+  // 2. Otherwise start a new session. A cancel doesn't abort the request: the
+  // server may open the session anyway, and only the response says which one
+  // to cancel.
+  if (!uploadUrl) {
+    const starting = startSession(file, baseUrl);
+    try {
+      uploadUrl = await untilAborted(starting, signal);
+    } catch (err) {
+      if (signal?.aborted) void starting.then(cancelUploadSession, () => {});
+      throw err;
+    }
+    saveSession(storage, file, { uploadUrl, startedAt: Date.now() });
+  }
+
+  try {
+    return await sendChunks(file, uploadUrl, offset, { chunkSize, maxRetries, storage, signal, onProgress, resumedFrom });
+  } catch (err) {
+    // A cancelled upload should not linger on the server or be resumed later
+    if (signal?.aborted) {
+      clearSession(storage, file);
+      void cancelUploadSession(uploadUrl);
+    }
+    throw err;
+  }
+};
+
+interface ChunkLoopOptions {
+  chunkSize: number;
+  maxRetries: number;
+  storage: Storage | null;
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+  resumedFrom?: number;
+}
+
+const sendChunks = async (
+  file: File,
+  uploadUrl: string,
+  offset: number,
+  { chunkSize, maxRetries, storage, signal, onProgress, resumedFrom }: ChunkLoopOptions
+): Promise<UploadedFile> => {
+  const report = (uploaded: number) => onProgress?.({ uploaded: Math.min(uploaded, file.size), total: file.size, resumedFrom });
+  report(offset);
+
+  // 3. Send chunks, re-syncing the offset with the server after any failure
+  let failures = 0;
+  let needsSync = false;
+  while (true) {
+    if (needsSync) {
+      if (++failures > maxRetries) {
+        throw new Error(`Upload interrupted ${maxRetries} times; progress is saved, run the analysis again to resume.`);
+      }
+      await sleep(Math.min(MAX_BACKOFF_MS, Math.pow(2, failures) * 500), signal);
+      await waitUntilOnline(signal);
+      let status: UploadStatus;
+      try {
+        status = await queryUploadStatus(uploadUrl, signal);
+      } catch (err) {
+        signal?.throwIfAborted();
+        console.warn("Upload status query failed", err);
+        continue;
+      }
+      if (status.state === 'final' && status.file) {
+        clearSession(storage, file);
+        report(file.size);
+        return status.file;
+      }
+      if (status.state !== 'active') {
+        clearSession(storage, file);
+        throw new Error(`Upload session is ${status.state}; run the analysis again to restart it.`);
+      }
+      offset = status.received;
+      report(offset);
+      needsSync = false;
+    }
+
+    const end = Math.min(offset + chunkSize, file.size);
+    const finalize = end === file.size;
+
+    let response: ChunkResponse;
+    try {
+      response = await sendChunk(uploadUrl, file.slice(offset, end), offset, finalize, loaded => report(offset + loaded), signal);
+    } catch (err) {
+      signal?.throwIfAborted();
+      console.warn(`Chunk at offset ${offset} failed`, err);
+      needsSync = true;
+      continue;
+    }
+
+    if (response.status >= 200 && response.status < 300) {
+      failures = 0;
+      offset = end;
+      report(offset);
+      if (finalize) {
+        clearSession(storage, file);
+        const uploaded = parseUploadedFile(response.body);
+        if (!uploaded) throw new Error("Upload finished but no file metadata was returned.");
+        return uploaded;
+      }
+      continue;
+    }
+
+    if (!isRetryableStatus(response.status)) {
+      clearSession(storage, file);
+      throw new Error(`Upload bytes failed (${response.status}): ${response.body}`);
+    }
+    console.warn(`Chunk at offset ${offset} returned ${response.status}`);
+    needsSync = true;
+  }
+};
+
+// `fileName` is the Files API name, "files/<id>".
+export const getFileState = async (fileName: string, baseUrl: string = PROXY_BASE, signal?: AbortSignal): Promise<string> => {
+  const response = await fetch(`${baseUrl}/${fileName}`, { signal });
+  if (!response.ok) return "UNKNOWN";
+  const data = await response.json();
+  return data.state;
+};
+
+// Removes an uploaded file from Gemini storage. Best effort.
+export const deleteFile = async (fileName: string, baseUrl: string = PROXY_BASE): Promise<void> => {
+  try {
+    const response = await fetch(`${baseUrl}/${fileName}`, { method: 'DELETE' });
+    if (!response.ok) console.warn(`Deleting ${fileName} returned ${response.status}`);
+  } catch (e) {
+    console.warn(`Deleting ${fileName} failed`, e);
+  }
+};
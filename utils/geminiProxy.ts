@@ -0,0 +1,137 @@
+// Client for the PitchSide API proxy (server/). The proxy holds the Gemini key
+// and picks the model for each endpoint; the browser never sees either.
+// Request and response shapes here are shared with the server.
+
+import type { MatchSetup } from '../types';
+import type { AnalysisWindow } from './analysisPrompt';
+
+export const PROXY_BASE = "/api";
+
+export const PROXY_MODELS = {
+  analysis: "gemini-3-pro-preview",
+  search: "gemini-2.5-flash",
+  imageEdit: "gemini-2.5-flash-image",
+  live: "gemini-2.5-flash-native-audio-preview-09-2025",
+} as const;
+
+export interface ProxyStatus {
+  keyConfigured: boolean;
+}
+
+// An uploaded file (see geminiFiles), or a small video sent inline
+export type AnalysisVideo =
+  | { fileData: { mimeType: string; fileUri: string } }
+  | { inlineData: { mimeType: string; data: string } };
+
+// The proxy builds the prompt from these; see utils/analysisPrompt
+export interface AnalysisRequest {
+  video: AnalysisVideo;
+  setup?: MatchSetup;
+  window?: AnalysisWindow; // one segment of a long match
+  structured: boolean; // constrain the output to the AnalysisData schema
+}
+
+// The analysis endpoint answers with one JSON object per line
+export type AnalysisStreamLine = { text: string } | { error: { message: string; status?: number } };
+
+export interface SearchRequest {
+  query: string;
+}
+
+export interface GroundingChunk {
+  web?: {
+    uri?: string;
+    title?: string;
+  };
+}
+
+export interface SearchResponse {
+  text: string;
+  sources: GroundingChunk[];
+}
+
+export interface InlineImage {
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface ImageEditRequest {
+  image: InlineImage;
+  prompt: string;
+}
+
+export interface ImageEditResponse {
+  image: InlineImage | null;
+  text?: string;
+}
+
+export interface LiveTokenResponse {
+  token: string; // single-use ephemeral token for one Live session
+}
+
+// Errors carry the HTTP status, so callers can retry 429 and 503 as before.
+const proxyError = (message: string, status?: number) => Object.assign(new Error(message), { status });
+
+const readError = async (response: Response) => {
+  const text = await response.text();
+  try {
+    const json = JSON.parse(text);
+    if (json?.error?.message) return proxyError(json.error.message, response.status);
+  } catch (e) {}
+  return proxyError(`API proxy returned ${response.status}${text ? `: ${text}` : ''}`, response.status);
+};
+
+const postJson = async <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(`${PROXY_BASE}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) throw await readError(response);
+  return response.json();
+};
+
+// Null when the proxy can't be reached.
+export const getProxyStatus = async (): Promise<ProxyStatus | null> => {
+  try {
+    const response = await fetch(`${PROXY_BASE}/status`);
+    return response.ok ? await response.json() : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// Streams the analysis text as the model writes it.
+export async function* streamAnalysis(request: AnalysisRequest, signal?: AbortSignal): AsyncGenerator<string> {
+  const response = await fetch(`${PROXY_BASE}/analysis`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+  if (!response.ok) throw await readError(response);
+  if (!response.body) throw new Error("API proxy returned no stream.");
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (value) buffer += value;
+    const lines = buffer.split('\n');
+    buffer = done ? "" : lines.pop()!;
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const parsed: AnalysisStreamLine = JSON.parse(line);
+      if ('error' in parsed) throw proxyError(parsed.error.message, parsed.error.status);
+      yield parsed.text;
+    }
+    if (done) return;
+  }
+}
+
+export const searchWeb = (query: string) => postJson<SearchResponse>('/search', { query } satisfies SearchRequest);
+
+export const editImage = (request: ImageEditRequest) => postJson<ImageEditResponse>('/image-edit', request);
+
+export const createLiveToken = () => postJson<LiveTokenResponse>('/live/token', {});
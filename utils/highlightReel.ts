@@ -0,0 +1,209 @@
+// In-browser highlight reel: plays each clip window of the source video into
+// a canvas and records the canvas (plus audio) with MediaRecorder. Rendering
+// runs in real time, so a reel takes as long to build as it lasts, and the
+// tab should stay in the foreground (background tabs throttle frames).
+
+import { formatTimestamp } from './validation';
+import { sleep } from './abort';
+import { activeTelestrations, renderShapes } from './telestration';
+import { Telestration } from '../types';
+
+export interface ReelClip {
+  start: number; // seconds
+  end: number;   // seconds
+  title?: string;    // shown on the title card
+  subtitle?: string;
+}
+
+export interface ReelOptions {
+  titleCards?: boolean;
+  titleCardSeconds?: number;
+  maxWidth?: number;
+  telestrations?: Telestration[]; // drawn over the footage while their hold lasts
+  signal?: AbortSignal;
+  onProgress?: (progress: { clipIndex: number; clipCount: number; fraction: number }) => void;
+}
+
+export interface ReelResult {
+  blob: Blob;
+  mimeType: string;
+  duration: number; // seconds of footage + title cards
+}
+
+const MIME_CANDIDATES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+const FRAME_RATE = 30;
+
+export const isReelExportSupported = () =>
+  typeof MediaRecorder !== 'undefined' &&
+  typeof HTMLCanvasElement.prototype.captureStream === 'function' &&
+  MIME_CANDIDATES.some(type => MediaRecorder.isTypeSupported(type));
+
+const pickMimeType = () => MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type)) || '';
+
+// Resolves on `event`, rejects on video errors or abort.
+const once = (video: HTMLVideoElement, event: string, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const onDone = () => { cleanup(); resolve(); };
+  const onError = () => { cleanup(); reject(new Error("Source video could not be decoded.")); };
+  const onAbort = () => { cleanup(); reject(signal!.reason); };
+  const cleanup = () => {
+    video.removeEventListener(event, onDone);
+    video.removeEventListener('error', onError);
+    signal?.removeEventListener('abort', onAbort);
+  };
+  video.addEventListener(event, onDone, { once: true });
+  video.addEventListener('error', onError, { once: true });
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    const next = line ? `${line} ${word}` : word;
+    if (ctx.measureText(next).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+const drawTitleCard = (ctx: CanvasRenderingContext2D, clip: ReelClip, index: number) => {
+  const { width, height } = ctx.canvas;
+  const unit = height / 20;
+  ctx.fillStyle = '#020617';
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = '#10b981';
+  ctx.fillRect(width * 0.1, height * 0.36, unit * 3, unit * 0.25);
+
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#94a3b8';
+  ctx.font = `600 ${unit * 0.7}px Inter, sans-serif`;
+  ctx.fillText(`CLIP ${index + 1} · ${formatTimestamp(clip.start)}`, width * 0.1, height * 0.28);
+
+  ctx.fillStyle = '#f8fafc';
+  ctx.font = `700 ${unit * 1.3}px Inter, sans-serif`;
+  const titleLines = wrapLines(ctx, clip.title || `Clip ${index + 1}`, width * 0.8).slice(0, 3);
+  titleLines.forEach((line, i) => ctx.fillText(line, width * 0.1, height * 0.42 + i * unit * 1.6));
+
+  if (clip.subtitle) {
+    ctx.fillStyle = '#cbd5e1';
+    ctx.font = `400 ${unit * 0.75}px Inter, sans-serif`;
+    wrapLines(ctx, clip.subtitle, width * 0.8).slice(0, 3).forEach((line, i) =>
+      ctx.fillText(line, width * 0.1, height * 0.44 + titleLines.length * unit * 1.6 + i * unit));
+  }
+};
+
+export async function renderHighlightReel(videoUrl: string, clips: ReelClip[], options: ReelOptions = {}): Promise<ReelResult> {
+  const { titleCards = true, titleCardSeconds = 2.5, maxWidth = 1280, telestrations, signal, onProgress } = options;
+  if (clips.length === 0) throw new Error("Select at least one clip.");
+  if (!isReelExportSupported()) throw new Error("This browser cannot record video (MediaRecorder with canvas capture is required).");
+
+  const video = document.createElement('video');
+  video.src = videoUrl;
+  video.crossOrigin = 'anonymous';
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  let audioContext: AudioContext | null = null;
+  let recorder: MediaRecorder | null = null;
+  let frameHandle = 0;
+
+  try {
+    await once(video, 'loadedmetadata', signal);
+    const scale = Math.min(1, maxWidth / (video.videoWidth || maxWidth));
+    const canvas = document.createElement('canvas');
+    // Even dimensions keep hardware encoders happy
+    canvas.width = Math.round((video.videoWidth || 1280) * scale / 2) * 2;
+    canvas.height = Math.round((video.videoHeight || 720) * scale / 2) * 2;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D context unavailable.");
+
+    // Route audio through WebAudio so it can be recorded without playing aloud
+    const stream = canvas.captureStream(FRAME_RATE);
+    audioContext = new AudioContext();
+    const destination = audioContext.createMediaStreamDestination();
+    audioContext.createMediaElementSource(video).connect(destination);
+    destination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+
+    const mimeType = pickMimeType();
+    recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 6_000_000 });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    const stopped = new Promise<void>(resolve => { recorder!.onstop = () => resolve(); });
+
+    let card: { clip: ReelClip; index: number } | null = null;
+    const draw = () => {
+      if (card) {
+        drawTitleCard(ctx, card.clip, card.index);
+      } else {
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const shapes = activeTelestrations(telestrations, video.currentTime, false).flatMap(t => t.shapes);
+        renderShapes(ctx, shapes, { x: 0, y: 0, width: canvas.width, height: canvas.height });
+      }
+      frameHandle = requestAnimationFrame(draw);
+    };
+
+    recorder.start(1000);
+    recorder.pause();
+    frameHandle = requestAnimationFrame(draw);
+    let recorded = 0;
+
+    for (let i = 0; i < clips.length; i++) {
+      const clip = clips[i];
+      const start = Math.max(0, clip.start);
+      const end = Math.min(video.duration, clip.end);
+      if (end <= start) continue;
+      const report = (fraction: number) => onProgress?.({ clipIndex: i, clipCount: clips.length, fraction });
+
+      if (titleCards) {
+        card = { clip, index: i };
+        recorder.resume();
+        await sleep(titleCardSeconds * 1000, signal);
+        recorder.pause();
+        recorded += titleCardSeconds;
+        card = null;
+      }
+
+      video.currentTime = start;
+      await once(video, 'seeked', signal);
+      recorder.resume();
+      await video.play();
+      await new Promise<void>((resolve, reject) => {
+        const onTime = () => {
+          report(Math.min(1, (video.currentTime - start) / (end - start)));
+          if (video.currentTime >= end || video.ended) finish();
+        };
+        const onAbort = () => { cleanup(); reject(signal!.reason); };
+        const finish = () => { cleanup(); resolve(); };
+        const cleanup = () => {
+          video.removeEventListener('timeupdate', onTime);
+          video.removeEventListener('ended', finish);
+          signal?.removeEventListener('abort', onAbort);
+        };
+        video.addEventListener('timeupdate', onTime);
+        video.addEventListener('ended', finish);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+      video.pause();
+      recorder.pause();
+      recorded += end - start;
+      report(1);
+    }
+
+    recorder.stop();
+    await stopped;
+    return { blob: new Blob(chunks, { type: mimeType.split(';')[0] }), mimeType, duration: recorded };
+  } finally {
+    cancelAnimationFrame(frameHandle);
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+    audioContext?.close();
+  }
+}
@@ -0,0 +1,109 @@
+// Incremental extraction of completed values from a streamed JSON object
+
+// 'item' = one complete element of a top-level array (e.g. events[7]);
+// 'field' = a complete top-level string or object value (e.g. formations).
+export type StreamedValueKind = 'item' | 'field';
+
+export type StreamedValueHandler = (key: string, value: unknown, kind: StreamedValueKind) => void;
+
+// Feeds on text chunks and reports each top-level field and each object inside
+// a top-level array as soon as its closing quote or brace arrives. Anything
+// before the first "{" (e.g. a markdown fence) is skipped.
+export class JsonStreamExtractor {
+  private text = '';
+  private pos = 0;
+  private started = false;
+  private stack: ('{' | '[')[] = [];
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private keyCandidate: string | null = null;
+  private currentKey: string | null = null;
+  private valueStart = -1;
+
+  constructor(private readonly onValue: StreamedValueHandler) {}
+
+  push(chunk: string) {
+    this.text += chunk;
+    for (; this.pos < this.text.length; this.pos++) {
+      const ch = this.text[this.pos];
+
+      if (!this.started) {
+        if (ch === '{') {
+          this.started = true;
+          this.stack.push('{');
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (ch === '\\') this.escaped = true;
+        else if (ch === '"') {
+          this.inString = false;
+          this.onStringEnd();
+        }
+        continue;
+      }
+
+      switch (ch) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.pos;
+          break;
+        case '{':
+        case '[':
+          this.onOpen(ch);
+          this.stack.push(ch);
+          break;
+        case '}':
+        case ']':
+          this.onClose(this.stack.pop());
+          break;
+        case ':':
+          if (this.stack.length === 1) this.currentKey = this.keyCandidate;
+          break;
+        case ',':
+          if (this.stack.length === 1) this.currentKey = null;
+          break;
+      }
+    }
+  }
+
+  private emit(kind: StreamedValueKind, end: number) {
+    if (!this.currentKey || this.valueStart === -1) return;
+    const slice = this.text.slice(this.valueStart, end + 1);
+    this.valueStart = -1;
+    let value: unknown;
+    try {
+      value = JSON.parse(slice);
+    } catch (e) {
+      return; // Malformed fragment; the final whole-response validation reports it
+    }
+    this.onValue(this.currentKey, value, kind);
+  }
+
+  private onStringEnd() {
+    if (this.stack.length !== 1) return;
+    if (this.currentKey === null) {
+      try { this.keyCandidate = JSON.parse(this.text.slice(this.stringStart, this.pos + 1)); } catch (e) { this.keyCandidate = null; }
+    } else {
+      this.valueStart = this.stringStart;
+      this.emit('field', this.pos);
+    }
+  }
+
+  private onOpen(ch: '{' | '[') {
+    if (ch !== '{' || !this.currentKey) return;
+    const depth = this.stack.length;
+    const inRootArray = depth === 2 && this.stack[1] === '[';
+    if (depth === 1 || inRootArray) this.valueStart = this.pos;
+  }
+
+  private onClose(closed: '{' | '[' | undefined) {
+    if (closed !== '{') return;
+    const depth = this.stack.length;
+    if (depth === 1) this.emit('field', this.pos);
+    else if (depth === 2 && this.stack[1] === '[') this.emit('item', this.pos);
+  }
+}
@@ -0,0 +1,145 @@
+// Match setup: canonical team names and kits, the prompt section that tells
+// the model about them, and mapping free-text team labels back onto them.
+
+import { AnalysisData, DiagramTeam, MatchSetup } from '../types';
+import { formatTimestamp } from './validation';
+import { resolvePlayer, rosterPrompt } from './roster';
+
+const STORAGE_KEY = 'pitchside.matchSetup';
+
+export type SetupTeam = 'team_a' | 'team_b';
+
+// Diagram colours when no kits are set
+export const DEFAULT_TEAM_COLORS: Record<DiagramTeam, string> = { A: '#10b981', B: '#ef4444' };
+
+export const KIT_COLORS = [
+  { name: 'Red', hex: '#dc2626' },
+  { name: 'Claret', hex: '#7f1d1d' },
+  { name: 'Orange', hex: '#f97316' },
+  { name: 'Yellow', hex: '#facc15' },
+  { name: 'Green', hex: '#16a34a' },
+  { name: 'Sky Blue', hex: '#38bdf8' },
+  { name: 'Blue', hex: '#2563eb' },
+  { name: 'Navy', hex: '#1e3a8a' },
+  { name: 'Purple', hex: '#7c3aed' },
+  { name: 'White', hex: '#f8fafc' },
+  { name: 'Grey', hex: '#6b7280' },
+  { name: 'Black', hex: '#111827' },
+];
+
+export const DEFAULT_SETUP: MatchSetup = {
+  team_a: { name: '', color: '#dc2626' },
+  team_b: { name: '', color: '#2563eb' },
+  team_a_first_half: 'right',
+};
+
+export const colorName = (hex: string) => KIT_COLORS.find(c => c.hex === hex)?.name ?? hex;
+
+export function loadLastSetup(storage: Storage = localStorage): MatchSetup | null {
+  try {
+    const saved = JSON.parse(storage.getItem(STORAGE_KEY) || 'null');
+    if (saved?.team_a?.name !== undefined && saved?.team_b?.name !== undefined) return saved;
+  } catch (e) {
+    console.warn("Ignoring unreadable match setup", e);
+  }
+  return null;
+}
+
+export function saveLastSetup(setup: MatchSetup, storage: Storage = localStorage) {
+  storage.setItem(STORAGE_KEY, JSON.stringify(setup));
+}
+
+// Describes any problem with the setup, or null when it can be used.
+export function checkSetup(setup: MatchSetup): string | null {
+  const a = setup.team_a.name.trim();
+  const b = setup.team_b.name.trim();
+  if (!a || !b) return "Both teams need a name.";
+  if (a.toLowerCase() === b.toLowerCase()) return "The teams need different names.";
+  return null;
+}
+
+// Display helpers that fall back to "Team A"/"Team B" without a setup.
+export const teamName = (setup: MatchSetup | undefined, team: SetupTeam) =>
+  setup?.[team].name || (team === 'team_a' ? 'Team A' : 'Team B');
+
+export const teamColors = (setup: MatchSetup | undefined): Record<DiagramTeam, string> =>
+  setup ? { A: setup.team_a.color, B: setup.team_b.color } : DEFAULT_TEAM_COLORS;
+
+const flip = (side: MatchSetup['team_a_first_half']) => side === 'left' ? 'right' : 'left';
+
+// Prompt section with the analyst's ground truth about the match.
+export function setupPrompt(setup: MatchSetup): string {
+  const a = setup.team_a.name.trim();
+  const b = setup.team_b.name.trim();
+  const secondHalf = setup.second_half_start !== undefined ? ` from ${formatTimestamp(setup.second_half_start)}` : '';
+  return [
+    'MATCH SETUP (provided by the analyst; treat as ground truth):',
+    `- Team A is "${a}" in ${colorName(setup.team_a.color)} kits; Team B is "${b}" in ${colorName(setup.team_b.color)} kits.`,
+    `- First half: "${a}" attacks towards the ${setup.team_a_first_half} of the frame and "${b}" towards the ${flip(setup.team_a_first_half)}. The teams swap ends in the second half${secondHalf}.`,
+    ...(setup.competition || setup.date ? [`- ${[setup.competition, setup.date].filter(Boolean).join(', ')}.`] : []),
+    ...rosterPrompt(setup),
+    `- Use exactly "${a}" or "${b}" as each event's team ("Both" or "Unknown" only when neither applies). formations.team_a is "${a}" and formations.team_b is "${b}"; in diagrams team "A" is "${a}".`,
+  ].join('\n');
+}
+
+const ALIASES: Record<SetupTeam, RegExp> = {
+  team_a: /\b(team a|team 1|home|hosts)\b/,
+  team_b: /\b(team b|team 2|away|visitors)\b/,
+};
+
+// Maps a free-text team label ("Home", "Red team", "City") onto a setup team,
+// or null when it names neither or both.
+export function resolveTeam(label: string, setup: MatchSetup): SetupTeam | null {
+  const text = label.trim().toLowerCase();
+  if (!text) return null;
+  const teams: SetupTeam[] = ['team_a', 'team_b'];
+  const unique = (matches: SetupTeam[]) => matches.length === 1 ? matches[0] : null;
+
+  const names = teams.map(t => setup[t].name.trim().toLowerCase());
+  const exact = teams.find((_, i) => names[i] === text);
+  if (exact) return exact;
+
+  const byName = teams.filter((_, i) => names[i] && (text.includes(names[i]) || (text.length >= 3 && names[i].includes(text))));
+  if (byName.length) return unique(byName);
+
+  const byAlias = teams.filter(t => ALIASES[t].test(text));
+  if (byAlias.length) return unique(byAlias);
+
+  return unique(teams.filter(t => text.includes(colorName(setup[t].color).toLowerCase())));
+}
+
+// Canonical team name for a label; unmatched labels are kept as they are.
+export const canonicalTeam = (label: string, setup: MatchSetup | undefined) => {
+  if (!setup) return label;
+  const team = resolveTeam(label, setup);
+  return team ? setup[team].name.trim() : label;
+};
+
+// Attaches the setup, re-keys every event to the canonical team names and
+// links player insights to the squads. Events keyed to a previous setup
+// follow its teams when they are renamed; player links that still point at
+// a roster entry (including manual assignments) are kept.
+export function applySetup(analysis: AnalysisData, setup: MatchSetup | null | undefined): AnalysisData {
+  if (!setup) return analysis;
+  const previous = analysis.setup;
+  const ids = [...(setup.team_a.roster || []), ...(setup.team_b.roster || [])].map(r => r.id);
+  const rekey = (label: string) => {
+    if (previous?.team_a.name.trim() === label) return setup.team_a.name.trim();
+    if (previous?.team_b.name.trim() === label) return setup.team_b.name.trim();
+    return canonicalTeam(label, setup);
+  };
+  return {
+    ...analysis,
+    setup,
+    events: analysis.events.map(e => {
+      const team = rekey(e.team);
+      return team === e.team ? e : { ...e, team };
+    }),
+    player_analysis: analysis.player_analysis.map(p => {
+      if (p.roster_id && ids.includes(p.roster_id)) return p;
+      const { roster_id, ...rest } = p;
+      const resolved = resolvePlayer(p.player, setup, resolveTeam(p.player, setup));
+      return resolved ? { ...rest, roster_id: resolved.id } : rest;
+    }),
+  };
+}
@@ -0,0 +1,156 @@
+// Match statistics derived from the event timeline and player actions.
+// AI and hand-coded events count the same; only type, team and time matter.
+
+import { AnalysisData, EventType, EVENT_TYPES, VideoEvent } from '../types';
+import { parseTimestamp } from './validation';
+import { playerName } from './roster';
+
+// Bucket for events whose team is neither of the two stat teams
+export const OTHER_TEAM = 'Other';
+
+// Contribution of each event type to its team's momentum
+const MOMENTUM_WEIGHTS: Record<EventType, number> = {
+  Goal: 5,
+  Shot: 3,
+  Transition: 1.5,
+  Pass: 1,
+  Defense: 1,
+  Tactical: 0.5,
+  Mistake: -2,
+};
+
+const MOMENTUM_BINS = 40;
+const MOMENTUM_SMOOTHING = 2; // bins either side in the rolling average
+
+// The two teams stats are split by: the setup's teams, else the two most
+// frequent labels that name a side.
+export function statTeams(analysis: AnalysisData): string[] {
+  if (analysis.setup) return [analysis.setup.team_a.name, analysis.setup.team_b.name];
+  const counts = new Map<string, number>();
+  analysis.events.forEach(e => {
+    if (/^(unknown|both|none|n\/a|)$/i.test(e.team.trim())) return;
+    counts.set(e.team, (counts.get(e.team) || 0) + 1);
+  });
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).slice(0, 2).map(([team]) => team);
+}
+
+export const teamKey = (team: string, teams: string[]) => teams.includes(team) ? team : OTHER_TEAM;
+
+// What a click on a chart narrows the timeline to.
+export interface EventFilter {
+  label: string;
+  types?: EventType[];
+  team?: string; // a stat team or OTHER_TEAM
+  start?: number;
+  end?: number;
+}
+
+export const matchesFilter = (event: VideoEvent, filter: EventFilter, teams: string[]) =>
+  (!filter.types || filter.types.includes(event.type)) &&
+  (!filter.team || teamKey(event.team, teams) === filter.team) &&
+  (filter.start === undefined || event.seconds >= filter.start) &&
+  (filter.end === undefined || event.seconds < filter.end);
+
+// Event counts per type, split by team (OTHER_TEAM included).
+export function countByTypeAndTeam(events: VideoEvent[], teams: string[]): Record<EventType, Record<string, number>> {
+  const counts = Object.fromEntries(EVENT_TYPES.map(type => [type, {} as Record<string, number>])) as Record<EventType, Record<string, number>>;
+  events.forEach(e => {
+    const team = teamKey(e.team, teams);
+    counts[e.type][team] = (counts[e.type][team] || 0) + 1;
+  });
+  return counts;
+}
+
+export interface TeamSummary {
+  team: string;
+  events: number;
+  shots: number; // goals count as shots
+  goals: number;
+  defensive: number;
+  transitions: number;
+  mistakes: number;
+}
+
+export function teamSummaries(events: VideoEvent[], teams: string[]): TeamSummary[] {
+  return teams.map(team => {
+    const own = events.filter(e => e.team === team);
+    const count = (...types: EventType[]) => own.filter(e => types.includes(e.type)).length;
+    return {
+      team,
+      events: own.length,
+      shots: count('Shot', 'Goal'),
+      goals: count('Goal'),
+      defensive: count('Defense'),
+      transitions: count('Transition'),
+      mistakes: count('Mistake'),
+    };
+  });
+}
+
+export interface Period {
+  label: string;
+  start: number;
+  end: number;
+}
+
+// Halves when the setup says where the second half starts; otherwise equal
+// blocks sized to the footage (15' for a full match, 5' or 1' for clips).
+export function matchPeriods(analysis: AnalysisData, duration: number): Period[] {
+  const end = Math.max(duration, ...analysis.events.map(e => e.seconds + 1), 1);
+  const half = analysis.setup?.second_half_start;
+  if (half !== undefined && half > 0 && half < end) {
+    return [{ label: '1st half', start: 0, end: half }, { label: '2nd half', start: half, end }];
+  }
+  const size = end >= 45 * 60 ? 15 * 60 : end >= 15 * 60 ? 5 * 60 : 60;
+  return Array.from({ length: Math.ceil(end / size) }, (_, i) => ({
+    label: `${i * size / 60}–${Math.min(end, (i + 1) * size) / 60 | 0}'`,
+    start: i * size,
+    end: Math.min(end, (i + 1) * size),
+  }));
+}
+
+export interface MomentumBin {
+  start: number;
+  end: number;
+  value: number; // -1..1; positive favours teams[0], negative teams[1]
+}
+
+// Rolling momentum over match time from weighted events per team.
+export function momentum(events: VideoEvent[], teams: string[], duration: number): MomentumBin[] {
+  const end = Math.max(duration, ...events.map(e => e.seconds + 1), 1);
+  const size = end / MOMENTUM_BINS;
+  const raw = new Array(MOMENTUM_BINS).fill(0);
+  events.forEach(e => {
+    const side = e.team === teams[0] ? 1 : e.team === teams[1] ? -1 : 0;
+    if (!side) return;
+    raw[Math.min(MOMENTUM_BINS - 1, Math.floor(e.seconds / size))] += side * MOMENTUM_WEIGHTS[e.type];
+  });
+  const smoothed = raw.map((_, i) => {
+    const window = raw.slice(Math.max(0, i - MOMENTUM_SMOOTHING), i + MOMENTUM_SMOOTHING + 1);
+    return window.reduce((sum, v) => sum + v, 0) / window.length;
+  });
+  const peak = Math.max(...smoothed.map(Math.abs)) || 1;
+  return smoothed.map((value, i) => ({ start: i * size, end: (i + 1) * size, value: value / peak }));
+}
+
+export interface PlayerStat {
+  name: string;
+  actions: number;
+  highImpact: number;
+  firstSeconds: number | null;
+}
+
+// Player actions per player, most involved first. Uses roster names where assigned.
+export function playerStats(analysis: AnalysisData): PlayerStat[] {
+  const stats = new Map<string, PlayerStat>();
+  analysis.player_analysis.forEach(p => {
+    const name = playerName(p, analysis.setup);
+    const stat = stats.get(name) ?? { name, actions: 0, highImpact: 0, firstSeconds: null };
+    stat.actions++;
+    if (p.impact === 'High') stat.highImpact++;
+    const seconds = parseTimestamp(p.time_start);
+    if (seconds !== null && (stat.firstSeconds === null || seconds < stat.firstSeconds)) stat.firstSeconds = seconds;
+    stats.set(name, stat);
+  });
+  return Array.from(stats.values()).sort((a, b) => b.actions - a.actions || b.highImpact - a.highImpact);
+}
@@ -0,0 +1,50 @@
+// Playlists of moments for team meetings: building items from analysis
+// entries, reordering, and the clip stages presentation mode steps through.
+
+import { AnalysisData, PlaylistItem } from '../types';
+import { buildInstances, DEFAULT_INSTANCE_OPTIONS, InstanceSource } from './timelineExport';
+import { parseTimestamp } from './validation';
+import { playerName } from './roster';
+
+// Copies one analysis entry into a playlist item, with the same clip window
+// the timeline export uses. Null when the entry has no time to play from.
+export function playlistItem(analysis: AnalysisData, source: InstanceSource, index: number, duration?: number): PlaylistItem | null {
+  const instance = buildInstances(analysis, { ...DEFAULT_INSTANCE_OPTIONS, include: [source], duration })
+    .find(i => i.sourceIndex === index);
+  if (!instance) return null;
+  const id = crypto.randomUUID();
+
+  if (source === 'tactical_insights') {
+    const insight = analysis.tactical_insights[index];
+    return { id, source, title: insight.title, start: instance.start, end: instance.end, key_seconds: insight.key_moment_seconds!, overlay: insight.improvement };
+  }
+  if (source === 'player_analysis') {
+    const action = analysis.player_analysis[index];
+    return {
+      id,
+      source,
+      title: `${playerName(action, analysis.setup)} · ${action.action_type}`,
+      start: instance.start,
+      end: instance.end,
+      key_seconds: parseTimestamp(action.time_start) ?? instance.start,
+      overlay: action.description,
+    };
+  }
+  const event = analysis.events[index];
+  return { id, source, title: `${event.type} · ${event.team}`, start: instance.start, end: instance.end, key_seconds: event.seconds, overlay: event.description };
+}
+
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || from >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(next.length, to)), 0, item);
+  return next;
+}
+
+// Each clip plays up to its key frame, pauses there with the overlay, then
+// plays out to the end and waits for the presenter.
+export type ClipStage = 'lead-in' | 'key' | 'follow' | 'end';
+
+export const playlistSeconds = (items: PlaylistItem[]) =>
+  items.reduce((sum, item) => sum + Math.max(0, item.end - item.start), 0);
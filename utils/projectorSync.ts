@@ -0,0 +1,89 @@
+// Second-screen sync: the analyst's console drives a projector window (the
+// app opened with `?projector`) over a same-origin BroadcastChannel. The
+// console is the source of truth; the projector only mirrors what it is sent.
+
+import { DrawingShape, Telestration } from '../types';
+
+export const PROJECTOR_PARAM = 'projector';
+const CHANNEL_NAME = 'pitchside-projector';
+const WINDOW_NAME = 'pitchside-projector';
+
+// The projector seeks only when it has drifted further than this, so normal
+// message latency doesn't make playback stutter.
+const MAX_DRIFT_SEC = 0.3;
+
+export interface PlaybackState {
+  time: number;
+  paused: boolean;
+  rate: number;
+  sentAt: number; // Date.now() on the console, to allow for delivery delay
+}
+
+// What the room sees on top of the video: the clip being presented and,
+// while paused on its key frame, the coaching point.
+export interface ProjectorOverlay {
+  title: string;
+  position?: string; // e.g. "3/8"
+  text?: string;
+}
+
+// Object URLs stay valid in other same-origin windows while the console that
+// created them is open, so the projector plays the same file without a copy.
+export interface ProjectorScene {
+  videoUrl: string | null;
+  telestrations: Telestration[];
+  overlay: ProjectorOverlay | null;
+}
+
+export type ProjectorMessage =
+  | { type: 'hello' } // projector opened (or reloaded) and wants the current state
+  | { type: 'goodbye'; from: 'console' | 'projector' }
+  | { type: 'scene'; scene: ProjectorScene }
+  | { type: 'playback'; playback: PlaybackState }
+  | { type: 'draft'; shapes: DrawingShape[] | null }; // strokes while the analyst draws
+
+export interface ProjectorChannel {
+  post: (message: ProjectorMessage) => void;
+  close: () => void;
+}
+
+export function openProjectorChannel(onMessage: (message: ProjectorMessage) => void): ProjectorChannel {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (e: MessageEvent<ProjectorMessage>) => onMessage(e.data);
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+}
+
+export const isProjectorWindow = () => new URLSearchParams(window.location.search).has(PROJECTOR_PARAM);
+
+// Opens the projector (or focuses the one already open). Null when the
+// browser blocked the popup.
+export function openProjectorWindow(): Window | null {
+  const url = new URL(window.location.href);
+  url.search = `?${PROJECTOR_PARAM}`;
+  url.hash = '';
+  const win = window.open(url.toString(), WINDOW_NAME, 'popup,width=1280,height=720');
+  win?.focus();
+  return win;
+}
+
+export const playbackOf = (video: HTMLVideoElement): PlaybackState => ({
+  time: video.currentTime,
+  paused: video.paused,
+  rate: video.playbackRate,
+  sentAt: Date.now(),
+});
+
+// Brings a mirrored video in line with the console's playback.
+export function followPlayback(video: HTMLVideoElement, playback: PlaybackState) {
+  const elapsed = playback.paused ? 0 : ((Date.now() - playback.sentAt) / 1000) * playback.rate;
+  const target = playback.time + elapsed;
+  if (video.playbackRate !== playback.rate) video.playbackRate = playback.rate;
+  if (Math.abs(video.currentTime - target) > MAX_DRIFT_SEC) video.currentTime = target;
+  if (playback.paused && !video.paused) video.pause();
+  if (!playback.paused && video.paused) {
+    void video.play().catch(err => console.warn("Projector playback blocked", err));
+  }
+}
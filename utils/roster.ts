@@ -0,0 +1,166 @@
+// Squad rosters: parsing pasted or imported lists, and resolving the model's
+// player descriptions ("Number 10", "Left Winger") to roster entries.
+
+import { MatchSetup, PlayerInsight, RosterPlayer } from '../types';
+
+type SetupTeam = 'team_a' | 'team_b';
+
+const POSITION_ALIASES: [RegExp, string][] = [
+  [/\b(goal ?keeper|keeper|gk)\b/, 'GK'],
+  [/\b(right[- ]?wing[- ]?back|rwb)\b/, 'RWB'],
+  [/\b(left[- ]?wing[- ]?back|lwb)\b/, 'LWB'],
+  [/\b(right[- ]?back|rb)\b/, 'RB'],
+  [/\b(left[- ]?back|lb)\b/, 'LB'],
+  [/\b(cent(re|er)[- ]?(back|half)|cb)\b/, 'CB'],
+  [/\b((defensive|holding) mid(fielder)?|dm|cdm)\b/, 'DM'],
+  [/\b(attacking mid(fielder)?|am|cam)\b/, 'AM'],
+  [/\b(right mid(fielder)?|rm)\b/, 'RM'],
+  [/\b(left mid(fielder)?|lm)\b/, 'LM'],
+  [/\b(cent(re|er)(al)? mid(fielder)?|midfielder|cm)\b/, 'CM'],
+  [/\b(right[- ]?wing(er)?|rw)\b/, 'RW'],
+  [/\b(left[- ]?wing(er)?|lw)\b/, 'LW'],
+  [/\b(striker|cent(re|er)[- ]?forward|st|cf)\b/, 'ST'],
+];
+
+// Standard abbreviation for a position mentioned in `text`, if any.
+export function positionIn(text: string): string | null {
+  const lowered = text.toLowerCase();
+  return POSITION_ALIASES.find(([pattern]) => pattern.test(lowered))?.[1] ?? null;
+}
+
+// "#10", "No. 10", "Number 10", or a lone number as in "Red 7".
+export function shirtNumber(text: string): number | null {
+  const explicit = text.match(/(?:#|\bno\.?\s*|\bnumber\s*|\bnr\.?\s*)(\d{1,2})\b/i);
+  if (explicit) return Number(explicit[1]);
+  const lone = text.match(/\b\d{1,2}\b/g);
+  return lone && lone.length === 1 ? Number(lone[0]) : null;
+}
+
+// Ids are derived from the entry so re-parsing an edited list keeps links intact.
+const rosterId = (prefix: string, number: number | undefined, name: string) =>
+  `${prefix}-${number ?? 'x'}-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+
+const splitCells = (line: string) =>
+  /[,;\t]/.test(line) ? line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"(.*)"$/, '$1').trim()) : null;
+
+const isNumber = (cell: string) => /^#?\d{1,2}$/.test(cell);
+
+export interface ParsedRoster {
+  players: RosterPlayer[];
+  skipped: number[]; // 1-based line numbers that had no name
+}
+
+// Reads a squad list, one player per line: CSV with or without a header row
+// (number/name/position columns), or typed lines like "10 Bukayo Saka RW".
+export function parseRoster(text: string, prefix: string): ParsedRoster {
+  const lines = text.split(/\r?\n/);
+  const players: RosterPlayer[] = [];
+  const skipped: number[] = [];
+  let columns: { number: number; name: number; position: number } | null = null;
+
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) return;
+    const cells = splitCells(line);
+
+    if (i === lines.findIndex(l => l.trim()) && cells?.some(c => /^(name|player)/i.test(c))) {
+      const find = (pattern: RegExp) => cells.findIndex(c => pattern.test(c));
+      columns = {
+        number: find(/^(#|no\.?|num(ber)?|shirt|squad ?no\.?)$/i),
+        name: find(/name|player/i),
+        position: find(/^(pos(ition)?|role)$/i),
+      };
+      return;
+    }
+
+    let number: string | undefined;
+    let name: string | undefined;
+    let position: string | undefined;
+    if (cells && columns) {
+      const { number: n, name: nm, position: p } = columns;
+      number = n >= 0 ? cells[n] : undefined;
+      name = cells[nm];
+      position = p >= 0 ? cells[p] : undefined;
+    } else {
+      // Typed or header-less lines: a number, a known position, and the rest is the name
+      const tokens = cells ?? line.split(/\s+/);
+      const rest = [...tokens];
+      const numberAt = rest.findIndex(isNumber);
+      if (numberAt >= 0) number = rest.splice(numberAt, 1)[0];
+      const last = rest[rest.length - 1];
+      if (rest.length > 1 && last && last.length <= 4 && positionIn(last)) position = rest.pop();
+      name = (cells ? rest.find(Boolean) : rest.join(' '))?.trim();
+    }
+
+    if (!name) {
+      skipped.push(i + 1);
+      return;
+    }
+    const shirt = number && isNumber(number) ? Number(number.replace('#', '')) : undefined;
+    players.push({
+      id: rosterId(prefix, shirt, name),
+      name,
+      ...(shirt !== undefined ? { number: shirt } : {}),
+      ...(position ? { position: positionIn(position) ?? position.toUpperCase() } : {}),
+    });
+  });
+
+  return { players, skipped };
+}
+
+// Inverse of parseRoster for editing a saved squad as text.
+export const formatRoster = (players: RosterPlayer[] | undefined) =>
+  (players || []).map(p => [p.number ?? '', p.name, p.position ?? ''].join(', ').replace(/(, )+$/, '')).join('\n');
+
+export function findRosterPlayer(setup: MatchSetup | undefined, id: string | undefined): { team: SetupTeam; player: RosterPlayer } | null {
+  if (!setup || !id) return null;
+  for (const team of ['team_a', 'team_b'] as const) {
+    const player = setup[team].roster?.find(p => p.id === id);
+    if (player) return { team, player };
+  }
+  return null;
+}
+
+export const rosterLabel = (player: RosterPlayer) =>
+  player.number !== undefined ? `#${player.number} ${player.name}` : player.name;
+
+// Name to show for an insight: the assigned roster entry, else the model's text.
+export const playerName = (insight: PlayerInsight, setup: MatchSetup | undefined) => {
+  const entry = findRosterPlayer(setup, insight.roster_id);
+  return entry ? rosterLabel(entry.player) : insight.player;
+};
+
+const mentionsName = (name: string, text: string) => {
+  const lowered = text.toLowerCase();
+  const full = name.toLowerCase();
+  if (lowered.includes(full)) return true;
+  const surname = full.split(/\s+/).pop() ?? '';
+  return surname.length >= 3 && new RegExp(`\\b${surname.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(lowered);
+};
+
+// Resolves a description to a single roster entry by name, then shirt
+// number, then position. `team` narrows the search when the text names one.
+export function resolvePlayer(text: string, setup: MatchSetup, team: SetupTeam | null): RosterPlayer | null {
+  const candidates = (team ? [team] : ['team_a', 'team_b'] as const).flatMap(t => setup[t].roster || []);
+  if (candidates.length === 0) return null;
+  const unique = (list: RosterPlayer[]) => list.length === 1 ? list[0] : null;
+
+  const byName = candidates.filter(p => mentionsName(p.name, text));
+  if (byName.length === 1) return byName[0];
+
+  const number = shirtNumber(text);
+  const pool = byName.length > 1 ? byName : candidates;
+  if (number !== null) return unique(pool.filter(p => p.number === number));
+
+  const position = positionIn(text);
+  return position ? unique(pool.filter(p => p.position === position)) : null;
+}
+
+// Prompt lines listing both squads.
+export function rosterPrompt(setup: MatchSetup): string[] {
+  const squads = (['team_a', 'team_b'] as const)
+    .filter(t => setup[t].roster?.length)
+    .map(t => `- ${setup[t].name} squad: ${setup[t].roster!.map(p => `${rosterLabel(p)}${p.position ? ` (${p.position})` : ''}`).join(', ')}.`);
+  if (squads.length === 0) return [];
+  return [...squads, '- In player_analysis, name identifiable players as "Name (#number)" from these squads.'];
+}
@@ -0,0 +1,95 @@
+// Minimal field-definition DSL shared by types.ts, the analysis prompt and
+// Gemini's structured output (responseSchema).
+
+import { Schema, Type } from '@google/genai';
+
+interface FieldBase {
+  description?: string;
+  optional?: boolean;
+}
+
+export interface StringField extends FieldBase { kind: 'string' }
+export interface NumberField extends FieldBase { kind: 'number'; integer?: boolean }
+export interface EnumField<V extends readonly string[] = readonly string[]> extends FieldBase { kind: 'enum'; values: V }
+export interface ArrayField<I extends Field = Field> extends FieldBase { kind: 'array'; items: I }
+export interface ObjectField<P extends Record<string, Field> = Record<string, any>> extends FieldBase { kind: 'object'; properties: P }
+
+export type Field = StringField | NumberField | EnumField | ArrayField | ObjectField;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type OptionalKeys<P> = { [K in keyof P]: P[K] extends { optional: true } ? K : never }[keyof P];
+
+type InferObject<P extends Record<string, Field>> = Simplify<
+  { [K in Exclude<keyof P, OptionalKeys<P>>]: Infer<P[K]> } &
+  { [K in OptionalKeys<P>]?: Infer<P[K]> }
+>;
+
+// Maps a field definition onto the TypeScript type it describes.
+export type Infer<F> =
+  F extends StringField ? string :
+  F extends NumberField ? number :
+  F extends EnumField<infer V> ? V[number] :
+  F extends ArrayField<infer I> ? Infer<I>[] :
+  F extends ObjectField<infer P> ? InferObject<P> :
+  never;
+
+export const field = {
+  string: (description?: string): StringField => ({ kind: 'string', description }),
+  number: (description?: string): NumberField => ({ kind: 'number', description }),
+  integer: (description?: string): NumberField => ({ kind: 'number', integer: true, description }),
+  enum: <const V extends readonly string[]>(values: V, description?: string): EnumField<V> => ({ kind: 'enum', values, description }),
+  array: <I extends Field>(items: I, description?: string): ArrayField<I> => ({ kind: 'array', items, description }),
+  object: <P extends Record<string, Field>>(properties: P, description?: string): ObjectField<P> => ({ kind: 'object', properties, description }),
+  optional: <F extends Field>(f: F): F & { optional: true } => ({ ...f, optional: true }),
+};
+
+export function toResponseSchema(f: Field): Schema {
+  const base: Schema = f.description ? { description: f.description } : {};
+  switch (f.kind) {
+    case 'string':
+      return { ...base, type: Type.STRING };
+    case 'number':
+      return { ...base, type: f.integer ? Type.INTEGER : Type.NUMBER };
+    case 'enum':
+      return { ...base, type: Type.STRING, format: 'enum', enum: [...f.values] };
+    case 'array':
+      return { ...base, type: Type.ARRAY, items: toResponseSchema(f.items) };
+    case 'object': {
+      const keys = Object.keys(f.properties);
+      return {
+        ...base,
+        type: Type.OBJECT,
+        properties: Object.fromEntries(keys.map(k => [k, toResponseSchema(f.properties[k])])),
+        required: keys.filter(k => !f.properties[k].optional),
+        propertyOrdering: keys,
+      };
+    }
+  }
+}
+
+const typeLabel = (f: Field): string => {
+  switch (f.kind) {
+    case 'string': return 'string';
+    case 'number': return f.integer ? 'integer' : 'number';
+    case 'enum': return f.values.map(v => `"${v}"`).join(' | ');
+    default: return f.kind;
+  }
+};
+
+// Renders a commented JSON skeleton for embedding in a text prompt.
+export function describeSchema(f: Field, indent = ''): string {
+  const inner = indent + '  ';
+  if (f.kind === 'object') {
+    const entries = Object.entries(f.properties);
+    const lines = entries.map(([key, child], i) => {
+      const note = [child.optional ? 'optional' : '', child.description ?? ''].filter(Boolean).join(', ');
+      const value = child.kind === 'object' || child.kind === 'array' ? describeSchema(child, inner) : typeLabel(child);
+      const comma = i < entries.length - 1 ? ',' : '';
+      return `${inner}"${key}": ${value}${comma}${note ? ` // ${note}` : ''}`;
+    });
+    return `{\n${lines.join('\n')}\n${indent}}`;
+  }
+  if (f.kind === 'array') return `[${describeSchema(f.items, indent)}]`;
+  return typeLabel(f);
+}
@@ -0,0 +1,179 @@
+// Full-text search over one analysis (or every saved one): events, tactical
+// insights and player actions, with facets for type, phase, team, impact and time.
+
+import { AnalysisData, AnalysisSession, EventType } from '../types';
+import { AnalysisListKey, parseTimestamp } from './validation';
+import { playerName } from './roster';
+
+export type SearchKind = 'event' | 'insight' | 'player';
+
+// The analysis list each kind of result lives in
+export const SEARCH_LISTS: Record<SearchKind, AnalysisListKey> = {
+  event: 'events',
+  insight: 'tactical_insights',
+  player: 'player_analysis',
+};
+
+export interface SearchDoc {
+  kind: SearchKind;
+  index: number; // position in its analysis list
+  seconds: number | null;
+  title: string;
+  fields: { name: string; text: string; weight: number }[];
+  type?: EventType;
+  phase?: string;
+  team?: string;
+  impact?: string;
+}
+
+export interface SearchFacets {
+  kinds: SearchKind[];
+  types: EventType[];
+  phases: string[];
+  teams: string[];
+  impacts: string[];
+  start?: number;
+  end?: number;
+}
+
+export const EMPTY_FACETS: SearchFacets = { kinds: [], types: [], phases: [], teams: [], impacts: [] };
+
+export interface SearchHit {
+  doc: SearchDoc;
+  score: number;
+  // Where the first term matched, split for highlighting
+  snippet: { field: string; before: string; match: string; after: string } | null;
+}
+
+const SNIPPET_CONTEXT = 40;
+
+// Lowercase without accents, so "Müller" matches "muller".
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export function indexAnalysis(analysis: AnalysisData): SearchDoc[] {
+  const events: SearchDoc[] = analysis.events.map((e, index) => ({
+    kind: 'event',
+    index,
+    seconds: e.seconds,
+    title: `${e.type} · ${e.team}`,
+    fields: [
+      { name: 'description', text: e.description, weight: 1 },
+      { name: 'type', text: e.type, weight: 2 },
+      { name: 'team', text: e.team, weight: 1 },
+    ],
+    type: e.type,
+    team: e.team,
+  }));
+  const insights: SearchDoc[] = analysis.tactical_insights.map((insight, index) => ({
+    kind: 'insight',
+    index,
+    seconds: insight.key_moment_seconds ?? null,
+    title: insight.title,
+    fields: [
+      { name: 'title', text: insight.title, weight: 3 },
+      { name: 'observation', text: insight.observation, weight: 1 },
+      { name: 'breakdown', text: (insight.breakdown || []).join(' · '), weight: 1 },
+      { name: 'improvement', text: insight.improvement, weight: 1 },
+    ],
+    phase: insight.phase,
+  }));
+  const players: SearchDoc[] = analysis.player_analysis.map((p, index) => {
+    const name = playerName(p, analysis.setup);
+    return {
+      kind: 'player',
+      index,
+      seconds: parseTimestamp(p.time_start),
+      title: `${name} · ${p.action_type}`,
+      fields: [
+        { name: 'player', text: name, weight: 3 },
+        { name: 'description', text: p.description, weight: 1 },
+        { name: 'action', text: p.action_type, weight: 2 },
+      ],
+      impact: p.impact,
+    };
+  });
+  return [...events, ...insights, ...players];
+}
+
+const inList = <T>(list: T[], value: T | undefined) => list.length === 0 || (value !== undefined && list.includes(value));
+
+// A facet with values selected excludes documents that don't carry it.
+export const matchesFacets = (doc: SearchDoc, facets: SearchFacets) =>
+  inList(facets.kinds, doc.kind) &&
+  inList(facets.types, doc.type) &&
+  inList(facets.phases, doc.phase) &&
+  inList(facets.teams, doc.team) &&
+  inList(facets.impacts, doc.impact) &&
+  (facets.start === undefined || (doc.seconds !== null && doc.seconds >= facets.start)) &&
+  (facets.end === undefined || (doc.seconds !== null && doc.seconds <= facets.end));
+
+const terms = (query: string) => normalize(query).split(/\s+/).filter(Boolean);
+
+// Every term must start a word somewhere in the document. Title and type
+// matches rank higher; an empty query lists everything in time order.
+export function searchDocs(docs: SearchDoc[], query: string, facets: SearchFacets = EMPTY_FACETS): SearchHit[] {
+  const patterns = terms(query).map(term => new RegExp(`(^|[^a-z0-9])${escapeRegExp(term)}`));
+  const hits: SearchHit[] = [];
+
+  docs.forEach(doc => {
+    if (!matchesFacets(doc, facets)) return;
+    const normalized = doc.fields.map(f => normalize(f.text));
+    let score = 0;
+    for (const pattern of patterns) {
+      const weights = doc.fields.filter((_, i) => pattern.test(normalized[i])).map(f => f.weight);
+      if (weights.length === 0) return;
+      score += Math.max(...weights);
+    }
+    hits.push({ doc, score, snippet: patterns.length ? snippetFor(doc, normalized, patterns[0]) : null });
+  });
+
+  return hits.sort((a, b) => b.score - a.score || (a.doc.seconds ?? Infinity) - (b.doc.seconds ?? Infinity));
+}
+
+// Normalizing keeps string length for Latin text, so offsets map back onto the original.
+function snippetFor(doc: SearchDoc, normalized: string[], pattern: RegExp): SearchHit['snippet'] {
+  const i = normalized.findIndex(text => pattern.test(text));
+  if (i < 0) return null;
+  const field = doc.fields[i];
+  const found = pattern.exec(normalized[i])!;
+  const start = found.index + found[1].length;
+  const end = found.index + found[0].length;
+  const original = field.text.length === normalized[i].length ? field.text : normalized[i];
+  return {
+    field: field.name,
+    before: (start > SNIPPET_CONTEXT ? '…' : '') + original.slice(Math.max(0, start - SNIPPET_CONTEXT), start),
+    match: original.slice(start, end),
+    after: original.slice(end, end + SNIPPET_CONTEXT * 2) + (end + SNIPPET_CONTEXT * 2 < original.length ? '…' : ''),
+  };
+}
+
+export type FacetCounts = Record<'kinds' | 'types' | 'phases' | 'teams' | 'impacts', Map<string, number>>;
+
+// Values present in `docs` for each facet, with how many documents carry them.
+export function facetCounts(docs: SearchDoc[]): FacetCounts {
+  const counts: FacetCounts = { kinds: new Map(), types: new Map(), phases: new Map(), teams: new Map(), impacts: new Map() };
+  const add = (map: Map<string, number>, value: string | undefined) => {
+    if (value) map.set(value, (map.get(value) || 0) + 1);
+  };
+  docs.forEach(doc => {
+    add(counts.kinds, doc.kind);
+    add(counts.types, doc.type);
+    add(counts.phases, doc.phase);
+    add(counts.teams, doc.team);
+    add(counts.impacts, doc.impact);
+  });
+  return counts;
+}
+
+export interface LibraryHit extends SearchHit {
+  session: AnalysisSession;
+}
+
+// Same search across saved analyses; best hits first, whichever match they're in.
+export function searchLibrary(indexed: { session: AnalysisSession; docs: SearchDoc[] }[], query: string, facets: SearchFacets = EMPTY_FACETS): LibraryHit[] {
+  return indexed
+    .flatMap(({ session, docs }) => searchDocs(docs, query, facets).map(hit => ({ ...hit, session })))
+    .sort((a, b) => b.score - a.score || b.session.createdAt - a.session.createdAt);
+}
@@ -0,0 +1,162 @@
+// Planning, scheduling and merging for segmented (windowed) match analysis
+
+import { AnalysisData, VideoEvent, TacticalInsight, PlayerInsight, FormationWindow } from '../types';
+import { formatTimestamp, parseTimestamp } from './validation';
+
+export interface Segment {
+  index: number;
+  start: number; // seconds
+  end: number;   // seconds
+}
+
+export type SegmentState = 'pending' | 'running' | 'retrying' | 'done' | 'failed';
+
+export interface SegmentStatus extends Segment {
+  state: SegmentState;
+  detail?: string;
+}
+
+// Events of the same kind closer than this are treated as one sighting
+// reported twice by neighbouring windows.
+const DUPLICATE_WINDOW_SEC = 5;
+
+// Splits [0, duration) into windows of windowSec, each extended backwards by
+// overlapSec so plays straddling a boundary are seen whole by one window.
+export function planSegments(duration: number, windowSec: number, overlapSec: number): Segment[] {
+  if (duration <= 0) return [];
+  const segments: Segment[] = [];
+  for (let start = 0, index = 0; start < duration; start += windowSec, index++) {
+    segments.push({
+      index,
+      start: Math.max(0, start - (index > 0 ? overlapSec : 0)),
+      end: Math.min(duration, start + windowSec),
+    });
+  }
+  // Fold a very short tail into the previous window
+  const last = segments[segments.length - 1];
+  if (segments.length > 1 && last.end - last.start < overlapSec * 2) {
+    segments.pop();
+    segments[segments.length - 1].end = duration;
+  }
+  return segments;
+}
+
+export const toOffset = (seconds: number) => `${Math.round(seconds)}s`;
+
+// Runs async tasks with at most `limit` in flight; rejects on the first failure.
+export async function runWithConcurrency<T>(tasks: (() => Promise<T>)[], limit: number): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const i = next++;
+      results[i] = await tasks[i]();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+  return results;
+}
+
+const normalize = (text: string | undefined) => (text || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const isNear = (a: number | undefined, b: number | undefined) =>
+  a !== undefined && b !== undefined && Math.abs(a - b) <= DUPLICATE_WINDOW_SEC;
+
+// Removes near duplicates from a time-sorted list, keeping the more detailed copy.
+const dedupe = <T>(
+  items: T[],
+  same: (a: T, b: T) => boolean,
+  detail: (item: T) => number
+): T[] => {
+  const out: T[] = [];
+  for (const item of items) {
+    const dupIdx = out.findIndex(kept => same(kept, item));
+    if (dupIdx === -1) out.push(item);
+    else if (detail(item) > detail(out[dupIdx])) out[dupIdx] = item;
+  }
+  return out;
+};
+
+// The model is asked for absolute match time, but occasionally answers
+// relative to the clipped window. Shift anything that lands before the window.
+const toAbsolute = (seconds: number, segment: Segment) =>
+  segment.start > 0 && seconds < segment.start - DUPLICATE_WINDOW_SEC ? seconds + segment.start : seconds;
+
+const shiftEvent = (e: VideoEvent, segment: Segment): VideoEvent => {
+  const seconds = toAbsolute(e.seconds, segment);
+  return seconds === e.seconds ? e : { ...e, seconds, timestamp: formatTimestamp(seconds) };
+};
+
+const shiftInsight = (t: TacticalInsight, segment: Segment): TacticalInsight => {
+  if (t.key_moment_seconds === undefined) return t;
+  const seconds = toAbsolute(t.key_moment_seconds, segment);
+  return seconds === t.key_moment_seconds ? t : { ...t, key_moment_seconds: seconds, key_moment_timestamp: formatTimestamp(seconds) };
+};
+
+const shiftPlayer = (p: PlayerInsight, segment: Segment): PlayerInsight => {
+  const shift = (ts?: string) => {
+    const sec = parseTimestamp(ts);
+    return sec === null ? ts : formatTimestamp(toAbsolute(sec, segment));
+  };
+  return { ...p, time_start: shift(p.time_start), time_end: shift(p.time_end) };
+};
+
+const mostCommon = (values: string[]): string => {
+  const counts = new Map<string, number>();
+  values.filter(v => v && v !== 'Unknown').forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  let best = 'Unknown';
+  let bestCount = 0;
+  counts.forEach((count, value) => {
+    if (count > bestCount) { best = value; bestCount = count; }
+  });
+  return best;
+};
+
+// Merges per-window results into one AnalysisData in match order.
+export function mergeSegmentResults(parts: { segment: Segment; data: AnalysisData }[]): AnalysisData {
+  const ordered = [...parts].sort((a, b) => a.segment.start - b.segment.start);
+
+  const events = dedupe(
+    ordered.flatMap(({ segment, data }) => data.events.map(e => shiftEvent(e, segment)))
+      .sort((a, b) => a.seconds - b.seconds),
+    (a, b) => a.type === b.type && normalize(a.team) === normalize(b.team) && isNear(a.seconds, b.seconds),
+    e => e.description.length
+  );
+
+  const tactical_insights = dedupe(
+    ordered.flatMap(({ segment, data }) => data.tactical_insights.map(t => shiftInsight(t, segment)))
+      .sort((a, b) => (a.key_moment_seconds ?? Infinity) - (b.key_moment_seconds ?? Infinity)),
+    (a, b) => a.phase === b.phase && isNear(a.key_moment_seconds, b.key_moment_seconds) &&
+      (normalize(a.title) === normalize(b.title) || normalize(a.visual_cue) === normalize(b.visual_cue)),
+    t => t.observation.length + (t.breakdown?.length ?? 0) * 40
+  );
+
+  const startOf = (p: PlayerInsight) => parseTimestamp(p.time_start) ?? undefined;
+  const player_analysis = dedupe(
+    ordered.flatMap(({ segment, data }) => data.player_analysis.map(p => shiftPlayer(p, segment)))
+      .sort((a, b) => (startOf(a) ?? Infinity) - (startOf(b) ?? Infinity)),
+    (a, b) => normalize(a.player) === normalize(b.player) && a.action_type === b.action_type && isNear(startOf(a), startOf(b)),
+    p => p.description.length
+  );
+
+  const formation_timeline: FormationWindow[] = ordered.map(({ segment, data }) => ({
+    start_seconds: segment.start,
+    end_seconds: segment.end,
+    team_a: data.formations.team_a,
+    team_b: data.formations.team_b,
+  }));
+
+  const contexts = Array.from(new Set(ordered.map(p => p.data.match_context).filter(Boolean)));
+
+  return {
+    match_context: contexts.join(' '),
+    formations: {
+      team_a: mostCommon(formation_timeline.map(f => f.team_a)),
+      team_b: mostCommon(formation_timeline.map(f => f.team_b)),
+    },
+    events,
+    tactical_insights,
+    player_analysis,
+    formation_timeline,
+  };
+}
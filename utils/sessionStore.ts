@@ -0,0 +1,109 @@
+// IndexedDB persistence for the local match library
+
+import { AnalysisSession } from '../types';
+import { sameMoment } from './frameCapture';
+
+const DB_NAME = "pitchside-pro";
+const DB_VERSION = 2;
+const SESSIONS = "sessions";
+// Insight thumbnails, one record per frame so concurrent captures never race
+const THUMBNAILS = "thumbnails";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS)) {
+          const store = db.createObjectStore(SESSIONS, { keyPath: 'id' });
+          store.createIndex('contentHash', 'contentHash');
+          store.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(THUMBNAILS)) {
+          const store = db.createObjectStore(THUMBNAILS, { keyPath: ['sessionId', 'key'] });
+          store.createIndex('sessionId', 'sessionId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>, name = SESSIONS): Promise<T> => {
+  const db = await openDb();
+  return promisify(fn(db.transaction(name, mode).objectStore(name)));
+};
+
+interface ThumbnailRecord {
+  sessionId: string;
+  key: string; // see frameKey in utils/frameCapture
+  dataUrl: string;
+}
+
+// Newest first.
+export async function listSessions(): Promise<AnalysisSession[]> {
+  const sessions = await withStore<AnalysisSession[]>('readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getSession(id: string): Promise<AnalysisSession | undefined> {
+  return withStore<AnalysisSession | undefined>('readonly', store => store.get(id));
+}
+
+export async function findSessionsByHash(contentHash: string): Promise<AnalysisSession[]> {
+  return withStore<AnalysisSession[]>('readonly', store => store.index('contentHash').getAll(contentHash));
+}
+
+export async function saveSession(session: AnalysisSession): Promise<void> {
+  await withStore('readwrite', store => store.put(session));
+}
+
+export async function updateSession(id: string, patch: Partial<Omit<AnalysisSession, 'id'>>): Promise<AnalysisSession> {
+  const existing = await getSession(id);
+  if (!existing) throw new Error(`Session ${id} not found.`);
+  const updated = { ...existing, ...patch, updatedAt: Date.now() };
+  await saveSession(updated);
+  return updated;
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+  await withStore('readwrite', store => store.delete(IDBKeyRange.bound([id], [id, []])), THUMBNAILS);
+}
+
+// Frames captured for a session's insight cards, keyed by frame key.
+export async function loadThumbnails(sessionId: string): Promise<Record<string, string>> {
+  const records = await withStore<ThumbnailRecord[]>('readonly', store => store.index('sessionId').getAll(sessionId), THUMBNAILS);
+  return Object.fromEntries(records.map(r => [r.key, r.dataUrl]));
+}
+
+// Saves a frame in place of the session's earlier captures of the same moment,
+// which showed drawings that have since changed.
+export async function saveThumbnail(sessionId: string, key: string, dataUrl: string): Promise<void> {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(THUMBNAILS, 'readwrite');
+    const store = tx.objectStore(THUMBNAILS);
+    store.getAllKeys(IDBKeyRange.bound([sessionId], [sessionId, []])).onsuccess = (event) => {
+      const keys = (event.target as IDBRequest<IDBValidKey[]>).result as [string, string][];
+      keys.filter(([, other]) => other !== key && sameMoment(other, key)).forEach(stale => store.delete(stale));
+      store.put({ sessionId, key, dataUrl } satisfies ThumbnailRecord);
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
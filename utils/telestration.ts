@@ -0,0 +1,176 @@
+// Telestration drawing: shared canvas rendering for the live overlay and for
+// exported frames, plus timing rules for when a drawing is on screen.
+
+import { DrawingPoint, DrawingShape, TacticalInsight, Telestration } from '../types';
+
+export const TELESTRATION_COLORS = ['#facc15', '#ef4444', '#3b82f6', '#10b981', '#ffffff'];
+
+// Drawings anchored within this distance count as "on" the paused frame
+const PAUSED_TOLERANCE_SEC = 0.5;
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Area the video picture occupies inside an object-contain element.
+export function contentRect(videoWidth: number, videoHeight: number, boxWidth: number, boxHeight: number): Rect {
+  if (!videoWidth || !videoHeight) return { x: 0, y: 0, width: boxWidth, height: boxHeight };
+  const scale = Math.min(boxWidth / videoWidth, boxHeight / videoHeight);
+  const width = videoWidth * scale;
+  const height = videoHeight * scale;
+  return { x: (boxWidth - width) / 2, y: (boxHeight - height) / 2, width, height };
+}
+
+export function activeTelestrations(list: Telestration[] | undefined, time: number, paused: boolean): Telestration[] {
+  return (list || []).filter(t =>
+    (paused && Math.abs(time - t.seconds) <= PAUSED_TOLERANCE_SEC) ||
+    (t.hold > 0 && time >= t.seconds && time <= t.seconds + t.hold)
+  );
+}
+
+// Drawings to bake into a still frame captured at `seconds`.
+export const shapesAt = (list: Telestration[] | undefined, seconds: number): DrawingShape[] =>
+  activeTelestrations(list, seconds, true).flatMap(t => t.shapes);
+
+// Keeps insight links pointing at the right card after an insight is removed.
+export function reindexForRemovedInsight(list: Telestration[] | undefined, removed: number): Telestration[] | undefined {
+  if (!list) return list;
+  return list.map(t => {
+    if (t.insight_index === undefined || t.insight_index < removed) return t;
+    if (t.insight_index === removed) {
+      const { insight_index, ...rest } = t;
+      return rest;
+    }
+    return { ...t, insight_index: t.insight_index - 1 };
+  });
+}
+
+// Points insight links at the same cards in another version of the list,
+// matched by title. Drawings whose card isn't there lose the link.
+export function relinkToInsights(list: Telestration[] | undefined, from: TacticalInsight[], to: TacticalInsight[]): Telestration[] | undefined {
+  if (!list) return list;
+  return list.map(t => {
+    if (t.insight_index === undefined) return t;
+    const title = from[t.insight_index]?.title;
+    const index = to.findIndex(insight => insight.title === title);
+    if (index === t.insight_index) return t;
+    const { insight_index, ...rest } = t;
+    return index === -1 ? rest : { ...rest, insight_index: index };
+  });
+}
+
+// `hex` is #rrggbb; validation drops shapes with any other colour
+const withAlpha = (hex: string, alpha: number) => {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 0xff}, ${(value >> 8) & 0xff}, ${value & 0xff}, ${alpha})`;
+};
+
+const drawArrow = (ctx: CanvasRenderingContext2D, from: DrawingPoint, to: DrawingPoint, unit: number) => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const head = unit * 4;
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x - Math.cos(angle) * head * 0.6, to.y - Math.sin(angle) * head * 0.6);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(to.x - head * Math.cos(angle - Math.PI / 7), to.y - head * Math.sin(angle - Math.PI / 7));
+  ctx.lineTo(to.x - head * Math.cos(angle + Math.PI / 7), to.y - head * Math.sin(angle + Math.PI / 7));
+  ctx.closePath();
+  ctx.fill();
+};
+
+const drawSpotlight = (ctx: CanvasRenderingContext2D, at: DrawingPoint, color: string, rect: Rect) => {
+  const rx = rect.width * 0.035;
+  const ry = rect.height * 0.02;
+  const beamTop = at.y - rect.height * 0.22;
+  const beam = ctx.createLinearGradient(0, beamTop, 0, at.y);
+  beam.addColorStop(0, withAlpha(color, 0));
+  beam.addColorStop(1, withAlpha(color, 0.35));
+  ctx.fillStyle = beam;
+  ctx.beginPath();
+  ctx.moveTo(at.x - rx * 0.4, beamTop);
+  ctx.lineTo(at.x + rx * 0.4, beamTop);
+  ctx.lineTo(at.x + rx, at.y);
+  ctx.lineTo(at.x - rx, at.y);
+  ctx.closePath();
+  ctx.fill();
+  ctx.fillStyle = withAlpha(color, 0.3);
+  ctx.beginPath();
+  ctx.ellipse(at.x, at.y, rx, ry, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+};
+
+const drawLabel = (ctx: CanvasRenderingContext2D, at: DrawingPoint, text: string, color: string, unit: number) => {
+  ctx.font = `700 ${unit * 7}px Inter, sans-serif`;
+  ctx.textBaseline = 'middle';
+  const padding = unit * 2.5;
+  const width = ctx.measureText(text).width + padding * 2;
+  const height = unit * 11;
+  ctx.fillStyle = 'rgba(2, 6, 23, 0.8)';
+  ctx.fillRect(at.x, at.y - height / 2, width, height);
+  ctx.fillStyle = color;
+  ctx.fillRect(at.x, at.y - height / 2, unit * 0.8, height);
+  ctx.fillStyle = '#f8fafc';
+  ctx.fillText(text, at.x + padding, at.y);
+};
+
+// Draws shapes (normalized points) into `rect` of the canvas.
+export function renderShapes(ctx: CanvasRenderingContext2D, shapes: DrawingShape[], rect: Rect) {
+  const unit = rect.height / 200;
+  const toCanvas = (p: DrawingPoint): DrawingPoint => ({ x: rect.x + p.x * rect.width, y: rect.y + p.y * rect.height });
+
+  shapes.forEach(shape => {
+    const points = shape.points.map(toCanvas);
+    if (points.length === 0) return;
+    ctx.save();
+    ctx.strokeStyle = shape.color;
+    ctx.fillStyle = shape.color;
+    ctx.lineWidth = Math.max(2, unit * 1.2);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+    ctx.shadowBlur = unit * 2;
+
+    switch (shape.tool) {
+      case 'arrow':
+        if (points.length >= 2) drawArrow(ctx, points[0], points[points.length - 1], unit);
+        break;
+      case 'freehand':
+        ctx.beginPath();
+        points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        ctx.stroke();
+        break;
+      case 'circle': {
+        if (points.length < 2) break;
+        const radius = Math.hypot(points[1].x - points[0].x, points[1].y - points[0].y);
+        ctx.beginPath();
+        ctx.arc(points[0].x, points[0].y, radius, 0, Math.PI * 2);
+        ctx.fillStyle = withAlpha(shape.color, 0.15);
+        ctx.fill();
+        ctx.stroke();
+        break;
+      }
+      case 'zone':
+        ctx.beginPath();
+        points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        ctx.closePath();
+        ctx.fillStyle = withAlpha(shape.color, 0.25);
+        ctx.fill();
+        ctx.setLineDash([unit * 4, unit * 3]);
+        ctx.stroke();
+        break;
+      case 'spotlight':
+        drawSpotlight(ctx, points[0], shape.color, rect);
+        break;
+      case 'text':
+        if (shape.text) drawLabel(ctx, points[0], shape.text, shape.color, unit);
+        break;
+    }
+    ctx.restore();
+  });
+}
@@ -0,0 +1,216 @@
+// Timeline export to Sportscode/Hudl XML, CSV and WebVTT
+
+import { AnalysisData } from '../types';
+import { parseTimestamp, formatTimestamp } from './validation';
+import { getEventColor } from './eventColors';
+import { playerName } from './roster';
+
+export type InstanceSource = 'events' | 'tactical_insights' | 'player_analysis';
+
+export interface InstanceLabel {
+  group: string;
+  text: string;
+}
+
+// One coded clip window, the common shape behind every export format.
+export interface CodedInstance {
+  id: number;
+  code: string;
+  start: number; // seconds, pre-roll applied
+  end: number;   // seconds, post-roll applied
+  labels: InstanceLabel[];
+  description: string;
+  source: InstanceSource;
+  sourceIndex: number; // position in the source list, stable across option changes
+}
+
+export interface InstanceOptions {
+  preRoll: number;
+  postRoll: number;
+  include: InstanceSource[];
+  duration?: number; // clamps windows to the video length when known
+}
+
+export const DEFAULT_INSTANCE_OPTIONS: InstanceOptions = {
+  preRoll: 5,
+  postRoll: 5,
+  include: ['events', 'tactical_insights', 'player_analysis'],
+};
+
+export type TimelineFormat = 'xml' | 'csv' | 'vtt';
+
+export const TIMELINE_FORMATS: Record<TimelineFormat, { label: string; extension: string; mime: string }> = {
+  xml: { label: 'Sportscode XML', extension: '.xml', mime: 'application/xml' },
+  csv: { label: 'CSV', extension: '.csv', mime: 'text/csv' },
+  vtt: { label: 'WebVTT', extension: '.vtt', mime: 'text/vtt' },
+};
+
+// Builds coded instances from the analysis, sorted by start time. Insights
+// without a key moment and player actions without a start time are skipped.
+export function buildInstances(analysis: AnalysisData, options: InstanceOptions = DEFAULT_INSTANCE_OPTIONS): CodedInstance[] {
+  const { preRoll, postRoll, include, duration } = options;
+  const window = (from: number, to: number = from) => ({
+    start: Math.max(0, from - preRoll),
+    end: duration !== undefined ? Math.min(duration, to + postRoll) : to + postRoll,
+  });
+  const instances: Omit<CodedInstance, 'id'>[] = [];
+
+  if (include.includes('events')) {
+    analysis.events.forEach((evt, sourceIndex) => instances.push({
+      // Hand-coded events carry their own lead/lag window
+      ...(evt.window_start !== undefined && evt.window_end !== undefined
+        ? { start: evt.window_start, end: duration !== undefined ? Math.min(duration, evt.window_end) : evt.window_end }
+        : window(evt.seconds)),
+      code: evt.type,
+      labels: [{ group: 'Team', text: evt.team }],
+      description: evt.description,
+      source: 'events',
+      sourceIndex,
+    }));
+  }
+
+  if (include.includes('tactical_insights')) {
+    analysis.tactical_insights.forEach((insight, sourceIndex) => {
+      if (insight.key_moment_seconds === undefined) return;
+      instances.push({
+        ...window(insight.key_moment_seconds),
+        code: `Tactical: ${insight.phase}`,
+        labels: [
+          { group: 'Insight', text: insight.title },
+          ...(insight.drill_name ? [{ group: 'Drill', text: insight.drill_name }] : []),
+        ],
+        description: `${insight.observation} Coaching point: ${insight.improvement}`,
+        source: 'tactical_insights',
+        sourceIndex,
+      });
+    });
+  }
+
+  if (include.includes('player_analysis')) {
+    analysis.player_analysis.forEach((action, sourceIndex) => {
+      const start = action.time_start ? parseTimestamp(action.time_start) : null;
+      if (start === null) return;
+      const end = action.time_end ? parseTimestamp(action.time_end) : null;
+      instances.push({
+        ...window(start, end !== null && end > start ? end : start),
+        code: playerName(action, analysis.setup),
+        labels: [
+          { group: 'Action', text: action.action_type },
+          { group: 'Impact', text: action.impact },
+        ],
+        description: action.description,
+        source: 'player_analysis',
+        sourceIndex,
+      });
+    });
+  }
+
+  return instances
+    .sort((a, b) => a.start - b.start)
+    .map((instance, idx) => ({ ...instance, id: idx + 1 }));
+}
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+// Sportscode row colours are 16-bit per channel
+const toRowColor = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map(c => c * 257);
+};
+
+// Sportscode/Hudl instance XML (ALL_INSTANCES + ROWS). The description is
+// carried as a "Notes" label since the format has no free-text field.
+export function toSportscodeXml(instances: CodedInstance[]): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<file>', '  <ALL_INSTANCES>'];
+  instances.forEach(instance => {
+    lines.push(
+      '    <instance>',
+      `      <ID>${instance.id}</ID>`,
+      `      <start>${instance.start.toFixed(2)}</start>`,
+      `      <end>${instance.end.toFixed(2)}</end>`,
+      `      <code>${escapeXml(instance.code)}</code>`,
+    );
+    [...instance.labels, { group: 'Notes', text: instance.description }].forEach(label => {
+      lines.push(`      <label><group>${escapeXml(label.group)}</group><text>${escapeXml(label.text)}</text></label>`);
+    });
+    lines.push('    </instance>');
+  });
+  lines.push('  </ALL_INSTANCES>', '  <ROWS>');
+  Array.from(new Set(instances.map(i => i.code))).forEach(code => {
+    const [r, g, b] = toRowColor(getEventColor(code));
+    lines.push(`    <row><code>${escapeXml(code)}</code><R>${r}</R><G>${g}</G><B>${b}</B></row>`);
+  });
+  lines.push('  </ROWS>', '</file>', '');
+  return lines.join('\n');
+}
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(instances: CodedInstance[]): string {
+  const header = ['id', 'code', 'start_seconds', 'end_seconds', 'start', 'end', 'source', 'labels', 'description'];
+  const rows = instances.map(i => [
+    i.id,
+    i.code,
+    i.start.toFixed(2),
+    i.end.toFixed(2),
+    formatTimestamp(i.start),
+    formatTimestamp(i.end),
+    i.source,
+    i.labels.map(l => `${l.group}: ${l.text}`).join('; '),
+    i.description,
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+const vttTime = (seconds: number) => {
+  const ms = Math.round(seconds * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms % 1000, 3)}`;
+};
+
+// Cue text is markup: escape it, and drop blank lines which end the cue payload
+const vttText = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/\n\s*\n/g, '\n');
+
+export function toWebVtt(instances: CodedInstance[]): string {
+  const cues = instances.map(i => [
+    String(i.id),
+    `${vttTime(i.start)} --> ${vttTime(i.end)}`,
+    vttText([i.code, ...i.labels.map(l => l.text)].join(' · ')),
+    vttText(i.description),
+  ].join('\n'));
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+export function exportTimeline(instances: CodedInstance[], format: TimelineFormat): string {
+  switch (format) {
+    case 'xml': return toSportscodeXml(instances);
+    case 'csv': return toCsv(instances);
+    case 'vtt': return toWebVtt(instances);
+  }
+}
+
+export function downloadTimeline(instances: CodedInstance[], format: TimelineFormat, baseName: string) {
+  const { extension, mime } = TIMELINE_FORMATS[format];
+  const blob = new Blob([exportTimeline(instances, format)], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${baseName.replace(/[^\w.-]+/g, '_') || 'timeline'}${extension}`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
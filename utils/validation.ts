@@ -0,0 +1,485 @@
+// Runtime validation and normalization of Gemini analysis output
+
+import {
+  AnalysisData, VideoEvent, TacticalInsight, PlayerInsight, ValidationWarning, EditMarker, CodedWindow, RosterLink,
+  PitchDiagram, PitchActor, PitchMovement, Telestration, DrawingShape, FormationWindow, Playlist, PlaylistItem, MatchSetup,
+  EVENT_TYPES, TACTICAL_PHASES, PLAYER_ACTION_TYPES, IMPACT_LEVELS, MOVEMENT_KINDS, DRAWING_TOOLS
+} from '../types';
+
+export interface ValidationResult {
+  data: AnalysisData;
+  warnings: ValidationWarning[];
+}
+
+// Parses "MM:SS", "H:MM:SS", "1:23.5" or a bare number into seconds.
+export function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed);
+  if (!/^\d+(:\d{1,2}(\.\d+)?){1,2}$/.test(trimmed)) return null;
+  return trimmed.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = (total % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m.toString().padStart(2, '0')}:${s}`;
+}
+
+// Keyword fallbacks for values the model invents outside the declared unions.
+// Checked in order; the first matching keyword wins.
+const EVENT_TYPE_ALIASES: [string, VideoEvent['type']][] = [
+  ['goal', 'Goal'], ['shot', 'Shot'], ['header', 'Shot'], ['save', 'Shot'],
+  ['tackle', 'Defense'], ['intercept', 'Defense'], ['block', 'Defense'], ['clear', 'Defense'], ['defen', 'Defense'],
+  ['foul', 'Mistake'], ['error', 'Mistake'], ['turnover', 'Mistake'], ['loss', 'Mistake'], ['mistake', 'Mistake'],
+  ['counter', 'Transition'], ['transition', 'Transition'],
+  ['pass', 'Pass'], ['cross', 'Pass'], ['through ball', 'Pass'],
+];
+
+const PHASE_ALIASES: [string, TacticalInsight['phase']][] = [
+  ['a-d', 'Transition A-D'], ['attack to def', 'Transition A-D'], ['negative', 'Transition A-D'], ['counter-press', 'Transition A-D'],
+  ['d-a', 'Transition D-A'], ['defence to att', 'Transition D-A'], ['defense to att', 'Transition D-A'], ['positive', 'Transition D-A'], ['counter', 'Transition D-A'],
+  ['defen', 'Defending'], ['press', 'Defending'], ['block', 'Defending'],
+  ['attack', 'Attacking'], ['build', 'Attacking'], ['possession', 'Attacking'],
+];
+
+const ACTION_ALIASES: [string, PlayerInsight['action_type']][] = [
+  ['decoy', 'Decoy'], ['dummy', 'Decoy'],
+  ['track', 'Defensive Tracking'], ['recover', 'Defensive Tracking'], ['cover', 'Defensive Tracking'],
+  ['press', 'Pressing'],
+  ['run', 'Off-Ball Run'], ['movement', 'Off-Ball Run'],
+  ['pass', 'Playmaking'], ['playmak', 'Playmaking'], ['creat', 'Playmaking'],
+];
+
+const IMPACT_ALIASES: [string, PlayerInsight['impact']][] = [
+  ['high', 'High'], ['critical', 'High'], ['major', 'High'],
+  ['med', 'Medium'], ['moderate', 'Medium'],
+  ['low', 'Low'], ['minor', 'Low'],
+];
+
+class Validator {
+  readonly warnings: ValidationWarning[] = [];
+
+  warn(path: string, message: string) {
+    this.warnings.push({ path, message });
+  }
+
+  text(value: unknown, path: string, fallback: string | null): string | null {
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (typeof value === 'number') {
+      this.warn(path, `Expected text, got number ${value}.`);
+      return String(value);
+    }
+    if (value !== undefined && value !== null && value !== '') {
+      this.warn(path, `Expected text, got ${typeof value}.`);
+    } else if (fallback !== null) {
+      this.warn(path, `Missing; defaulted to "${fallback}".`);
+    }
+    return fallback;
+  }
+
+  optionalText(value: unknown, path: string): string | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    return this.text(value, path, null) ?? undefined;
+  }
+
+  oneOf<T extends string>(
+    value: unknown,
+    path: string,
+    allowed: readonly T[],
+    aliases: [string, T][],
+    fallback: T
+  ): T {
+    if (typeof value === 'string') {
+      const exact = allowed.find(a => a.toLowerCase() === value.trim().toLowerCase());
+      if (exact) return exact;
+      const lowered = value.toLowerCase();
+      const alias = aliases.find(([keyword]) => lowered.includes(keyword));
+      if (alias) {
+        this.warn(path, `Mapped "${value}" to "${alias[1]}".`);
+        return alias[1];
+      }
+      this.warn(path, `Unknown value "${value}"; defaulted to "${fallback}".`);
+      return fallback;
+    }
+    this.warn(path, `Missing; defaulted to "${fallback}".`);
+    return fallback;
+  }
+
+  // Resolves a timestamp/seconds pair. The timestamp string wins on disagreement
+  // because the model reads it off the footage, while seconds is derived.
+  time(timestamp: unknown, seconds: unknown, tsPath: string, secPath: string): { timestamp: string; seconds: number } | null {
+    const fromTs = parseTimestamp(timestamp);
+    const fromSec = parseTimestamp(seconds);
+
+    if (seconds !== undefined && seconds !== null && typeof seconds !== 'number') {
+      if (fromSec !== null) this.warn(secPath, `Coerced ${JSON.stringify(seconds)} to ${fromSec}.`);
+      else this.warn(secPath, `Unreadable value ${JSON.stringify(seconds)}.`);
+    }
+    if (timestamp !== undefined && timestamp !== null && fromTs === null) {
+      this.warn(tsPath, `Unreadable timestamp ${JSON.stringify(timestamp)}.`);
+    }
+
+    if (fromTs !== null && fromSec !== null && Math.abs(fromTs - fromSec) > 1) {
+      this.warn(secPath, `Disagreed with timestamp (${fromSec}s vs ${fromTs}s); using timestamp.`);
+      return { timestamp: formatTimestamp(fromTs), seconds: fromTs };
+    }
+    const resolved = fromSec ?? fromTs;
+    if (resolved === null) return null;
+    if (fromTs === null && timestamp === undefined) this.warn(tsPath, 'Missing; derived from seconds.');
+    const keepOriginal = fromTs !== null && typeof timestamp === 'string' && timestamp.includes(':');
+    return { timestamp: keepOriginal ? (timestamp as string).trim() : formatTimestamp(resolved), seconds: resolved };
+  }
+
+  list<T>(value: unknown, path: string, item: (raw: Record<string, any>, path: string) => T | null): T[] {
+    if (value === undefined || value === null) {
+      this.warn(path, 'Missing; treated as empty.');
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      this.warn(path, `Expected a list, got ${typeof value}.`);
+      return [];
+    }
+    const out: T[] = [];
+    value.forEach((raw, i) => {
+      const itemPath = `${path}[${i}]`;
+      if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        this.warn(itemPath, 'Not an object; dropped.');
+        return;
+      }
+      const parsed = item(raw, itemPath);
+      if (parsed) out.push(parsed);
+    });
+    return out;
+  }
+}
+
+// Edit markers are ours, not the model's; keep them when re-validating saved data
+const keepProvenance = (raw: Record<string, any>): EditMarker =>
+  raw.provenance === 'edited' || raw.provenance === 'manual' ? { provenance: raw.provenance } : {};
+
+const keepRosterLink = (raw: Record<string, any>): RosterLink =>
+  typeof raw.roster_id === 'string' && raw.roster_id ? { roster_id: raw.roster_id } : {};
+
+const keepWindow = (raw: Record<string, any>): CodedWindow =>
+  typeof raw.window_start === 'number' && typeof raw.window_end === 'number' && raw.window_end >= raw.window_start
+    ? { window_start: raw.window_start, window_end: raw.window_end }
+    : {};
+
+const validateEvent = (v: Validator, raw: Record<string, any>, path: string): VideoEvent | null => {
+  const time = v.time(raw.timestamp, raw.seconds, `${path}.timestamp`, `${path}.seconds`);
+  if (!time) {
+    v.warn(path, 'No usable time; dropped.');
+    return null;
+  }
+  const description = v.text(raw.description, `${path}.description`, null);
+  if (!description) {
+    v.warn(path, 'No description; dropped.');
+    return null;
+  }
+  return {
+    ...time,
+    type: v.oneOf(raw.type, `${path}.type`, EVENT_TYPES, EVENT_TYPE_ALIASES, 'Tactical'),
+    team: v.text(raw.team, `${path}.team`, 'Unknown')!,
+    description,
+    ...keepProvenance(raw),
+    ...keepWindow(raw),
+  };
+};
+
+const isCoord = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Diagrams are decoration: bad actors and movements are dropped rather than
+// failing the insight, and an empty diagram is removed so the card falls back
+// to visual_cue.
+const validateDiagram = (v: Validator, raw: unknown, path: string): PitchDiagram | undefined => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    v.warn(path, 'Not an object; removed.');
+    return undefined;
+  }
+  const diagram = raw as Record<string, any>;
+  const rawActors: any[] = Array.isArray(diagram.actors) ? diagram.actors : [];
+  const rawMovements: any[] = Array.isArray(diagram.movements) ? diagram.movements : [];
+
+  // Some responses use 0-100 percentages; rescale the whole diagram if so
+  const coords = [
+    ...rawActors.flatMap(a => [a?.x, a?.y]),
+    ...rawMovements.flatMap(m => [m?.to_x, m?.to_y]),
+    diagram.ball?.x, diagram.ball?.y,
+  ].filter(isCoord);
+  const scale = coords.some(c => c > 1.5) ? 100 : 1;
+  if (scale !== 1) v.warn(path, 'Coordinates looked like percentages; rescaled to 0-1.');
+  const norm = (value: number) => Math.min(1, Math.max(0, value / scale));
+
+  const actors: PitchActor[] = [];
+  rawActors.forEach((actor, i) => {
+    if (!actor || !isCoord(actor.x) || !isCoord(actor.y)) {
+      v.warn(`${path}.actors[${i}]`, 'Missing coordinates; dropped.');
+      return;
+    }
+    const label = v.text(actor.label, `${path}.actors[${i}].label`, '')!;
+    actors.push({
+      id: typeof actor.id === 'string' && actor.id.trim() ? actor.id.trim() : `actor${i}`,
+      label: label.slice(0, 3),
+      team: actor.team === 'B' ? 'B' : 'A',
+      x: norm(actor.x),
+      y: norm(actor.y),
+    });
+  });
+  if (actors.length === 0) {
+    v.warn(path, 'No placeable actors; removed.');
+    return undefined;
+  }
+
+  const ids = new Set(actors.map(a => a.id));
+  const movements: PitchMovement[] = [];
+  rawMovements.forEach((movement, i) => {
+    if (!movement || !ids.has(movement.actor) || !isCoord(movement.to_x) || !isCoord(movement.to_y)) {
+      v.warn(`${path}.movements[${i}]`, 'Unknown actor or missing target; dropped.');
+      return;
+    }
+    movements.push({
+      kind: (MOVEMENT_KINDS as readonly string[]).includes(movement.kind) ? movement.kind : 'run',
+      actor: movement.actor,
+      to_x: norm(movement.to_x),
+      to_y: norm(movement.to_y),
+    });
+  });
+
+  const ball = isCoord(diagram.ball?.x) && isCoord(diagram.ball?.y)
+    ? { ball: { x: norm(diagram.ball.x), y: norm(diagram.ball.y) } }
+    : {};
+  return { actors, movements, ...ball };
+};
+
+const validateInsight = (v: Validator, raw: Record<string, any>, path: string): TacticalInsight | null => {
+  const title = v.text(raw.title, `${path}.title`, null);
+  const observation = v.text(raw.observation, `${path}.observation`, null);
+  if (!title && !observation) {
+    v.warn(path, 'No title or observation; dropped.');
+    return null;
+  }
+
+  const insight: TacticalInsight = {
+    title: title ?? observation!.slice(0, 60),
+    phase: v.oneOf(raw.phase, `${path}.phase`, TACTICAL_PHASES, PHASE_ALIASES, 'Attacking'),
+    observation: observation ?? '',
+    improvement: v.text(raw.improvement, `${path}.improvement`, '')!,
+    visual_cue: v.text(raw.visual_cue, `${path}.visual_cue`, '')!,
+    ...keepProvenance(raw),
+  };
+
+  if (raw.breakdown !== undefined && raw.breakdown !== null) {
+    if (Array.isArray(raw.breakdown)) {
+      insight.breakdown = raw.breakdown
+        .map((step: unknown, i: number) => v.optionalText(step, `${path}.breakdown[${i}]`))
+        .filter((step: string | undefined): step is string => !!step);
+    } else if (typeof raw.breakdown === 'string') {
+      v.warn(`${path}.breakdown`, 'Expected a list; split text into steps.');
+      insight.breakdown = raw.breakdown.split(/\n+/).map((s: string) => s.trim()).filter(Boolean);
+    } else {
+      v.warn(`${path}.breakdown`, `Expected a list, got ${typeof raw.breakdown}.`);
+    }
+  }
+
+  insight.drill_name = v.optionalText(raw.drill_name, `${path}.drill_name`);
+  insight.drill_setup = v.optionalText(raw.drill_setup, `${path}.drill_setup`);
+
+  if (raw.key_moment_timestamp !== undefined || raw.key_moment_seconds !== undefined) {
+    const time = v.time(raw.key_moment_timestamp, raw.key_moment_seconds, `${path}.key_moment_timestamp`, `${path}.key_moment_seconds`);
+    if (time) {
+      insight.key_moment_timestamp = time.timestamp;
+      insight.key_moment_seconds = time.seconds;
+    }
+  }
+
+  if (raw.diagram !== undefined && raw.diagram !== null) {
+    insight.diagram = validateDiagram(v, raw.diagram, `${path}.diagram`);
+  }
+
+  return insight;
+};
+
+const validatePlayer = (v: Validator, raw: Record<string, any>, path: string): PlayerInsight | null => {
+  const description = v.text(raw.description, `${path}.description`, null);
+  if (!description) {
+    v.warn(path, 'No description; dropped.');
+    return null;
+  }
+
+  const player: PlayerInsight = {
+    player: v.text(raw.player, `${path}.player`, 'Unknown Player')!,
+    action_type: v.oneOf(raw.action_type, `${path}.action_type`, PLAYER_ACTION_TYPES, ACTION_ALIASES, 'Off-Ball Run'),
+    description,
+    impact: v.oneOf(raw.impact, `${path}.impact`, IMPACT_LEVELS, IMPACT_ALIASES, 'Medium'),
+    ...keepProvenance(raw),
+    ...keepRosterLink(raw),
+  };
+
+  // time_start/time_end stay as display strings, normalized to MM:SS when readable.
+  (['time_start', 'time_end'] as const).forEach(key => {
+    if (raw[key] === undefined || raw[key] === null || raw[key] === '') return;
+    const seconds = parseTimestamp(raw[key]);
+    if (seconds === null) {
+      v.warn(`${path}.${key}`, `Unreadable timestamp ${JSON.stringify(raw[key])}; removed.`);
+      return;
+    }
+    if (typeof raw[key] !== 'string' || !raw[key].includes(':')) {
+      v.warn(`${path}.${key}`, `Coerced ${JSON.stringify(raw[key])} to MM:SS.`);
+      player[key] = formatTimestamp(seconds);
+    } else {
+      player[key] = raw[key].trim();
+    }
+  });
+
+  return player;
+};
+
+const PLAYLIST_SOURCES: PlaylistItem['source'][] = ['events', 'tactical_insights', 'player_analysis'];
+const isOptionalText = (value: unknown) => value === undefined || typeof value === 'string';
+
+const isPlaylistItem = (item: any): item is PlaylistItem =>
+  item && typeof item.id === 'string' && PLAYLIST_SOURCES.includes(item.source) && typeof item.title === 'string' &&
+  Number.isFinite(item.start) && Number.isFinite(item.end) && item.end >= item.start && Number.isFinite(item.key_seconds) &&
+  isOptionalText(item.overlay) && isOptionalText(item.note);
+
+const keepPlaylist = (v: Validator, raw: any, path: string): Playlist | null => {
+  if (!raw || typeof raw.id !== 'string' || typeof raw.name !== 'string' || !Array.isArray(raw.items)) {
+    v.warn(path, 'Unreadable playlist; dropped.');
+    return null;
+  }
+  const items = raw.items.filter((item: unknown, i: number) => {
+    if (isPlaylistItem(item)) return true;
+    v.warn(`${path}.items[${i}]`, 'Unreadable playlist item; dropped.');
+    return false;
+  });
+  return { id: raw.id, name: raw.name, items };
+};
+
+const isFormationWindow = (w: any): w is FormationWindow =>
+  w && Number.isFinite(w.start_seconds) && Number.isFinite(w.end_seconds) && w.end_seconds >= w.start_seconds &&
+  typeof w.team_a === 'string' && typeof w.team_b === 'string';
+
+// Drawings are rendered as stored, so a shape is kept whole or dropped.
+// Colours are #rrggbb, as the palette produces; the renderer derives tints from them.
+const isShape = (shape: any): shape is DrawingShape =>
+  shape && typeof shape.id === 'string' && DRAWING_TOOLS.includes(shape.tool) &&
+  typeof shape.color === 'string' && /^#[0-9a-f]{6}$/i.test(shape.color) &&
+  Array.isArray(shape.points) && shape.points.length > 0 &&
+  shape.points.every((p: any) => p && Number.isFinite(p.x) && Number.isFinite(p.y)) &&
+  isOptionalText(shape.text);
+
+const keepTelestration = (v: Validator, raw: any, path: string): Telestration | null => {
+  if (!raw || typeof raw.id !== 'string' || !Number.isFinite(raw.seconds) || !Array.isArray(raw.shapes)) {
+    v.warn(path, 'Unreadable drawing; dropped.');
+    return null;
+  }
+  const shapes = raw.shapes.filter((shape: unknown, i: number) => {
+    if (isShape(shape)) return true;
+    v.warn(`${path}.shapes[${i}]`, 'Unreadable shape; dropped.');
+    return false;
+  });
+  return {
+    id: raw.id,
+    seconds: raw.seconds,
+    hold: Number.isFinite(raw.hold) ? raw.hold : 0,
+    shapes,
+    ...(Number.isInteger(raw.insight_index) ? { insight_index: raw.insight_index } : {}),
+  };
+};
+
+// Lists the app adds locally (merged formations, drawings, playlists) survive a
+// re-validation of saved data; the model never produces them.
+// Entries that would break rendering are dropped with a warning.
+const keepLocalLists = (v: Validator, root: Record<string, any>): Pick<AnalysisData, 'formation_timeline' | 'telestrations' | 'playlists'> => ({
+  ...(Array.isArray(root.formation_timeline)
+    ? {
+        formation_timeline: root.formation_timeline.filter((w: unknown, i: number) => {
+          if (isFormationWindow(w)) return true;
+          v.warn(`formation_timeline[${i}]`, 'Unreadable formation window; dropped.');
+          return false;
+        }),
+      }
+    : {}),
+  ...(Array.isArray(root.telestrations)
+    ? {
+        telestrations: root.telestrations
+          .map((t: unknown, i: number) => keepTelestration(v, t, `telestrations[${i}]`))
+          .filter((t: Telestration | null): t is Telestration => !!t),
+      }
+    : {}),
+  ...(Array.isArray(root.playlists)
+    ? {
+        playlists: root.playlists
+          .map((p: unknown, i: number) => keepPlaylist(v, p, `playlists[${i}]`))
+          .filter((p: Playlist | null): p is Playlist => !!p),
+      }
+    : {}),
+});
+
+// Match setup comes from the analyst, so it is kept whole or not at all.
+export function parseSetup(setup: any): MatchSetup | null {
+  const isTeam = (team: any) => team && typeof team.name === 'string' && typeof team.color === 'string';
+  if (!(setup && isTeam(setup.team_a) && isTeam(setup.team_b) && (setup.team_a_first_half === 'left' || setup.team_a_first_half === 'right'))) return null;
+  if (!(setup.second_half_start === undefined || Number.isFinite(setup.second_half_start))) return null;
+  if (!(isOptionalText(setup.competition) && isOptionalText(setup.date))) return null;
+  const withRoster = (team: any) => Array.isArray(team.roster)
+    ? { ...team, roster: team.roster.filter((p: any) => p && typeof p.id === 'string' && typeof p.name === 'string') }
+    : team;
+  return { ...setup, team_a: withRoster(setup.team_a), team_b: withRoster(setup.team_b) };
+}
+
+const keepSetup = (root: Record<string, any>): Pick<AnalysisData, 'setup'> => {
+  const setup = parseSetup(root.setup);
+  return setup ? { setup } : {};
+};
+
+// Validates parsed model output against AnalysisData. Broken list items are
+// dropped individually; only a non-object root is treated as fatal.
+export function validateAnalysis(raw: unknown): ValidationResult {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error("Response is not a JSON object.");
+  }
+  const root = raw as Record<string, any>;
+  const v = new Validator();
+
+  const formations = root.formations && typeof root.formations === 'object' ? root.formations : {};
+
+  const events = v.list(root.events, 'events', (item, path) => validateEvent(v, item, path));
+  events.sort((a, b) => a.seconds - b.seconds);
+
+  const data: AnalysisData = {
+    match_context: v.text(root.match_context, 'match_context', '')!,
+    formations: {
+      team_a: v.text(formations.team_a, 'formations.team_a', 'Unknown')!,
+      team_b: v.text(formations.team_b, 'formations.team_b', 'Unknown')!,
+    },
+    events,
+    tactical_insights: v.list(root.tactical_insights, 'tactical_insights', (item, path) => validateInsight(v, item, path)),
+    player_analysis: v.list(root.player_analysis, 'player_analysis', (item, path) => validatePlayer(v, item, path)),
+    ...keepLocalLists(v, root),
+    ...keepSetup(root),
+  };
+
+  return { data, warnings: v.warnings };
+}
+
+export type AnalysisListKey = 'events' | 'tactical_insights' | 'player_analysis';
+
+const ITEM_VALIDATORS = {
+  events: validateEvent,
+  tactical_insights: validateInsight,
+  player_analysis: validatePlayer,
+};
+
+// Validates one list item as it arrives from a stream. Warnings are discarded;
+// the complete response is validated again once the stream ends.
+export function validateStreamedItem<K extends AnalysisListKey>(key: K, raw: unknown): AnalysisData[K][number] | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const validate = ITEM_VALIDATORS[key] as (v: Validator, raw: Record<string, any>, path: string) => AnalysisData[K][number] | null;
+  return validate(new Validator(), raw as Record<string, any>, key);
+}
@@ -4,16 +4,20 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Gemini calls go through the API proxy (server/), which holds the key;
+    // nothing from the environment is inlined into the client bundle.
+    // xfwd passes on the client address, which the proxy rate-limits by.
+    const proxy = { '/api': { target: env.API_PROXY_URL || 'http://localhost:8787', xfwd: true } };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      preview: {
+        proxy,
       },
+      plugins: [react()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),